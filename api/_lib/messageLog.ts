@@ -0,0 +1,72 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BookingMessage } from '../../src/types';
+import { ProviderError, getMessagingProvider, sendWithRetry } from './messaging';
+
+// A row left in sending this long belongs to a send that died, and may be claimed again
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Move a queued or failed row to sending, in one conditional update, so only one caller
+ * hands it to the provider. Resolves with null when another caller has it or it is sent.
+ */
+const claimMessage = async (supabase: SupabaseClient, messageId: string): Promise<BookingMessage | null> => {
+  const staleBefore = new Date(Date.now() - SENDING_TIMEOUT_MS).toISOString();
+  const { data, error } = await supabase
+    .from('message_log')
+    .update({ status: 'sending', updated_at: new Date().toISOString() })
+    .eq('id', messageId)
+    .or(`status.in.(queued,failed),and(status.eq.sending,updated_at.lt.${staleBefore})`)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Send a message_log row through the configured provider and record the outcome on it.
+ * The row is claimed first; a row that is already sent or being sent is returned as it is,
+ * so concurrent or repeated calls never send twice.
+ */
+export const deliverLoggedMessage = async (
+  supabase: SupabaseClient,
+  message: BookingMessage
+): Promise<BookingMessage> => {
+  if (message.status === 'sent') return message;
+
+  const claimed = await claimMessage(supabase, message.id);
+  if (!claimed) {
+    const { data, error } = await supabase.from('message_log').select('*').eq('id', message.id).single();
+    if (error) throw error;
+    return data;
+  }
+
+  let providerName: string | null = null;
+  let result;
+  try {
+    const provider = getMessagingProvider();
+    providerName = provider.name;
+    result = await sendWithRetry(provider, claimed.recipient, claimed.body);
+  } catch (err) {
+    result = { ok: false, attempts: 0, error: err instanceof ProviderError ? err.message : 'Failed to send message' };
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('message_log')
+    .update({
+      provider: providerName,
+      status: result.ok ? 'sent' : 'failed',
+      provider_message_id: result.ok ? result.provider_message_id || null : null,
+      attempts: (claimed.attempts || 0) + result.attempts,
+      last_error: result.ok ? null : result.error,
+      sent_at: result.ok ? now : null,
+      updated_at: now,
+    })
+    .eq('id', claimed.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,155 @@
+// Messaging providers used by the /api functions. Files under api/_lib are not deployed as routes.
+//
+// WHATSAPP_PROVIDER picks the adapter:
+//   cloud  - WhatsApp Cloud API (WHATSAPP_CLOUD_TOKEN, WHATSAPP_CLOUD_PHONE_NUMBER_ID)
+//   twilio - Twilio WhatsApp (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_FROM)
+//   mock   - logs the message and reports it sent; set WHATSAPP_MOCK_FAIL=true to exercise failures
+
+export type MessagingProviderName = 'cloud' | 'twilio' | 'mock';
+
+export interface MessagingProvider {
+  name: MessagingProviderName;
+  send(to: string, body: string): Promise<{ provider_message_id: string }>;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  attempts: number;
+  provider_message_id?: string;
+  error?: string;
+}
+
+// retryable: worth another attempt (network errors, rate limits, provider 5xx)
+export class ProviderError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'ProviderError';
+    this.retryable = retryable;
+  }
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+// Same rule the app has always used: digits only, Bangladesh country code when missing
+export const toWhatsAppNumber = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('88') ? digits : `88${digits}`;
+};
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) throw new ProviderError(`${name} is not set`, false);
+  return value;
+};
+
+const postToProvider = async (url: string, init: RequestInit): Promise<any> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, method: 'POST' });
+  } catch (err) {
+    throw new ProviderError(err instanceof Error ? err.message : 'Network error', true);
+  }
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const detail = payload?.error?.message || payload?.message || response.statusText;
+    throw new ProviderError(`${response.status} ${detail}`, response.status === 429 || response.status >= 500);
+  }
+  return payload;
+};
+
+// Free-form text is only delivered inside WhatsApp's 24-hour customer service window;
+// outside it Meta requires an approved template message.
+const cloudProvider: MessagingProvider = {
+  name: 'cloud',
+  async send(to, body) {
+    const token = requireEnv('WHATSAPP_CLOUD_TOKEN');
+    const phoneNumberId = requireEnv('WHATSAPP_CLOUD_PHONE_NUMBER_ID');
+    const payload = await postToProvider(`https://graph.facebook.com/v19.0/${phoneNumberId}/messages`, {
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        to: toWhatsAppNumber(to),
+        type: 'text',
+        text: { body },
+      }),
+    });
+    return { provider_message_id: payload?.messages?.[0]?.id || '' };
+  },
+};
+
+const twilioProvider: MessagingProvider = {
+  name: 'twilio',
+  async send(to, body) {
+    const accountSid = requireEnv('TWILIO_ACCOUNT_SID');
+    const authToken = requireEnv('TWILIO_AUTH_TOKEN');
+    const from = requireEnv('TWILIO_WHATSAPP_FROM');
+    const payload = await postToProvider(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        From: from.startsWith('whatsapp:') ? from : `whatsapp:${from}`,
+        To: `whatsapp:+${toWhatsAppNumber(to)}`,
+        Body: body,
+      }).toString(),
+    });
+    return { provider_message_id: payload?.sid || '' };
+  },
+};
+
+const mockProvider: MessagingProvider = {
+  name: 'mock',
+  async send(to, body) {
+    if (process.env.WHATSAPP_MOCK_FAIL === 'true') {
+      throw new ProviderError('Mock provider configured to fail', false);
+    }
+    console.log(`📱 [mock] WhatsApp message to +${toWhatsAppNumber(to)}:\n${body}`);
+    return { provider_message_id: `mock-${Date.now()}` };
+  },
+};
+
+const PROVIDERS: Record<MessagingProviderName, MessagingProvider> = {
+  cloud: cloudProvider,
+  twilio: twilioProvider,
+  mock: mockProvider,
+};
+
+// No silent default: an unconfigured deployment must report failures, not fake successes
+export const getMessagingProvider = (): MessagingProvider => {
+  const name = process.env.WHATSAPP_PROVIDER as MessagingProviderName | undefined;
+  if (!name || !PROVIDERS[name]) {
+    throw new ProviderError('WhatsApp provider is not configured (set WHATSAPP_PROVIDER to cloud, twilio or mock)', false);
+  }
+  return PROVIDERS[name];
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Send through a provider, retrying retryable failures with exponential backoff.
+ * Never throws; the result says how many attempts were made and the last error.
+ */
+export const sendWithRetry = async (provider: MessagingProvider, to: string, body: string): Promise<DeliveryResult> => {
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const { provider_message_id } = await provider.send(to, body);
+      return { ok: true, attempts: attempt, provider_message_id };
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : 'Failed to send message';
+      const retryable = err instanceof ProviderError ? err.retryable : true;
+      if (!retryable || attempt === MAX_ATTEMPTS) {
+        return { ok: false, attempts: attempt, error: lastError };
+      }
+      await sleep(RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  return { ok: false, attempts: MAX_ATTEMPTS, error: lastError };
+};
@@ -0,0 +1,159 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Booking, Expense, Room, SheetSyncOutboxEntry } from '../../src/types';
+import { SheetEntity, SheetTabs, bookingToRow, deleteRow, expenseToRow, getSheetTabs, rewriteSheet, upsertRow } from './sheets';
+
+// Outbox rows give up after this many attempts; a full resync still corrects the sheet
+const MAX_ATTEMPTS = 8;
+const REPLAY_BATCH = 25;
+// Records changed while being written come straight back as due; stop after a few passes
+const REPLAY_PASSES = 4;
+const RESYNC_PAGE = 1000;
+
+const errorMessage = (err: unknown): string => (err instanceof Error ? err.message : 'Sheet sync failed');
+
+// 2, 4, 8... minutes, capped at 12 hours
+const nextAttemptAt = (attempts: number): string =>
+  new Date(Date.now() + Math.min(2 ** attempts, 720) * 60 * 1000).toISOString();
+
+const fetchRooms = async (supabase: SupabaseClient): Promise<Room[]> => {
+  const { data, error } = await supabase.from('rooms').select('*');
+  if (error) throw error;
+  return data || [];
+};
+
+// Write one record's current state to its tab; a record that no longer exists or is in the Trash loses its row
+const writeRecord = async (
+  supabase: SupabaseClient,
+  tabs: SheetTabs,
+  rooms: Room[],
+  entity: SheetEntity,
+  recordId: string
+) => {
+  const { data: record, error } =
+    entity === 'booking'
+      ? await supabase.from('bookings').select('*, booking_rooms(*)').eq('id', recordId).maybeSingle()
+      : await supabase.from('expenses').select('*').eq('id', recordId).maybeSingle();
+
+  if (error) throw error;
+  if (!record || record.deleted_at) {
+    await deleteRow(tabs[entity], recordId);
+    return;
+  }
+  await upsertRow(tabs[entity], entity === 'booking' ? bookingToRow(record, rooms) : expenseToRow(record));
+};
+
+// Move due entries to processing so that concurrent replays never write the same record
+const claimDueEntries = async (supabase: SupabaseClient): Promise<SheetSyncOutboxEntry[]> => {
+  const { data, error } = await supabase.rpc('claim_sheet_sync_entries', { p_limit: REPLAY_BATCH });
+
+  if (error) throw error;
+  return ((data || []) as SheetSyncOutboxEntry[]).sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+/**
+ * Write every outbox entry that is due, after claiming it. An entry is only marked done if
+ * its record was not queued again while it was being written; otherwise it goes back to
+ * pending and the next pass writes the newer state.
+ */
+export const replaySheetOutbox = async (supabase: SupabaseClient): Promise<{ replayed: number; failed: number }> => {
+  let replayed = 0;
+  let failed = 0;
+  let tabs: SheetTabs | null = null;
+  let rooms: Room[] = [];
+
+  for (let pass = 0; pass < REPLAY_PASSES; pass++) {
+    const due = await claimDueEntries(supabase);
+    if (due.length === 0) break;
+
+    if (!tabs) {
+      tabs = getSheetTabs();
+      rooms = await fetchRooms(supabase);
+    }
+
+    for (const entry of due) {
+      try {
+        await writeRecord(supabase, tabs, rooms, entry.entity, entry.record_id);
+        const { data: finished } = await supabase
+          .from('sheet_sync_outbox')
+          .update({ status: 'done', last_error: null, processed_at: new Date().toISOString() })
+          .eq('id', entry.id)
+          .eq('queued_at', entry.queued_at)
+          .select('id');
+        if (!finished || finished.length === 0) {
+          await supabase
+            .from('sheet_sync_outbox')
+            .update({ status: 'pending', next_attempt_at: new Date().toISOString() })
+            .eq('id', entry.id);
+        }
+        replayed++;
+      } catch (err) {
+        failed++;
+        const attempts = entry.attempts + 1;
+        await supabase
+          .from('sheet_sync_outbox')
+          .update({
+            status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            attempts,
+            last_error: errorMessage(err),
+            next_attempt_at: nextAttemptAt(attempts),
+          })
+          .eq('id', entry.id);
+      }
+    }
+  }
+
+  return { replayed, failed };
+};
+
+const fetchAllPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += RESYNC_PAGE) {
+    const { data, error } = await fetchPage(from, from + RESYNC_PAGE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < RESYNC_PAGE) break;
+  }
+  return rows;
+};
+
+/**
+ * Rewrite the bookings and expenses tabs from the database. Outbox entries queued before
+ * the resync started are covered by it and are marked done.
+ */
+export const resyncSheet = async (supabase: SupabaseClient): Promise<{ rows: number }> => {
+  const startedAt = new Date().toISOString();
+  const tabs = getSheetTabs();
+  const rooms = await fetchRooms(supabase);
+
+  const bookings = await fetchAllPages<Booking>((from, to) =>
+    supabase
+      .from('bookings')
+      .select('*, booking_rooms(*)')
+      .is('deleted_at', null)
+      .order('check_in', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+  const expenses = await fetchAllPages<Expense>((from, to) =>
+    supabase
+      .from('expenses')
+      .select('*')
+      .is('deleted_at', null)
+      .order('expense_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  await rewriteSheet(tabs.booking, bookings.map((booking) => bookingToRow(booking, rooms)));
+  await rewriteSheet(tabs.expense, expenses.map(expenseToRow));
+
+  await supabase
+    .from('sheet_sync_outbox')
+    .update({ status: 'done', last_error: null, processed_at: new Date().toISOString() })
+    .in('status', ['pending', 'failed'])
+    .lt('queued_at', startedAt);
+
+  return { rows: bookings.length + expenses.length };
+};
@@ -0,0 +1,182 @@
+import { google, sheets_v4 } from 'googleapis';
+import { Booking, Expense, Room } from '../../src/types';
+import { getBookingGrossTotal } from '../../src/utils/taxUtils';
+
+// Google Sheets access for the mirrored sheet.
+//   GOOGLE_SERVICE_ACCOUNT_EMAIL / GOOGLE_PRIVATE_KEY - service account the sheet is shared with
+//   GOOGLE_SHEET_ID                                  - spreadsheet id from its URL
+//   GOOGLE_SHEET_TAB                                 - bookings tab (default "Bookings")
+//   GOOGLE_SHEET_EXPENSES_TAB                        - expenses tab (default "Expenses")
+// Each tab holds one row per record, keyed by the record id in column A.
+
+export type SheetEntity = 'booking' | 'expense';
+
+const BOOKING_HEADERS = [
+  'Booking ID',
+  'Booking No',
+  'Guest Name',
+  'Phone',
+  'Email',
+  'Rooms',
+  'Check-in',
+  'Check-out',
+  'Status',
+  'Base Price',
+  'VAT',
+  'Service Charge',
+  'Total',
+  'Paid',
+  'Balance Due',
+  'Refunded',
+  'Updated At',
+];
+
+const EXPENSE_HEADERS = [
+  'Expense ID',
+  'Date',
+  'Category',
+  'Description',
+  'Amount',
+  'Payment Method',
+  'Created By',
+  'Updated At',
+];
+
+export interface SheetTab {
+  api: sheets_v4.Sheets;
+  spreadsheetId: string;
+  tab: string;
+  headers: string[];
+}
+
+export type SheetTabs = Record<SheetEntity, SheetTab>;
+
+const lastColumn = (sheet: SheetTab): string => String.fromCharCode('A'.charCodeAt(0) + sheet.headers.length - 1);
+
+export const getSheetTabs = (): SheetTabs => {
+  const email = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+  const key = process.env.GOOGLE_PRIVATE_KEY;
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID;
+  if (!email || !key || !spreadsheetId) {
+    throw new Error('Google Sheet sync is not configured (GOOGLE_SERVICE_ACCOUNT_EMAIL, GOOGLE_PRIVATE_KEY, GOOGLE_SHEET_ID)');
+  }
+
+  const auth = new google.auth.JWT({
+    email,
+    // Vercel stores the key on one line with literal \n sequences
+    key: key.replace(/\\n/g, '\n'),
+    scopes: ['https://www.googleapis.com/auth/spreadsheets'],
+  });
+
+  const api = google.sheets({ version: 'v4', auth });
+  return {
+    booking: { api, spreadsheetId, tab: process.env.GOOGLE_SHEET_TAB || 'Bookings', headers: BOOKING_HEADERS },
+    expense: { api, spreadsheetId, tab: process.env.GOOGLE_SHEET_EXPENSES_TAB || 'Expenses', headers: EXPENSE_HEADERS },
+  };
+};
+
+export const bookingToRow = (booking: Booking, rooms: Room[]): (string | number)[] => {
+  const roomIds = booking.booking_rooms?.length ? booking.booking_rooms.map((br) => br.room_id) : [booking.room_id];
+  const roomNames = roomIds.map((id) => rooms.find((r) => r.id === id)?.name || '').filter(Boolean);
+
+  return [
+    booking.id,
+    booking.booking_no,
+    booking.guest_name,
+    booking.guest_phone,
+    booking.guest_email || '',
+    roomNames.join(', '),
+    booking.check_in.slice(0, 10),
+    booking.check_out.slice(0, 10),
+    booking.status,
+    booking.price,
+    booking.vat_amount,
+    booking.service_charge_amount || 0,
+    getBookingGrossTotal(booking),
+    booking.advance,
+    booking.checkout_payable,
+    booking.refund_amount || 0,
+    booking.updated_at,
+  ];
+};
+
+export const expenseToRow = (expense: Expense): (string | number)[] => [
+  expense.id,
+  expense.expense_date.slice(0, 10),
+  expense.category,
+  expense.description || '',
+  expense.amount,
+  expense.payment_method || '',
+  expense.created_by || '',
+  expense.updated_at,
+];
+
+const readRecordIds = async (sheet: SheetTab): Promise<string[]> => {
+  const { data } = await sheet.api.spreadsheets.values.get({
+    spreadsheetId: sheet.spreadsheetId,
+    range: `${sheet.tab}!A:A`,
+  });
+  return (data.values || []).map((row) => String(row[0] || ''));
+};
+
+// 1-based sheet row holding a record id in column A, or null
+const findRecordRow = (ids: string[], recordId: string): number | null => {
+  const index = ids.indexOf(recordId);
+  return index === -1 ? null : index + 1;
+};
+
+export const upsertRow = async (sheet: SheetTab, row: (string | number)[]): Promise<void> => {
+  const ids = await readRecordIds(sheet);
+  const rowNumber = findRecordRow(ids, String(row[0]));
+
+  if (rowNumber) {
+    await sheet.api.spreadsheets.values.update({
+      spreadsheetId: sheet.spreadsheetId,
+      range: `${sheet.tab}!A${rowNumber}:${lastColumn(sheet)}${rowNumber}`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [row] },
+    });
+    return;
+  }
+
+  await sheet.api.spreadsheets.values.append({
+    spreadsheetId: sheet.spreadsheetId,
+    range: `${sheet.tab}!A:${lastColumn(sheet)}`,
+    valueInputOption: 'RAW',
+    insertDataOption: 'INSERT_ROWS',
+    // An empty tab gets its header row first
+    requestBody: { values: ids.length === 0 ? [sheet.headers, row] : [row] },
+  });
+};
+
+export const deleteRow = async (sheet: SheetTab, recordId: string): Promise<void> => {
+  const rowNumber = findRecordRow(await readRecordIds(sheet), recordId);
+  if (!rowNumber) return;
+
+  const { data } = await sheet.api.spreadsheets.get({ spreadsheetId: sheet.spreadsheetId, fields: 'sheets.properties' });
+  const sheetId = data.sheets?.find((s) => s.properties?.title === sheet.tab)?.properties?.sheetId;
+  if (sheetId === undefined || sheetId === null) throw new Error(`Sheet tab "${sheet.tab}" not found`);
+
+  await sheet.api.spreadsheets.batchUpdate({
+    spreadsheetId: sheet.spreadsheetId,
+    requestBody: {
+      requests: [
+        { deleteDimension: { range: { sheetId, dimension: 'ROWS', startIndex: rowNumber - 1, endIndex: rowNumber } } },
+      ],
+    },
+  });
+};
+
+// Replace the whole tab with a header row and the given rows
+export const rewriteSheet = async (sheet: SheetTab, rows: (string | number)[][]): Promise<void> => {
+  await sheet.api.spreadsheets.values.clear({
+    spreadsheetId: sheet.spreadsheetId,
+    range: `${sheet.tab}!A:${lastColumn(sheet)}`,
+  });
+  await sheet.api.spreadsheets.values.update({
+    spreadsheetId: sheet.spreadsheetId,
+    range: `${sheet.tab}!A1`,
+    valueInputOption: 'RAW',
+    requestBody: { values: [sheet.headers, ...rows] },
+  });
+};
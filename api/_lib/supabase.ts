@@ -0,0 +1,48 @@
+import type { VercelRequest } from '@vercel/node';
+import { SupabaseClient, createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = () => process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '';
+
+// Full access, bypassing RLS. Only for callers authenticated with CRON_SECRET.
+export const createServiceClient = (): SupabaseClient =>
+  createClient(supabaseUrl(), process.env.SUPABASE_SERVICE_ROLE_KEY || '', { auth: { persistSession: false } });
+
+// Acts as the signed-in staff user whose access token was passed
+export const createUserClient = (token: string): SupabaseClient =>
+  createClient(supabaseUrl(), process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY || '', {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false },
+  });
+
+export const bearerToken = (req: VercelRequest): string =>
+  (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+
+export const isCronRequest = (req: VercelRequest): boolean =>
+  !!process.env.CRON_SECRET && bearerToken(req) === process.env.CRON_SECRET;
+
+/**
+ * The database client for a request: the service client for Vercel Cron, otherwise a client
+ * for the signed-in user. Resolves to null when the caller is neither.
+ */
+export const authenticate = async (req: VercelRequest): Promise<SupabaseClient | null> => {
+  if (isCronRequest(req)) return createServiceClient();
+
+  const token = bearerToken(req);
+  if (!token) return null;
+
+  const supabase = createUserClient(token);
+  const { data, error } = await supabase.auth.getUser(token);
+  return error || !data.user ? null : supabase;
+};
+
+/**
+ * Like authenticate, but a signed-in user must also hold the permission (see
+ * has_permission() in the staff_roles migration). Cron requests always pass.
+ */
+export const authorize = async (req: VercelRequest, permission: string): Promise<SupabaseClient | null> => {
+  const supabase = await authenticate(req);
+  if (!supabase || isCronRequest(req)) return supabase;
+
+  const { data, error } = await supabase.rpc('has_permission', { p_permission: permission });
+  return error || !data ? null : supabase;
+};
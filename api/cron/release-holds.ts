@@ -0,0 +1,26 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createServiceClient, isCronRequest } from '../_lib/supabase';
+
+/**
+ * GET /api/cron/release-holds, run daily by Vercel Cron (see vercel.json).
+ *
+ * Cancels tentative holds whose hold_expires_at has passed (release_expired_holds() in the
+ * booking_holds migration). Expired holds already stop blocking rooms; this takes them off
+ * the lists. Uses the service role key, so it must only be callable with CRON_SECRET.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const supabase = createServiceClient();
+
+  try {
+    const { data, error } = await supabase.rpc('release_expired_holds');
+    if (error) throw error;
+    return res.status(200).json({ released: data || 0 });
+  } catch (err: any) {
+    console.error('Releasing expired holds failed:', err);
+    return res.status(500).json({ error: err.message || 'Releasing expired holds failed' });
+  }
+}
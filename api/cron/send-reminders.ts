@@ -0,0 +1,129 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Booking, MessageTemplate, RefundPolicy, Room } from '../../src/types';
+import { addDays } from '../../src/utils/bookingUtils';
+import { DEFAULT_REFUND_POLICIES } from '../../src/utils/calculationUtils';
+import { buildTemplateValues, getMessageTemplate, renderTemplate } from '../../src/utils/templateUtils';
+import { deliverLoggedMessage } from '../_lib/messageLog';
+import { createServiceClient, isCronRequest } from '../_lib/supabase';
+
+type ReminderKind = 'pre_arrival_reminder' | 'checkout_thank_you';
+
+// Days before check-in / after check-out to message guests (REMINDER_DAYS_BEFORE / REMINDER_DAYS_AFTER)
+const DAYS_BEFORE = parseInt(process.env.REMINDER_DAYS_BEFORE || '2');
+const DAYS_AFTER = parseInt(process.env.REMINDER_DAYS_AFTER || '1');
+// Missed runs are caught up for this many days; older stays are never messaged
+const CATCH_UP_DAYS = 7;
+const TIME_ZONE = 'Asia/Dhaka';
+
+const todayInResortTime = (): string => new Date().toLocaleDateString('en-CA', { timeZone: TIME_ZONE });
+
+/**
+ * Claim the reminder, log the message and send it. Returns 'skipped' when the booking
+ * already had this reminder, which is what keeps the job idempotent.
+ */
+const sendReminder = async (
+  supabase: SupabaseClient,
+  booking: Booking,
+  kind: ReminderKind,
+  body: string
+): Promise<'sent' | 'failed' | 'skipped'> => {
+  const { data: claimed, error: claimError } = await supabase
+    .from('booking_reminders')
+    .upsert([{ booking_id: booking.id, kind }], { onConflict: 'booking_id,kind', ignoreDuplicates: true })
+    .select();
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return 'skipped';
+
+  const { data: message, error: queueError } = await supabase
+    .from('message_log')
+    .insert([{ booking_id: booking.id, channel: 'whatsapp', recipient: booking.guest_phone, body, status: 'queued' }])
+    .select()
+    .single();
+
+  if (queueError) {
+    // Release the claim so the next run tries again
+    await supabase.from('booking_reminders').delete().eq('booking_id', booking.id).eq('kind', kind);
+    throw queueError;
+  }
+
+  await supabase.from('booking_reminders').update({ message_id: message.id }).eq('booking_id', booking.id).eq('kind', kind);
+  const delivered = await deliverLoggedMessage(supabase, message);
+  return delivered.status === 'sent' ? 'sent' : 'failed';
+};
+
+/**
+ * GET /api/cron/send-reminders, run daily by Vercel Cron (see vercel.json).
+ *
+ * Sends the pre-arrival reminder to confirmed bookings checking in within REMINDER_DAYS_BEFORE
+ * days, and the thank-you message to stays that checked out REMINDER_DAYS_AFTER days ago.
+ * Uses the service role key, so it must only be callable with CRON_SECRET.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const supabase = createServiceClient();
+
+  const today = todayInResortTime();
+  const summary = { pre_arrival_reminder: 0, checkout_thank_you: 0, skipped: 0, failed: 0 };
+
+  try {
+    const [arrivals, departures, templatesResult, roomsResult, policiesResult] = await Promise.all([
+      supabase
+        .from('bookings')
+        .select('*, booking_rooms(*)')
+        .eq('status', 'Confirmed')
+        .is('deleted_at', null)
+        .gt('check_in', today)
+        .lte('check_in', addDays(today, DAYS_BEFORE))
+        // Bookings made in the last day just got their confirmation
+        .lt('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()),
+      supabase
+        .from('bookings')
+        .select('*, booking_rooms(*)')
+        .eq('status', 'Checked-out')
+        .is('deleted_at', null)
+        .lte('check_out', addDays(today, -DAYS_AFTER))
+        .gte('check_out', addDays(today, -DAYS_AFTER - CATCH_UP_DAYS)),
+      supabase.from('message_templates').select('*'),
+      supabase.from('rooms').select('*'),
+      supabase.from('refund_policies').select('*'),
+    ]);
+
+    const firstError = [arrivals, departures, templatesResult, roomsResult, policiesResult].find((r) => r.error)?.error;
+    if (firstError) throw firstError;
+
+    const templates: MessageTemplate[] = templatesResult.data || [];
+    const rooms: Room[] = roomsResult.data || [];
+    const policies: RefundPolicy[] = policiesResult.data?.length ? policiesResult.data : DEFAULT_REFUND_POLICIES;
+
+    const due: [ReminderKind, Booking[]][] = [
+      ['pre_arrival_reminder', arrivals.data || []],
+      ['checkout_thank_you', departures.data || []],
+    ];
+
+    for (const [kind, bookings] of due) {
+      const template = getMessageTemplate(templates, kind);
+      for (const booking of bookings) {
+        try {
+          const body = renderTemplate(template.body, buildTemplateValues(booking, rooms, policies));
+          const outcome = await sendReminder(supabase, booking, kind, body);
+          if (outcome === 'sent') summary[kind]++;
+          else if (outcome === 'skipped') summary.skipped++;
+          else summary.failed++;
+        } catch (err) {
+          console.error(`Failed to send ${kind} for booking ${booking.id}:`, err);
+          summary.failed++;
+        }
+      }
+    }
+
+    return res.status(200).json({ date: today, ...summary });
+  } catch (err: any) {
+    console.error('Reminder run failed:', err);
+    return res.status(500).json({ error: err.message || 'Reminder run failed' });
+  }
+}
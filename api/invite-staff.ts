@@ -0,0 +1,55 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorize, createServiceClient } from './_lib/supabase';
+
+const ROLES = ['owner', 'manager', 'front_desk', 'accountant', 'housekeeping'];
+
+/**
+ * POST /api/invite-staff { email, name?, role, redirect_to? }
+ *
+ * Adds the staff row as the signed-in owner (so row-level security still decides), then
+ * sends the Supabase invite email with the service role key. Someone who already has an
+ * account is not invited again; the staff row alone gives them access.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const email = String(req.body?.email || '').trim().toLowerCase();
+  const role = req.body?.role;
+  if (!email.includes('@') || !ROLES.includes(role)) {
+    return res.status(400).json({ error: 'A valid email and role are required' });
+  }
+
+  const supabase = await authorize(req, 'staff.manage');
+  if (!supabase) {
+    return res.status(403).json({ error: 'Only owners can invite staff' });
+  }
+
+  const { error: insertError } = await supabase
+    .from('staff')
+    .insert([{ email, name: req.body?.name || null, role }]);
+
+  if (insertError) {
+    const duplicate = insertError.code === '23505';
+    return res
+      .status(duplicate ? 409 : 500)
+      .json({ error: duplicate ? `${email} is already on the staff list` : insertError.message });
+  }
+
+  const { error: inviteError } = await createServiceClient().auth.admin.inviteUserByEmail(email, {
+    redirectTo: req.body?.redirect_to,
+  });
+
+  if (inviteError) {
+    // Existing accounts sign in with their current password
+    if (/already been registered|already exists/i.test(inviteError.message)) {
+      return res.status(200).json({ invited: false });
+    }
+    console.error(`Invite for ${email} failed:`, inviteError);
+    await supabase.from('staff').delete().eq('email', email);
+    return res.status(502).json({ error: inviteError.message });
+  }
+
+  return res.status(200).json({ invited: true });
+}
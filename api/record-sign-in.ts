@@ -0,0 +1,39 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticate } from './_lib/supabase';
+
+// First address in x-forwarded-for is the client; Vercel always sets it
+const clientIp = (req: VercelRequest): string | null => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const value = Array.isArray(forwarded) ? forwarded[0] : forwarded;
+  return value?.split(',')[0].trim() || (req.headers['x-real-ip'] as string | undefined) || null;
+};
+
+/**
+ * POST /api/record-sign-in
+ *
+ * Adds a login_history row for the signed-in user with the request's IP address and
+ * user agent. Runs as that user, so row-level security only lets them record themselves.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const supabase = await authenticate(req);
+  if (!supabase) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+
+  const { error } = await supabase.from('login_history').insert([
+    {
+      ip_address: clientIp(req),
+      user_agent: req.headers['user-agent'] || null,
+    },
+  ]);
+
+  if (error) {
+    console.error('Failed to record sign-in:', error);
+    return res.status(500).json({ error: error.message });
+  }
+  return res.status(201).json({ recorded: true });
+}
@@ -0,0 +1,44 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { deliverLoggedMessage } from './_lib/messageLog';
+import { authorize } from './_lib/supabase';
+
+/**
+ * POST /api/send-whatsapp { message_id }
+ *
+ * Sends a queued message_log row through the configured provider and records the outcome
+ * on the row. Runs as the signed-in staff user, who must be allowed to manage bookings:
+ * the caller's Supabase access token is used for every database call. A row that is already sent is returned
+ * as-is, so retrying never sends a message twice.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const messageId = req.body?.message_id;
+  if (!messageId) {
+    return res.status(400).json({ error: 'message_id is required' });
+  }
+
+  const supabase = await authorize(req, 'bookings.manage');
+  if (!supabase) {
+    return res.status(403).json({ error: 'Not permitted to message guests' });
+  }
+
+  const { data: message, error: fetchError } = await supabase
+    .from('message_log')
+    .select('*')
+    .eq('id', messageId)
+    .single();
+
+  if (fetchError || !message) {
+    return res.status(404).json({ error: 'Message not found' });
+  }
+
+  try {
+    return res.status(200).json(await deliverLoggedMessage(supabase, message));
+  } catch (err: any) {
+    console.error('Failed to record message status:', err);
+    return res.status(500).json({ error: err.message || 'Failed to record message status' });
+  }
+}
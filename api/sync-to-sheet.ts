@@ -0,0 +1,35 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorize } from './_lib/supabase';
+import { replaySheetOutbox, resyncSheet } from './_lib/sheetSync';
+
+/**
+ * Google Sheet sync. Database triggers queue every change to bookings, booking_rooms and
+ * expenses in sheet_sync_outbox; this function writes the queue to the sheet.
+ *
+ *   POST { action: 'resync' }   - rewrite the whole sheet from the database
+ *   POST (anything else)        - write queued changes that are due; this is what the
+ *                                 outbox Database Webhook and the "Replay" button send
+ *   GET                         - the same, for Vercel Cron
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const supabase = await authorize(req, 'settings.manage');
+  if (!supabase) {
+    return res.status(403).json({ error: 'Not permitted to run the sheet sync' });
+  }
+
+  const action = req.method === 'POST' && req.body?.action === 'resync' ? 'resync' : 'replay';
+
+  try {
+    if (action === 'resync') {
+      return res.status(200).json(await resyncSheet(supabase));
+    }
+    return res.status(200).json(await replaySheetOutbox(supabase));
+  } catch (err: any) {
+    console.error(`Sheet ${action} failed:`, err);
+    return res.status(500).json({ error: err.message || `Sheet ${action} failed` });
+  }
+}
@@ -6,6 +6,13 @@ import Home from './pages/Home';
 import Bookings from './pages/Bookings';
 import Profile from './pages/Profile';
 import Expense from './pages/Expense';
+import Guests from './pages/Guests';
+import Waitlist from './pages/Waitlist';
+import Housekeeping from './pages/Housekeeping';
+import Staff from './pages/Staff';
+import Activity from './pages/Activity';
+import Trash from './pages/Trash';
+import ResetPassword from './pages/ResetPassword';
 import ProtectedRoute from './pages/ProtectedRoute';
 import useAuth from './hooks/useAuth';
 import { Loader } from 'lucide-react';
@@ -27,22 +34,71 @@ const App = () => {
       <main className="flex-grow container mx-auto px-4 py-8 max-w-7xl">
         <Routes>
           <Route path="/" element={<Home />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
           <Route
             path="/bookings"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="bookings.view">
                 <Bookings />
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/waitlist"
+            element={
+              <ProtectedRoute permission="bookings.view">
+                <Waitlist />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/housekeeping"
+            element={
+              <ProtectedRoute permission="housekeeping.manage">
+                <Housekeeping />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/expenses"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="expenses.view">
                 <Expense />
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/guests"
+            element={
+              <ProtectedRoute permission="guests.view">
+                <Guests />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/activity"
+            element={
+              <ProtectedRoute permission="activity.view">
+                <Activity />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/trash"
+            element={
+              <ProtectedRoute>
+                <Trash />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/staff"
+            element={
+              <ProtectedRoute permission="staff.manage">
+                <Staff />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/profile"
             element={
@@ -0,0 +1,41 @@
+import React from 'react';
+import { AuditLogEntry } from '../types';
+import { formatAuditField, formatAuditValue, getAuditChanges } from '../utils/auditUtils';
+
+interface AuditChangesProps {
+  entry: AuditLogEntry;
+}
+
+// Field-by-field before/after table for one audit entry
+const AuditChanges: React.FC<AuditChangesProps> = ({ entry }) => {
+  const changes = getAuditChanges(entry);
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500">No field details recorded</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-500">
+          <th className="text-left font-semibold py-1 pr-2">Field</th>
+          {entry.action !== 'insert' && <th className="text-left font-semibold py-1 pr-2">Before</th>}
+          {entry.action !== 'delete' && <th className="text-left font-semibold py-1">After</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="border-t border-gray-100 align-top">
+            <td className="py-1 pr-2 font-medium text-gray-700 whitespace-nowrap">{formatAuditField(change.field)}</td>
+            {entry.action !== 'insert' && (
+              <td className="py-1 pr-2 text-red-700 break-all">{formatAuditValue(change.from)}</td>
+            )}
+            {entry.action !== 'delete' && <td className="py-1 text-green-700 break-all">{formatAuditValue(change.to)}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default AuditChanges;
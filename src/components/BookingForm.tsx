@@ -1,15 +1,35 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import supabase from '../services/supabaseClient';
-import { Booking, BookingRoom, Room } from '../types';
-import { checkRoomConflict, checkMultiRoomConflict, formatDate } from '../utils/bookingUtils';
-import { calculateVAT, calculateTotalPrice, calculateCheckoutPayable, validatePhoneNumber, formatPhoneNumber, validateEmail, calculateMultiRoomTotal } from '../utils/calculationUtils';
+import { Booking, BookingRoom, BookingStatus, Guest, PaymentMethod, Room, RoomBlock, TaxLine, WaitlistEntry } from '../types';
+import { formatDate, formatDateDisplay, getResortToday } from '../utils/bookingUtils';
+import { buildOccupancyIndex, checkAvailability, describeConflicts, getAvailableRooms, isRoomBlocked, isRoomConflictError } from '../utils/availability';
+import { calculateTotalPrice, calculateCheckoutPayable, validatePhoneNumber, formatPhoneNumber, validateEmail, calculateMultiRoomTotal } from '../utils/calculationUtils';
+import { createBooking, updateBooking, NewBooking, NewBookingRoom } from '../services/bookingService';
+import { findGuestByPhone } from '../services/guestService';
+import { addToWaitlist } from '../services/waitlistService';
+import { fetchRoomBlocks } from '../services/roomBlockService';
 import { generateWhatsAppMessage, sendWhatsAppMessage, copyToClipboard } from '../services/whatsappService';
 import { Loader, MessageCircle, Copy, Plus, Trash2 } from 'lucide-react';
 import RoomSelector from './RoomSelector';
 import { useModal } from '../hooks/useModal';
+import { useRefundPolicies } from '../hooks/useRefundPolicies';
+import { useTaxRates } from '../hooks/useTaxRates';
+import { useMessageTemplates } from '../hooks/useMessageTemplates';
+import { calculateTaxes, describeTaxRates, getEffectiveTaxRates } from '../utils/taxUtils';
+import { PAYMENT_METHODS } from '../utils/paymentUtils';
+import { useRatePlans } from '../hooks/useRatePlans';
+import { getAverageNightlyRate, quoteRoomStay } from '../utils/rateUtils';
+import { DEFAULT_HOLD_HOURS, getDefaultHoldExpiry } from '../utils/bookingStatus';
+import { getHousekeepingStatus, isRoomReady } from '../utils/housekeeping';
 
 interface BookingFormProps {
-  onBookingAdded?: () => void;
+  onBookingAdded?: (booking: Booking) => void;
+  // Edit mode: pre-fill from this Confirmed booking and save changes instead of creating a new one
+  editingBooking?: Booking;
+  onBookingUpdated?: () => void;
+  onCancelEdit?: () => void;
+  // Pre-fill a new booking from this waitlist entry
+  waitlistEntry?: WaitlistEntry;
 }
 
 interface RoomBooking {
@@ -18,90 +38,260 @@ interface RoomBooking {
   check_out_date: string;
   price_per_night: string;
   vat: string;
+  price_overridden?: boolean; // Typed by hand, so rate plan quotes no longer fill it in
 }
 
-const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
-  const [bookingType, setBookingType] = useState<'single' | 'multi'>('single');
+const toRoomBookingRows = (booking: Booking): RoomBooking[] => {
+  return (booking.booking_rooms || []).map((br) => ({
+    room_id: br.room_id,
+    check_in_date: br.check_in_date.slice(0, 10),
+    check_out_date: br.check_out_date.slice(0, 10),
+    price_per_night: String(br.price_per_night),
+    vat: String(br.vat || 0),
+    price_overridden: true,
+  }));
+};
+
+// Form state for an existing booking. The stored vat_amount already includes any manual
+// adjustment, so the adjustment is recovered as the difference from the calculated VAT
+// (taken from the booking's tax snapshot when it has one).
+const toFormData = (booking: Booking) => {
+  const isMulti = !booking.room_id && (booking.booking_rooms || []).length > 0;
+  const serviceChargeApplicable = (booking.service_charge_amount || 0) > 0;
+  const vatLines = (booking.tax_lines || []).filter((l) => l.kind === 'vat');
+  let calculatedVAT: number;
+  if (vatLines.length > 0) {
+    const snapshotVAT = vatLines.reduce((sum, l) => sum + l.amount, 0);
+    calculatedVAT = isMulti || vatLines.some((l) => l.mode === 'inclusive') ? snapshotVAT : Math.ceil(snapshotVAT);
+  } else {
+    calculatedVAT = isMulti
+      ? calculateMultiRoomTotal(toRoomBookingRows(booking), booking.vat_applicable, 0, undefined, serviceChargeApplicable).vat_amount
+      : Math.ceil(
+          calculateTaxes(booking.price, getEffectiveTaxRates([], booking.check_in), {
+            vatApplicable: booking.vat_applicable,
+            serviceChargeApplicable,
+          }).vat_amount
+        );
+  }
+  const vatAdjustment = booking.vat_applicable ? Math.round((booking.vat_amount - calculatedVAT) * 100) / 100 : 0;
+
+  return {
+    guest_name: booking.guest_name,
+    guest_phone: booking.guest_phone,
+    guest_email: booking.guest_email || '',
+    booking_no: booking.booking_no,
+    room_id: booking.room_id || '',
+    check_in: booking.check_in.slice(0, 10),
+    check_out: booking.check_out.slice(0, 10),
+    check_in_time: booking.check_in_time || '14:00',
+    check_out_time: booking.check_out_time || '12:00',
+    // Inclusive taxes were carved out of the entered price; add them back so the field shows what was typed
+    price: String(Math.round((booking.price + (booking.tax_lines || []).filter((l) => l.mode === 'inclusive').reduce((sum, l) => sum + l.amount, 0)) * 100) / 100),
+    advance: String(booking.advance),
+    advance_method: 'Cash' as PaymentMethod,
+    is_hold: false,
+    hold_expires_at: '',
+    vat_applicable: booking.vat_applicable,
+    vat_adjustment: vatAdjustment ? String(vatAdjustment) : '',
+    service_charge_applicable: serviceChargeApplicable,
+    remarks: booking.remarks || '',
+    num_adults: String(booking.num_adults || booking.guest_count || 1),
+  };
+};
+
+const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded, editingBooking, onBookingUpdated, onCancelEdit, waitlistEntry }) => {
+  const isEditing = !!editingBooking;
+  const [bookingType, setBookingType] = useState<'single' | 'multi'>(
+    editingBooking && !editingBooking.room_id && (editingBooking.booking_rooms || []).length > 0 ? 'multi' : 'single'
+  );
   
-  const [formData, setFormData] = useState({
-    guest_name: '',
-    guest_phone: '',
-    guest_email: '',
+  const [formData, setFormData] = useState(() => editingBooking ? toFormData(editingBooking) : {
+    guest_name: waitlistEntry?.guest_name || '',
+    guest_phone: waitlistEntry?.guest_phone || '',
+    guest_email: waitlistEntry?.guest_email || '',
     booking_no: '',
-    room_id: '', // For single room bookings
-    check_in: '',
-    check_out: '',
+    room_id: waitlistEntry?.matched_room_id || waitlistEntry?.room_id || '', // For single room bookings
+    check_in: waitlistEntry?.check_in || '',
+    check_out: waitlistEntry?.check_out || '',
     check_in_time: '14:00',
     check_out_time: '12:00',
     price: '',
     advance: '',
+    advance_method: 'Cash' as PaymentMethod,
+    is_hold: false,
+    hold_expires_at: '',
     vat_applicable: false,
     vat_adjustment: '',
-    remarks: '',
-    num_adults: '1',
+    service_charge_applicable: true,
+    remarks: waitlistEntry?.notes || '',
+    num_adults: String(waitlistEntry?.party_size || 1),
   });
 
-  const [roomBookings, setRoomBookings] = useState<RoomBooking[]>([]);
+  const [roomBookings, setRoomBookings] = useState<RoomBooking[]>(() => editingBooking ? toRoomBookingRows(editingBooking) : []);
 
   const [calculatedValues, setCalculatedValues] = useState({
     vat_amount: 0,
+    service_charge_amount: 0,
+    base_price: 0,
     total_price: 0,
     checkout_payable: 0,
+    tax_lines: [] as TaxLine[],
   });
 
   const [isLoading, setIsLoading] = useState(false);
-  const { showAlert } = useModal();
+  const { showAlert, showConfirm } = useModal();
+  const { policies: refundPolicies } = useRefundPolicies();
+  const { taxRates } = useTaxRates();
+  const { ratePlans } = useRatePlans();
+  const { templates: messageTemplates } = useMessageTemplates();
+  // Saved prices are kept when editing; staff can re-apply the plan price from the breakdown
+  const [priceOverridden, setPriceOverridden] = useState(isEditing);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
+  const [roomBlocks, setRoomBlocks] = useState<RoomBlock[]>([]);
   const [successBooking, setSuccessBooking] = useState<Booking | null>(null);
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
+  const [matchedGuest, setMatchedGuest] = useState<Guest | null>(null);
 
   useEffect(() => {
     fetchBookings();
     fetchRooms();
+    fetchBlocks();
   }, []);
 
+  // Occupancy of active bookings, shared by the room pickers so they agree with the submit-time check
+  const occupancyIndex = useMemo(() => buildOccupancyIndex(bookings, editingBooking?.id), [bookings, editingBooking?.id]);
+
+  // Front desk warning for a guest arriving today (or already due) in a room that still needs housekeeping
+  const getHousekeepingWarning = (roomId: string, checkIn: string): string | null => {
+    const room = rooms.find((r) => r.id === roomId);
+    if (!room || isRoomReady(room) || !checkIn || checkIn > getResortToday()) return null;
+    return `${room.name} is ${getHousekeepingStatus(room)} right now - check with housekeeping before the guest arrives.`;
+  };
+  const singleRoomWarning = getHousekeepingWarning(formData.room_id, formData.check_in);
+
+  // Rates in force on the check-in date drive labels and the single-room calculation
+  const effectiveTaxRates = useMemo(() => getEffectiveTaxRates(taxRates, formData.check_in), [taxRates, formData.check_in]);
+  const hasInclusiveTax = effectiveTaxRates.some((r) => r.mode === 'inclusive');
+  const hasServiceCharge = effectiveTaxRates.some((r) => r.kind === 'service_charge');
+
+  // Rate plan price for the single-room stay
+  const rateQuote = useMemo(
+    () =>
+      bookingType === 'single'
+        ? quoteRoomStay(ratePlans, rooms.find((r) => r.id === formData.room_id), formData.check_in, formData.check_out)
+        : null,
+    [bookingType, ratePlans, rooms, formData.room_id, formData.check_in, formData.check_out]
+  );
+
+  // Pre-fill the price from the plan until staff type their own
+  useEffect(() => {
+    if (rateQuote && !priceOverridden) {
+      setFormData((prev) => ({ ...prev, price: String(rateQuote.total) }));
+    }
+  }, [rateQuote, priceOverridden]);
+
   // Recalculate VAT and totals when price or VAT selection changes (single room)
   useEffect(() => {
     if (bookingType === 'single') {
       const price = parseFloat(formData.price) || 0;
-      const vat = Math.ceil(calculateVAT(price, formData.vat_applicable));
+      const taxes = calculateTaxes(price, effectiveTaxRates, {
+        vatApplicable: formData.vat_applicable,
+        serviceChargeApplicable: formData.service_charge_applicable,
+      });
+      // Exclusive VAT is rounded up to whole taka; inclusive VAT is already part of the entered price
+      const vat = taxes.lines.some((l) => l.kind === 'vat' && l.mode === 'inclusive') ? taxes.vat_amount : Math.ceil(taxes.vat_amount);
       const adjustment = parseFloat(formData.vat_adjustment) || 0;
       const adjustedVAT = vat + adjustment;
-      const total = calculateTotalPrice(price, adjustedVAT);
+      const total = calculateTotalPrice(taxes.base_amount, adjustedVAT + taxes.service_charge_amount);
       const advance = parseFloat(formData.advance) || 0;
       const payable = calculateCheckoutPayable(total, advance);
 
       setCalculatedValues({
         vat_amount: adjustedVAT,
+        service_charge_amount: taxes.service_charge_amount,
+        base_price: taxes.base_amount,
         total_price: total,
         checkout_payable: payable,
+        tax_lines: taxes.lines,
       });
     }
-  }, [formData.price, formData.vat_applicable, formData.vat_adjustment, formData.advance, bookingType]);
+  }, [formData.price, formData.vat_applicable, formData.vat_adjustment, formData.service_charge_applicable, formData.advance, bookingType, effectiveTaxRates]);
 
   // Recalculate for multi-room bookings
   useEffect(() => {
     if (bookingType === 'multi' && roomBookings.length > 0) {
-      const totals = calculateMultiRoomTotal(roomBookings, formData.vat_applicable, parseFloat(formData.vat_adjustment) || 0);
+      const totals = calculateMultiRoomTotal(
+        roomBookings,
+        formData.vat_applicable,
+        parseFloat(formData.vat_adjustment) || 0,
+        taxRates,
+        formData.service_charge_applicable
+      );
       const advance = parseFloat(formData.advance) || 0;
       const payable = calculateCheckoutPayable(totals.total_price, advance);
 
       setCalculatedValues({
         vat_amount: totals.vat_amount,
+        service_charge_amount: totals.service_charge_amount,
+        base_price: totals.base_price,
         total_price: totals.total_price,
         checkout_payable: payable,
+        tax_lines: totals.tax_lines,
       });
     }
-  }, [roomBookings, formData.vat_applicable, formData.vat_adjustment, formData.advance, bookingType]);
+  }, [roomBookings, formData.vat_applicable, formData.vat_adjustment, formData.service_charge_applicable, formData.advance, bookingType, taxRates]);
+
+  // Look up a returning guest once a valid phone number has been typed
+  useEffect(() => {
+    if (!validatePhoneNumber(formData.guest_phone)) {
+      setMatchedGuest(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const guest = await findGuestByPhone(formData.guest_phone);
+        if (cancelled) return;
+        setMatchedGuest(guest);
+        // Fill in blank fields only; never overwrite what staff already typed
+        if (guest && !isEditing) {
+          setFormData((prev) => ({
+            ...prev,
+            guest_name: prev.guest_name || guest.name,
+            guest_email: prev.guest_email || guest.email || '',
+          }));
+        }
+      } catch (err) {
+        console.error('Error looking up guest:', err);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.guest_phone]);
+
+  const applyMatchedGuest = () => {
+    if (!matchedGuest) return;
+    setFormData((prev) => ({
+      ...prev,
+      guest_name: matchedGuest.name,
+      guest_email: matchedGuest.email || '',
+    }));
+  };
 
   const fetchBookings = async () => {
     try {
       const { data, error } = await supabase
         .from('bookings')
         .select('*, booking_rooms(*)')
+        .is('deleted_at', null)
         .neq('status', 'Checked-out')
+        .neq('status', 'No-show')
         .neq('status', 'Cancelled');
 
       if (error) throw error;
@@ -111,6 +301,14 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
     }
   };
 
+  const fetchBlocks = async () => {
+    try {
+      setRoomBlocks(await fetchRoomBlocks(formatDate(new Date())));
+    } catch (err) {
+      console.error('Error fetching room blocks:', err);
+    }
+  };
+
   const fetchRooms = async () => {
     try {
       const { data, error } = await supabase
@@ -133,6 +331,7 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
     } else {
       setFormData((prev) => ({ ...prev, [name]: value }));
     }
+    if (name === 'price') setPriceOverridden(true);
 
     // Clear error for this field
     if (formErrors[name]) {
@@ -144,6 +343,23 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
     }
   };
 
+  // Holds are taken without an advance; it is recorded when the hold is confirmed
+  const handleHoldToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const isHold = e.target.checked;
+    setFormData((prev) => ({
+      ...prev,
+      is_hold: isHold,
+      advance: isHold ? '0' : '',
+      hold_expires_at: isHold ? prev.hold_expires_at || getDefaultHoldExpiry() : prev.hold_expires_at,
+    }));
+    setFormErrors((prev) => {
+      const newErrors = { ...prev };
+      delete newErrors.advance;
+      delete newErrors.hold_expires_at;
+      return newErrors;
+    });
+  };
+
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
 
@@ -163,6 +379,8 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
       if (!formData.check_out) errors.check_out = 'Check-out date is required';
       if (new Date(formData.check_in) >= new Date(formData.check_out)) {
         errors.check_out = 'Check-out must be after check-in';
+      } else if (rateQuote && rateQuote.nights.length < rateQuote.min_stay) {
+        errors.check_out = `Minimum stay is ${rateQuote.min_stay} nights`;
       }
       if (!formData.price) errors.price = 'Price is required';
     } else {
@@ -180,12 +398,22 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
         if (!rb.check_out_date) errors[`check_out_${i}`] = 'Check-out date is required';
         if (rb.check_in_date && rb.check_out_date && new Date(rb.check_in_date) >= new Date(rb.check_out_date)) {
           errors[`check_out_${i}`] = 'Check-out must be after check-in';
+        } else {
+          const quote = quoteRoomStay(ratePlans, rooms.find((r) => r.id === rb.room_id), rb.check_in_date, rb.check_out_date);
+          if (quote && quote.nights.length < quote.min_stay) {
+            errors[`check_out_${i}`] = `Minimum stay is ${quote.min_stay} nights`;
+          }
         }
         if (!rb.price_per_night) errors[`price_${i}`] = 'Price is required';
       }
     }
 
-    if (!formData.advance) errors.advance = 'Advance amount is required';
+    if (formData.is_hold) {
+      if (!formData.hold_expires_at) errors.hold_expires_at = 'Hold expiry is required';
+      else if (new Date(formData.hold_expires_at) <= new Date()) errors.hold_expires_at = 'Hold expiry must be in the future';
+    } else if (!formData.advance) {
+      errors.advance = 'Advance amount is required';
+    }
 
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
@@ -210,10 +438,61 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
 
   const updateRoomBooking = (index: number, field: keyof RoomBooking, value: string) => {
     const updated = [...roomBookings];
-    updated[index] = { ...updated[index], [field]: value };
+    const row = { ...updated[index], [field]: value };
+    if (field === 'price_per_night') {
+      row.price_overridden = true;
+    } else if (!row.price_overridden) {
+      // Lines carry one nightly price, so fill in the plan's average for the line's nights
+      const quote = quoteRoomStay(ratePlans, rooms.find((r) => r.id === row.room_id), row.check_in_date, row.check_out_date);
+      if (quote) row.price_per_night = String(getAverageNightlyRate(quote));
+    }
+    updated[index] = row;
+    setRoomBookings(updated);
+  };
+
+  const applyRoomQuote = (index: number) => {
+    const row = roomBookings[index];
+    const quote = quoteRoomStay(ratePlans, rooms.find((r) => r.id === row.room_id), row.check_in_date, row.check_out_date);
+    if (!quote) return;
+    const updated = [...roomBookings];
+    updated[index] = { ...row, price_per_night: String(getAverageNightlyRate(quote)), price_overridden: false };
     setRoomBookings(updated);
   };
 
+  const saveBooking = (booking: NewBooking, bookingRooms?: NewBookingRoom[]) => {
+    return editingBooking
+      ? updateBooking(editingBooking.id, booking, bookingRooms)
+      : createBooking(booking, bookingRooms);
+  };
+
+  // Rather than lose the guest, offer to waitlist them for the dates they asked for
+  const reportConflict = (message: string, roomId: string | null) => {
+    if (isEditing) {
+      showAlert('Room Conflict', message, 'error');
+      return;
+    }
+
+    showConfirm('Room Conflict', `${message}\n\nAdd ${formData.guest_name} to the waitlist for these dates?`, async () => {
+      try {
+        await addToWaitlist({
+          guest_name: formData.guest_name,
+          guest_phone: formData.guest_phone,
+          guest_email: formData.guest_email || undefined,
+          check_in: formatDate(formData.check_in),
+          check_out: formatDate(formData.check_out),
+          room_id: roomId,
+          room_type: null,
+          party_size: parseInt(formData.num_adults) || 1,
+          notes: formData.remarks || undefined,
+        });
+        showAlert('Added to Waitlist', `${formData.guest_name} will be matched as soon as a room frees up for these dates.`, 'success');
+      } catch (err) {
+        console.error('Waitlist error:', err);
+        showAlert('Error', 'Failed to add to the waitlist: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
+      }
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -234,14 +513,24 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
         return;
       }
 
+      // A hold blocks its rooms without an advance until it expires
+      const status: BookingStatus = formData.is_hold ? 'Tentative' : 'Confirmed';
+      const holdExpiresAt = formData.is_hold ? new Date(formData.hold_expires_at).toISOString() : null;
+      const savedSummary = formData.is_hold
+        ? `Held until: ${new Date(formData.hold_expires_at).toLocaleString()}`
+        : `Advance: ৳${formData.advance}`;
+
       // Refresh bookings before checking conflicts
       const { data: latestBookings, error: fetchError } = await supabase
         .from('bookings')
         .select('*, booking_rooms(*)')
+        .is('deleted_at', null)
         .neq('status', 'Checked-out');
 
       if (fetchError) throw fetchError;
+      const latestBlocks = await fetchRoomBlocks();
 
+      let savedBooking: Booking;
       if (bookingType === 'single') {
         // SINGLE ROOM BOOKING FLOW
         const newBooking = {
@@ -254,49 +543,58 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
           check_out: formatDate(formData.check_out),
           check_in_time: formData.check_in_time,
           check_out_time: formData.check_out_time,
-          price: parseFloat(formData.price),
+          price: calculatedValues.base_price,
           advance: parseFloat(formData.advance),
+          advance_method: formData.advance_method,
           vat_applicable: formData.vat_applicable,
           vat_amount: calculatedValues.vat_amount,
+          service_charge_amount: calculatedValues.service_charge_amount,
+          tax_lines: calculatedValues.tax_lines,
           checkout_payable: calculatedValues.checkout_payable,
           remarks: formData.remarks || undefined,
           num_adults: parseInt(formData.num_adults) || 1,
-          status: 'Confirmed' as const,
+          status,
+          hold_expires_at: holdExpiresAt,
           guest_count: parseInt(formData.num_adults) || 1,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
           revenue: parseFloat(formData.advance),
-          pending_amount: parseFloat(formData.price) - parseFloat(formData.advance),
+          pending_amount: calculatedValues.base_price - parseFloat(formData.advance),
           refund_amount: 0,
+          rate_plan_id: rateQuote?.plan.id || null,
+          // Compared net of inclusive taxes, as price is saved
+          rate_overridden:
+            !!rateQuote &&
+            calculatedValues.base_price !==
+              calculateTaxes(rateQuote.total, effectiveTaxRates, {
+                vatApplicable: formData.vat_applicable,
+                serviceChargeApplicable: formData.service_charge_applicable,
+              }).base_amount,
         };
 
-        const conflictCheck = checkRoomConflict(newBooking, latestBookings || []);
+        const conflictCheck = checkAvailability(
+          buildOccupancyIndex(latestBookings || [], editingBooking?.id),
+          [{ room_id: newBooking.room_id, check_in: newBooking.check_in, check_out: newBooking.check_out }],
+          latestBlocks
+        );
 
-        if (conflictCheck.hasConflict && conflictCheck.conflictingBooking) {
-          const conflicting = conflictCheck.conflictingBooking;
-          showAlert(
-            'Room Conflict',
-            `Room is already booked by ${conflicting.guest_name}\nFrom: ${conflicting.check_in}\nTo: ${conflicting.check_out}`,
-            'error'
+        if (conflictCheck.hasConflict) {
+          reportConflict(
+            `Room is not available during the selected dates:\n${describeConflicts(conflictCheck.conflicts, rooms, conflictCheck.blocked)}`,
+            newBooking.room_id
           );
           setIsLoading(false);
           return;
         }
 
-        // Insert single room booking
-        const { data: insertedData, error } = await supabase
-          .from('bookings')
-          .insert([newBooking])
-          .select();
-
-        if (error) throw error;
-
-        const createdBooking = insertedData?.[0];
-        setSuccessBooking(createdBooking);
+        // Insert (or update) single room booking
+        const createdBooking = await saveBooking(newBooking);
+        savedBooking = createdBooking;
+        if (!isEditing) setSuccessBooking(createdBooking);
 
         showAlert(
-          'Booking Successful',
-          `${formData.guest_name} has been booked successfully!\n\nBooking No: ${formData.booking_no}\nAdvance: ৳${formData.advance}`,
+          isEditing ? 'Booking Updated' : 'Booking Successful',
+          `${formData.guest_name} has been ${isEditing ? 'updated' : 'booked'} successfully!\n\nBooking No: ${formData.booking_no}\n${savedSummary}`,
           'success'
         );
       } else {
@@ -309,19 +607,23 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
         }));
 
         // Check conflicts for all rooms
-        const conflictCheck = checkMultiRoomConflict(roomDateRanges, latestBookings || []);
-
-        if (conflictCheck.hasConflict && conflictCheck.conflictingBooking) {
-          const conflicting = conflictCheck.conflictingBooking;
-          showAlert(
-            'Room Conflict',
-            `One or more rooms are already booked during the selected dates.\nConflicting booking: ${conflicting.booking_no} (${conflicting.guest_name})`,
-            'error'
+        const conflictCheck = checkAvailability(buildOccupancyIndex(latestBookings || [], editingBooking?.id), roomDateRanges, latestBlocks);
+
+        if (conflictCheck.hasConflict) {
+          reportConflict(
+            `One or more rooms are not available during the selected dates:\n${describeConflicts(conflictCheck.conflicts, rooms, conflictCheck.blocked)}`,
+            null
           );
           setIsLoading(false);
           return;
         }
 
+        // Quote each line again so the booking records the plans behind its prices
+        const lineQuotes = roomBookings.map((rb) =>
+          quoteRoomStay(ratePlans, rooms.find((r) => r.id === rb.room_id), rb.check_in_date, rb.check_out_date)
+        );
+        const linePlanIds = Array.from(new Set(lineQuotes.map((q) => q?.plan.id || null)));
+
         // Create multi-room booking
         const newBooking = {
           guest_name: formData.guest_name,
@@ -333,67 +635,58 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
           check_out: formatDate(formData.check_out),
           check_in_time: formData.check_in_time,
           check_out_time: formData.check_out_time,
-          price: calculatedValues.total_price - calculatedValues.vat_amount,
+          price: calculatedValues.base_price,
           advance: parseFloat(formData.advance),
+          advance_method: formData.advance_method,
           vat_applicable: formData.vat_applicable,
           vat_amount: calculatedValues.vat_amount,
+          service_charge_amount: calculatedValues.service_charge_amount,
+          tax_lines: calculatedValues.tax_lines,
           checkout_payable: calculatedValues.checkout_payable,
           remarks: formData.remarks || undefined,
           num_adults: parseInt(formData.num_adults) || 1,
-          status: 'Confirmed' as const,
+          status,
+          hold_expires_at: holdExpiresAt,
           guest_count: parseInt(formData.num_adults) || 1,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
           revenue: parseFloat(formData.advance),
-          pending_amount: calculatedValues.total_price - parseFloat(formData.advance) - calculatedValues.vat_amount,
+          pending_amount: calculatedValues.base_price - parseFloat(formData.advance),
           refund_amount: 0,
           total_rooms: roomBookings.length,
+          rate_plan_id: linePlanIds.length === 1 ? linePlanIds[0] : null,
+          rate_overridden: roomBookings.some(
+            (rb, i) => !!lineQuotes[i] && parseFloat(rb.price_per_night) !== getAverageNightlyRate(lineQuotes[i]!)
+          ),
         };
 
-        // Insert booking and room entries
-        const { data: insertedData, error: bookingError } = await supabase
-          .from('bookings')
-          .insert([newBooking])
-          .select();
-
-        if (bookingError) throw bookingError;
-
-        const createdBooking = insertedData?.[0];
-
-        // Insert booking_rooms entries
-        const bookingRoomEntries = roomBookings.map(rb => ({
-          booking_id: createdBooking.id,
+        // Insert booking and room entries in one transaction (rolled back together on failure)
+        const bookingRoomEntries = roomBookings.map((rb, i) => ({
           room_id: rb.room_id,
           check_in_date: rb.check_in_date,
           check_out_date: rb.check_out_date,
           price_per_night: parseFloat(rb.price_per_night),
           vat: parseFloat(rb.vat) || 0,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
+          rate_plan_id: lineQuotes[i]?.plan.id || null,
         }));
 
-        const { error: roomsError } = await supabase
-          .from('booking_rooms')
-          .insert(bookingRoomEntries);
-
-        if (roomsError) throw roomsError;
-
-        // Fetch booking with rooms for display
-        const { data: fullBooking } = await supabase
-          .from('bookings')
-          .select('*, booking_rooms(*)')
-          .eq('id', createdBooking.id)
-          .single();
-
-        setSuccessBooking(fullBooking);
+        const fullBooking = await saveBooking(newBooking, bookingRoomEntries);
+        savedBooking = fullBooking;
+        if (!isEditing) setSuccessBooking(fullBooking);
 
         showAlert(
-          'Multi-Room Booking Successful',
-          `${formData.guest_name} has been booked successfully!\n\nBooking No: ${formData.booking_no}\nRooms: ${roomBookings.length}\nAdvance: ৳${formData.advance}`,
+          isEditing ? 'Multi-Room Booking Updated' : 'Multi-Room Booking Successful',
+          `${formData.guest_name} has been ${isEditing ? 'updated' : 'booked'} successfully!\n\nBooking No: ${formData.booking_no}\nRooms: ${roomBookings.length}\n${savedSummary}`,
           'success'
         );
       }
 
+      if (isEditing) {
+        setIsLoading(false);
+        onBookingUpdated?.();
+        return;
+      }
+
       // Reset form
       setFormData({
         guest_name: '',
@@ -407,23 +700,40 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
         check_out_time: '12:00',
         price: '',
         advance: '',
+        advance_method: 'Cash',
+        is_hold: false,
+        hold_expires_at: '',
         vat_applicable: false,
         vat_adjustment: '',
+        service_charge_applicable: true,
         remarks: '',
         num_adults: '1',
       });
       setRoomBookings([]);
       setBookingType('single');
+      setMatchedGuest(null);
+      setPriceOverridden(false);
 
       await fetchBookings();
 
       if (onBookingAdded) {
-        onBookingAdded();
+        onBookingAdded(savedBooking);
       }
 
       setIsLoading(false);
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to add booking';
+      if (isRoomConflictError(err)) {
+        // Another booking for the same room was saved between our check and the insert
+        showAlert(
+          'Room Conflict',
+          `${(err as { message: string }).message}\n\nThe room was booked or taken out of service while this form was open. Please choose other dates or rooms.`,
+          'error'
+        );
+        await fetchBookings();
+        setIsLoading(false);
+        return;
+      }
+      const message = err instanceof Error ? err.message : isEditing ? 'Failed to update booking' : 'Failed to add booking';
       showAlert('Booking Error', message, 'error');
       setIsLoading(false);
     }
@@ -435,8 +745,8 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
     setIsLoading(true);
 
     try {
-      const message = generateWhatsAppMessage(successBooking, rooms);
-      const result = await sendWhatsAppMessage(successBooking.guest_phone, message);
+      const message = generateWhatsAppMessage(successBooking, rooms, refundPolicies, messageTemplates);
+      const result = await sendWhatsAppMessage(successBooking, message);
 
       if (result.success) {
         showAlert('WhatsApp', result.message, 'success');
@@ -453,7 +763,7 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
   const handleCopyMessage = () => {
     if (!successBooking) return;
 
-    const message = generateWhatsAppMessage(successBooking, rooms);
+    const message = generateWhatsAppMessage(successBooking, rooms, refundPolicies, messageTemplates);
     if (copyToClipboard(message)) {
       showAlert('Copied', 'Message copied to clipboard!', 'success');
     }
@@ -531,6 +841,17 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
                 placeholder="e.g., +8801XX XXXXXX"
                 required
               />
+              {matchedGuest && (
+                <div className="mt-1 text-xs text-emerald-800 bg-emerald-100 rounded px-2 py-1">
+                  <span className="font-semibold">Returning guest: {matchedGuest.name}</span>
+                  {(matchedGuest.name !== formData.guest_name || (matchedGuest.email || '') !== formData.guest_email) && (
+                    <button type="button" onClick={applyMatchedGuest} className="ml-2 underline hover:text-emerald-900">
+                      Use saved details
+                    </button>
+                  )}
+                  {matchedGuest.notes && <p className="mt-0.5 text-emerald-700">📝 {matchedGuest.notes}</p>}
+                </div>
+              )}
             </div>
 
             <div>
@@ -604,7 +925,12 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
                   setSelectedRoom(room || null);
                 }}
                 disabled={isLoading}
+                occupancy={occupancyIndex}
+                blocks={roomBlocks}
+                checkIn={formData.check_in}
+                checkOut={formData.check_out}
               />
+              {singleRoomWarning && <p className="text-xs text-amber-700 mt-1">⚠️ {singleRoomWarning}</p>}
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
@@ -722,7 +1048,16 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
               </div>
 
               <div className="space-y-3">
-                {roomBookings.map((rb, idx) => (
+                {roomBookings.map((rb, idx) => {
+                  const availableRoomIds = new Set(
+                    rb.check_in_date && rb.check_out_date && rb.check_in_date < rb.check_out_date
+                      ? getAvailableRooms(occupancyIndex, rooms, rb.check_in_date, rb.check_out_date, roomBlocks).map((r) => r.id)
+                      : rooms.map((r) => r.id)
+                  );
+                  const lineQuote = quoteRoomStay(ratePlans, rooms.find((r) => r.id === rb.room_id), rb.check_in_date, rb.check_out_date);
+                  const lineWarning = getHousekeepingWarning(rb.room_id, rb.check_in_date);
+
+                  return (
                   <div key={idx} className="p-3 bg-white border border-blue-300 rounded-lg">
                     <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
                       <div>
@@ -736,11 +1071,15 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
                         >
                           <option value="">Select Room</option>
                           {rooms.map((room) => (
-                            <option key={room.id} value={room.id}>
+                            <option key={room.id} value={room.id} disabled={!availableRoomIds.has(room.id) && room.id !== rb.room_id}>
                               {room.name}
+                              {!availableRoomIds.has(room.id)
+                                ? isRoomBlocked(roomBlocks, room.id, rb.check_in_date, rb.check_out_date) ? ' - Out of service' : ' - Booked'
+                                : ''}
                             </option>
                           ))}
                         </select>
+                        {lineWarning && <p className="text-xs text-amber-700 mt-1">⚠️ {lineWarning}</p>}
                       </div>
 
                       <div>
@@ -792,8 +1131,21 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
                         </button>
                       </div>
                     </div>
+                    {lineQuote && (
+                      <p className="mt-2 text-xs text-gray-600">
+                        {lineQuote.plan.name}: ৳{getAverageNightlyRate(lineQuote).toLocaleString()}/night average over{' '}
+                        {lineQuote.nights.length} night{lineQuote.nights.length !== 1 ? 's' : ''}
+                        {lineQuote.min_stay > 1 && ` • min ${lineQuote.min_stay} nights`}
+                        {parseFloat(rb.price_per_night) !== getAverageNightlyRate(lineQuote) && (
+                          <button type="button" onClick={() => applyRoomQuote(idx)} className="ml-2 text-blue-700 underline hover:text-blue-900">
+                            Use plan rate
+                          </button>
+                        )}
+                      </p>
+                    )}
                   </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           </div>
@@ -808,7 +1160,7 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
               <div>
                 <label className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1 sm:mb-2">
-                  Base Price (৳) * {formErrors.price && <span className="text-red-500 text-xs">{formErrors.price}</span>}
+                  {hasInclusiveTax ? 'Price incl. Tax (৳)' : 'Base Price (৳)'} * {formErrors.price && <span className="text-red-500 text-xs">{formErrors.price}</span>}
                 </label>
                 <input
                   type="number"
@@ -823,25 +1175,113 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
                   required
                 />
               </div>
+
+              {rateQuote && (
+                <div className="sm:col-span-2 bg-white border border-orange-200 rounded-lg p-2 sm:p-3 text-xs sm:text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                    <span className="font-semibold text-orange-900">
+                      {rateQuote.plan.name}: ৳{rateQuote.total.toLocaleString()} for {rateQuote.nights.length} night{rateQuote.nights.length !== 1 ? 's' : ''}
+                      {rateQuote.min_stay > 1 && <span className="font-normal text-gray-600"> • min {rateQuote.min_stay} nights</span>}
+                    </span>
+                    {parseFloat(formData.price) !== rateQuote.total && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setPriceOverridden(false);
+                          setFormData((prev) => ({ ...prev, price: String(rateQuote.total) }));
+                        }}
+                        className="text-orange-700 underline hover:text-orange-900"
+                      >
+                        Use plan price
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {rateQuote.nights.map((night) => (
+                      <span
+                        key={night.date}
+                        className={`px-2 py-0.5 rounded ${night.season_name ? 'bg-amber-100 text-amber-900' : 'bg-gray-100 text-gray-700'}`}
+                        title={[night.season_name, night.is_weekend ? 'Weekend' : ''].filter(Boolean).join(' • ')}
+                      >
+                        {formatDateDisplay(night.date)}: ৳{night.rate.toLocaleString()}
+                        {night.is_weekend && ' ★'}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {!isEditing && (
+            <div>
+              <label className="flex items-center gap-2 sm:gap-3 p-2 sm:p-3 border-2 border-orange-300 rounded-lg hover:bg-orange-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  name="is_hold"
+                  checked={formData.is_hold}
+                  onChange={handleHoldToggle}
+                  className="w-4 h-4 sm:w-5 sm:h-5 cursor-pointer"
+                />
+                <span className="font-semibold text-xs sm:text-base text-gray-700">Hold only (advance not received yet)</span>
+              </label>
+              {formData.is_hold && (
+                <div className="mt-2">
+                  <label className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1">
+                    Hold Expires * {formErrors.hold_expires_at && <span className="text-red-500 text-xs">{formErrors.hold_expires_at}</span>}
+                  </label>
+                  <input
+                    type="datetime-local"
+                    name="hold_expires_at"
+                    value={formData.hold_expires_at}
+                    onChange={handleChange}
+                    className={`w-full px-2 sm:px-4 py-2 sm:py-3 border-2 rounded-lg focus:outline-none focus:ring-4 transition-all text-sm ${
+                      formErrors.hold_expires_at ? 'border-red-500 focus:border-red-500 focus:ring-red-200' : 'border-gray-300 focus:border-orange-500 focus:ring-orange-200'
+                    }`}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    The rooms are released automatically when the hold expires (default {DEFAULT_HOLD_HOURS} hours).
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
           <div>
             <label className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1 sm:mb-2">
-              Advance (৳) * {formErrors.advance && <span className="text-red-500 text-xs">{formErrors.advance}</span>}
+              {isEditing ? 'Paid So Far (৳)' : 'Advance (৳) *'} {formErrors.advance && <span className="text-red-500 text-xs">{formErrors.advance}</span>}
             </label>
-            <input
-              type="number"
-              name="advance"
-              value={formData.advance}
-              onChange={handleChange}
-              className={`w-full px-2 sm:px-4 py-2 sm:py-3 border-2 rounded-lg focus:outline-none focus:ring-4 transition-all text-sm ${
-                formErrors.advance ? 'border-red-500 focus:border-red-500 focus:ring-red-200' : 'border-gray-300 focus:border-orange-500 focus:ring-orange-200'
-              }`}
-              placeholder="e.g., 2000"
-              step="0.01"
-              required
-            />
+            <div className="flex gap-2">
+              <input
+                type="number"
+                name="advance"
+                value={formData.advance}
+                onChange={handleChange}
+                disabled={isEditing || formData.is_hold}
+                className={`flex-1 min-w-0 px-2 sm:px-4 py-2 sm:py-3 border-2 rounded-lg focus:outline-none focus:ring-4 transition-all text-sm disabled:bg-gray-100 ${
+                  formErrors.advance ? 'border-red-500 focus:border-red-500 focus:ring-red-200' : 'border-gray-300 focus:border-orange-500 focus:ring-orange-200'
+                }`}
+                placeholder="e.g., 2000"
+                step="0.01"
+                required
+              />
+              {!isEditing && !formData.is_hold && (
+                <select
+                  name="advance_method"
+                  value={formData.advance_method}
+                  onChange={handleChange}
+                  className="px-2 py-2 sm:py-3 border-2 border-gray-300 rounded-lg focus:outline-none focus:border-orange-500 text-sm"
+                  title="Payment method"
+                >
+                  {PAYMENT_METHODS.map((method) => (
+                    <option key={method} value={method}>{method}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {isEditing && (
+              <p className="text-xs text-gray-500 mt-1">Record further payments from the booking's payment history.</p>
+            )}
           </div>
 
           <div>
@@ -853,10 +1293,25 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
                 onChange={handleChange}
                 className="w-4 h-4 sm:w-5 sm:h-5 cursor-pointer"
               />
-              <span className="font-semibold text-xs sm:text-base text-gray-700">Apply VAT (2.5%)?</span>
+              <span className="font-semibold text-xs sm:text-base text-gray-700">Apply {describeTaxRates(effectiveTaxRates, 'vat') || 'VAT'}?</span>
             </label>
           </div>
 
+          {hasServiceCharge && (
+            <div>
+              <label className="flex items-center gap-2 sm:gap-3 p-2 sm:p-3 border-2 border-orange-300 rounded-lg hover:bg-orange-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  name="service_charge_applicable"
+                  checked={formData.service_charge_applicable}
+                  onChange={handleChange}
+                  className="w-4 h-4 sm:w-5 sm:h-5 cursor-pointer"
+                />
+                <span className="font-semibold text-xs sm:text-base text-gray-700">Apply {describeTaxRates(effectiveTaxRates, 'service_charge')}?</span>
+              </label>
+            </div>
+          )}
+
           {formData.vat_applicable && (
             <div>
               <label className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1 sm:mb-2">
@@ -876,11 +1331,17 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
           )}
 
           {/* Display calculated values */}
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4 bg-white p-2 sm:p-4 rounded-lg border border-orange-200">
+          <div className={`grid grid-cols-1 ${calculatedValues.service_charge_amount > 0 ? 'sm:grid-cols-4' : 'sm:grid-cols-3'} gap-2 sm:gap-4 bg-white p-2 sm:p-4 rounded-lg border border-orange-200`}>
             <div>
               <p className="text-xs text-gray-600 font-semibold">VAT Amount</p>
               <p className="text-base sm:text-lg font-bold text-orange-600">৳ {calculatedValues.vat_amount.toFixed(2)}</p>
             </div>
+            {calculatedValues.service_charge_amount > 0 && (
+              <div>
+                <p className="text-xs text-gray-600 font-semibold">Service Charge</p>
+                <p className="text-base sm:text-lg font-bold text-orange-600">৳ {calculatedValues.service_charge_amount.toFixed(2)}</p>
+              </div>
+            )}
             <div>
               <p className="text-xs text-gray-600 font-semibold">Total Price</p>
               <p className="text-base sm:text-lg font-bold text-orange-600">৳ {calculatedValues.total_price.toFixed(2)}</p>
@@ -921,10 +1382,21 @@ const BookingForm: React.FC<BookingFormProps> = ({ onBookingAdded }) => {
               Processing...
             </>
           ) : (
-            'Add Booking'
+            isEditing ? 'Save Changes' : 'Add Booking'
           )}
         </button>
 
+        {isEditing && onCancelEdit && (
+          <button
+            type="button"
+            onClick={onCancelEdit}
+            disabled={isLoading}
+            className="w-full bg-gray-300 hover:bg-gray-400 disabled:opacity-50 text-gray-800 font-bold py-2 sm:py-3 rounded-lg transition-all text-sm sm:text-base"
+          >
+            Cancel
+          </button>
+        )}
+
         {/* WhatsApp Actions (show after successful booking) */}
         {successBooking && (
           <div className="space-y-2">
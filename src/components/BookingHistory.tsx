@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { AuditLogEntry, Booking } from '../types';
+import { AlertCircle, Loader } from 'lucide-react';
+import { fetchBookingHistory } from '../services/auditService';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from '../utils/auditUtils';
+import AuditChanges from './AuditChanges';
+
+interface BookingHistoryProps {
+  booking: Booking;
+  onClose: () => void;
+}
+
+const actionBadge = (action: AuditLogEntry['action']) =>
+  action === 'insert' ? 'bg-green-100 text-green-800' :
+  action === 'delete' ? 'bg-red-100 text-red-800' :
+  'bg-blue-100 text-blue-800';
+
+const BookingHistory: React.FC<BookingHistoryProps> = ({ booking, onClose }) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setEntries(await fetchBookingHistory(booking.id));
+      } catch (err) {
+        console.error('Error fetching booking history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadHistory();
+  }, [booking.id]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="bg-gradient-to-r from-slate-600 to-slate-700 px-6 py-4 rounded-t-lg">
+          <h2 className="text-xl font-bold text-white">History - {booking.booking_no}</h2>
+          <p className="text-sm text-slate-100">
+            {booking.guest_name} • {booking.guest_phone}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-800">
+              <AlertCircle size={16} />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center items-center p-4">
+              <Loader size={24} className="animate-spin text-slate-600" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No recorded changes yet</p>
+          ) : (
+            <ul className="space-y-3">
+              {entries.map((entry) => (
+                <li key={entry.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-bold ${actionBadge(entry.action)}`}>
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </span>
+                      <span className="text-sm font-semibold text-gray-800">{AUDIT_ENTITY_LABELS[entry.entity]}</span>
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {new Date(entry.occurred_at).toLocaleString()} • {entry.actor_email}
+                    </span>
+                  </div>
+                  <AuditChanges entry={entry} />
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end">
+            <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-lg font-medium">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingHistory;
@@ -1,12 +1,32 @@
 ﻿import React, { useEffect, useState } from 'react';
 import supabase from '../services/supabaseClient';
-import { Booking, DateRangeType } from '../types';
+import { Booking, BookingRoom, BookingStatus, DateRangeType, PaymentMethod } from '../types';
 import { formatDateDisplay } from '../utils/bookingUtils';
-import { calculateRefund } from '../utils/calculationUtils';
+import { calculateRefund, describeRefundTier, getRefundTiers } from '../utils/calculationUtils';
 import { generateInvoicePDF } from '../utils/invoiceGenerator';
-import { Trash2, Loader, Calendar, ChevronLeft, ChevronRight, Download, FileText } from 'lucide-react';
+import { Trash2, Loader, Calendar, ChevronLeft, ChevronRight, Download, FileText, Edit2, Wallet, MessageCircle, History, CheckCircle, LogIn, UserX } from 'lucide-react';
 import { useModal } from '../hooks/useModal';
+import useAuth from '../hooks/useAuth';
+import { useRefundPolicies } from '../hooks/useRefundPolicies';
+import { getTaxLabel } from '../utils/taxUtils';
+import { PAYMENT_METHODS, getBalanceDue } from '../utils/paymentUtils';
+import {
+  cancelBooking,
+  checkInBooking,
+  checkoutBooking as checkoutBookingRpc,
+  confirmBooking,
+  markNoShow,
+  softDeleteBooking,
+} from '../services/bookingService';
+import { BOOKING_STATUSES, getAllowedTransitions, getStatusBadgeClass, isExpiredHold } from '../utils/bookingStatus';
+import { getBookingStays } from '../utils/availability';
+import { describeUnreadyRooms } from '../utils/housekeeping';
+import { fetchRoomsByIds } from '../services/housekeepingService';
 import Modal from './Modal';
+import BookingForm from './BookingForm';
+import PaymentHistory from './PaymentHistory';
+import MessageLog from './MessageLog';
+import BookingHistory from './BookingHistory';
 
 interface BookingWithRoom extends Booking {
   room_name?: string;
@@ -18,11 +38,12 @@ interface BookingListProps {
 }
 
 const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete }) => {
+  const { can } = useAuth();
   const [allBookings, setAllBookings] = useState<BookingWithRoom[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'All' | 'Confirmed' | 'Checked-out' | 'Cancelled' | 'Paid'>('All');
+  const [statusFilter, setStatusFilter] = useState<'All' | BookingStatus>('All');
   const [dateRange, setDateRange] = useState<DateRangeType>('month');
   const [customStartDate, setCustomStartDate] = useState('');
   const [customEndDate, setCustomEndDate] = useState('');
@@ -30,10 +51,23 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
   const [itemsPerPage] = useState(10);
   const [refundPolicyBooking, setRefundPolicyBooking] = useState<Booking | null>(null);
   const [customRefundAmount, setCustomRefundAmount] = useState('');
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('Cash');
+  const [confirmingBooking, setConfirmingBooking] = useState<Booking | null>(null);
+  const [holdAdvance, setHoldAdvance] = useState('');
+  const [holdMethod, setHoldMethod] = useState<PaymentMethod>('Cash');
+  const [holdReference, setHoldReference] = useState('');
   const [checkoutBooking, setCheckoutBooking] = useState<Booking | null>(null);
   const [extraIncome, setExtraIncome] = useState('0');
   const [discount, setDiscount] = useState('0');
+  const [checkoutMethod, setCheckoutMethod] = useState<PaymentMethod>('Cash');
+  const [checkoutReference, setCheckoutReference] = useState('');
+  const [paymentsBooking, setPaymentsBooking] = useState<BookingWithRoom | null>(null);
+  const [messagesBooking, setMessagesBooking] = useState<BookingWithRoom | null>(null);
+  const [historyBooking, setHistoryBooking] = useState<BookingWithRoom | null>(null);
+  const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
   const { modal, showAlert, showConfirm, handleOk, handleCancel } = useModal();
+  const { policies: refundPolicies } = useRefundPolicies();
+  const refundTiers = getRefundTiers(refundPolicies);
 
   useEffect(() => {
     fetchBookings();
@@ -71,7 +105,8 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
       // Fetch bookings with room names and booking_rooms data for multi-room bookings
       const { data: bookingsData, error: bookingsError } = await supabase
         .from('bookings')
-        .select('*, booking_rooms(*)')
+        .select('*, booking_rooms(*), payments(*)')
+        .is('deleted_at', null)
         .gte('check_in', startDate.toISOString().split('T')[0])
         .lte('check_in', endDate.toISOString().split('T')[0])
         .order('check_in', { ascending: true });
@@ -83,6 +118,7 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
       
       for (const booking of (bookingsData || [])) {
         let room_name = 'Multi-Room Booking';
+        let booking_rooms = booking.booking_rooms;
         
         // If single-room booking (has room_id), fetch room name
         if (booking.room_id) {
@@ -102,11 +138,17 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
           
           if (roomsData && roomsData.length > 0) {
             room_name = roomsData.map(r => r.name).join(', ');
+            // Each room line is named on its own, e.g. on the itemized invoice
+            booking_rooms = booking.booking_rooms.map((br: BookingRoom) => ({
+              ...br,
+              room_name: roomsData.find(r => r.id === br.room_id)?.name,
+            }));
           }
         }
         
         processedBookings.push({
           ...booking,
+          booking_rooms,
           room_name,
         });
       }
@@ -125,16 +167,11 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
   const handleDelete = async (id: string) => {
     showConfirm(
       'Delete Booking',
-      'Are you sure you want to delete this booking? This action cannot be undone.',
+      'Move this booking to the Trash? Its rooms are freed, and it can be restored from the Trash.',
       async () => {
         try {
-          // Delete booking_rooms entries first (if any)
-          await supabase.from('booking_rooms').delete().eq('booking_id', id);
-          
-          // Then delete the booking itself
-          const { error } = await supabase.from('bookings').delete().eq('id', id);
-          if (error) throw error;
-          showAlert('Success', 'Booking deleted successfully', 'success', () => {
+          await softDeleteBooking(id);
+          showAlert('Success', 'Booking moved to the Trash', 'success', () => {
             fetchBookings();
             onActionComplete?.();
           });
@@ -149,6 +186,7 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
   const handleCancelBooking = async (booking: Booking) => {
     setRefundPolicyBooking(booking);
     setCustomRefundAmount('');
+    setRefundMethod('Cash');
   };
 
   const processRefund = async (refundType: 'policy' | 'custom') => {
@@ -159,7 +197,7 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
       let refundPolicy = '';
 
       if (refundType === 'policy') {
-        const result = calculateRefund(refundPolicyBooking.price, refundPolicyBooking.check_in, refundPolicyBooking.advance);
+        const result = calculateRefund(refundPolicyBooking.price, refundPolicyBooking.check_in, refundPolicyBooking.advance, undefined, refundPolicies);
         refundAmount = result.refundAmount;
         refundPolicy = result.policy;
       } else {
@@ -167,28 +205,15 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
         refundPolicy = 'Custom refund - Based on negotiation';
       }
 
-      // Calculate new values
-      const newPendingAmount = 0; // No pending payment for cancelled bookings
+      // Revenue is whatever the guest has paid, less the refund
       const newRevenue = refundPolicyBooking.advance - refundAmount;
-      const advanceCollected = refundPolicyBooking.advance - refundAmount;
 
-      // When cancelling, checkout_payable becomes 0 (no checkout will happen)
-      // The refund_amount tracks what we owe back to the guest
-      const { error } = await supabase
-        .from('bookings')
-        .update({
-          status: 'Cancelled',
-          refund_amount: refundAmount,
-          checkout_payable: 0,
-          pending_amount: newPendingAmount,
-          revenue: newRevenue,
-          advance: advanceCollected,
-          vat_amount: 0,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', refundPolicyBooking.id);
-
-      if (error) throw error;
+      // The refund is recorded in the payments ledger; the booking's totals are derived from it
+      await cancelBooking(refundPolicyBooking.id, {
+        refund_amount: refundAmount,
+        method: refundMethod,
+        notes: refundPolicy,
+      });
 
       showAlert(
         'Booking Cancelled',
@@ -203,14 +228,100 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
       );
     } catch (err) {
       console.error(err);
-      showAlert('Error', 'Failed to process refund', 'error');
+      showAlert('Error', 'Failed to process refund: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
+    }
+  };
+
+  const handleConfirm = (booking: Booking) => {
+    setConfirmingBooking(booking);
+    setHoldAdvance('');
+    setHoldMethod('Cash');
+    setHoldReference('');
+  };
+
+  // Converting a hold records the advance the guest has now sent
+  const confirmHold = async () => {
+    if (!confirmingBooking) return;
+
+    const advance = parseFloat(holdAdvance) || 0;
+    if (advance <= 0) {
+      showAlert('Advance Required', 'Enter the advance received to confirm this hold', 'error');
+      return;
+    }
+
+    try {
+      await confirmBooking(confirmingBooking.id, { amount: advance, method: holdMethod, reference: holdReference });
+      showAlert('Booking Confirmed', `${confirmingBooking.guest_name}'s hold is now confirmed\n\nAdvance: ৳${advance.toLocaleString()}`, 'success', () => {
+        setConfirmingBooking(null);
+        fetchBookings();
+        onActionComplete?.();
+      });
+    } catch (err) {
+      console.error('Confirm error:', err);
+      showAlert('Error', 'Failed to confirm booking: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
     }
   };
 
+  // Warns the front desk when a room is still Dirty or out of service
+  const handleCheckIn = async (booking: BookingWithRoom) => {
+    let unready = '';
+    try {
+      const roomIds = getBookingStays(booking).map((stay) => stay.room_id);
+      unready = describeUnreadyRooms(await fetchRoomsByIds(Array.from(new Set(roomIds))));
+    } catch (err) {
+      console.error('Error fetching housekeeping status:', err);
+    }
+
+    const question = `Check in ${booking.guest_name} (${booking.room_name || booking.booking_no})?`;
+    const message = unready ? `Not ready yet:\n${unready}\n\n${question}` : question;
+
+    showConfirm(unready ? 'Room Not Ready' : 'Check In', message, async () => {
+      try {
+        await checkInBooking(booking.id);
+        showAlert('Success', `${booking.guest_name} is checked in`, 'success', () => {
+          fetchBookings();
+          onActionComplete?.();
+        });
+      } catch (err) {
+        console.error('Check-in error:', err);
+        showAlert('Error', 'Failed to check in: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
+      }
+    });
+  };
+
+  // A no-show is charged like a cancellation on the check-in date, so the refund policy decides what is kept
+  const handleNoShow = (booking: Booking) => {
+    const { refundAmount, policy } = calculateRefund(booking.price, booking.check_in, booking.advance, undefined, refundPolicies);
+    const retained = booking.advance - refundAmount;
+
+    showConfirm(
+      'Mark as No-show',
+      `${booking.guest_name} did not arrive. Their rooms will be freed.\n\nPolicy: ${policy}\nRefund: ৳${refundAmount.toFixed(2)}\nNo-show charge (kept): ৳${retained.toFixed(2)}`,
+      async () => {
+        try {
+          await markNoShow(booking.id, {
+            refund_amount: refundAmount,
+            method: 'Cash',
+            notes: `No-show - ${policy}`,
+          });
+          showAlert('Success', 'Booking marked as a no-show', 'success', () => {
+            fetchBookings();
+            onActionComplete?.();
+          });
+        } catch (err) {
+          console.error('No-show error:', err);
+          showAlert('Error', 'Failed to mark as a no-show: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
+        }
+      }
+    );
+  };
+
   const handleCheckout = async (booking: Booking) => {
     setCheckoutBooking(booking);
     setExtraIncome('0');
     setDiscount('0');
+    setCheckoutMethod('Cash');
+    setCheckoutReference('');
   };
 
   const confirmCheckout = async () => {
@@ -220,30 +331,18 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
       const extraIncomeAmount = parseFloat(extraIncome) || 0;
       const discountAmount = parseFloat(discount) || 0;
 
-      // Calculate new values
-      const totalPrice = checkoutBooking.price + checkoutBooking.vat_amount;
-      const finalCheckoutPayable = (totalPrice - checkoutBooking.advance + extraIncomeAmount - discountAmount);
-      const newRevenue = checkoutBooking.revenue + finalCheckoutPayable;
-
-      const { error } = await supabase
-        .from('bookings')
-        .update({
-          status: 'Checked-out',
-          advance: checkoutBooking.price,
-          checkout_payable: 0,
-          pending_amount: 0,
-          extra_income: extraIncomeAmount,
-          discount: discountAmount,
-          revenue: newRevenue,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', checkoutBooking.id);
-
-      if (error) throw error;
+      // The remaining balance is recorded as the final payment in the ledger
+      const finalCheckoutPayable = await checkoutBookingRpc(checkoutBooking.id, {
+        extra_income: extraIncomeAmount,
+        discount: discountAmount,
+        method: checkoutMethod,
+        reference: checkoutReference,
+      });
+      const newRevenue = checkoutBooking.advance + finalCheckoutPayable;
 
       showAlert(
         'Checkout Successful',
-        `Payment Received: ৳${finalCheckoutPayable.toLocaleString()}\n\nExtra Income: ৳${extraIncomeAmount.toLocaleString()}\nDiscount: ৳${discountAmount.toLocaleString()}\n\nTotal Revenue: ৳${newRevenue.toFixed(2)}`,
+        `Payment Received: ৳${finalCheckoutPayable.toLocaleString()}\n\nExtra Income: ৳${extraIncomeAmount.toLocaleString()}\nDiscount: ৳${discountAmount.toLocaleString()}\n\nTotal Revenue: ৳${newRevenue.toFixed(2)}\n\nIts rooms are now marked Dirty for housekeeping.`,
         'success',
         () => {
           setCheckoutBooking(null);
@@ -257,9 +356,15 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
     }
   };
 
+  const handleBookingUpdated = () => {
+    setEditingBooking(null);
+    fetchBookings();
+    onActionComplete?.();
+  };
+
   const handleDownloadInvoice = (booking: BookingWithRoom) => {
     try {
-      generateInvoicePDF(booking, booking.room_name);
+      generateInvoicePDF(booking, booking.room_name, refundPolicies);
     } catch (err) {
       showAlert('Error', 'Failed to generate invoice: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
     }
@@ -284,7 +389,7 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
     }
 
     // Define CSV headers
-    const headers = ['Booking #', 'Guest Name', 'Phone', 'Email', 'Room', 'Check-in', 'Check-out', 'Remarks', 'Price', 'VAT',  'Payable', 'Extra Income', 'Discount', 'Status', 'Created Date'];
+    const headers = ['Booking #', 'Guest Name', 'Phone', 'Email', 'Room', 'Check-in', 'Check-out', 'Remarks', 'Price', 'VAT', 'Service Charge', 'Payable', 'Extra Income', 'Discount', 'Status', 'Created Date'];
 
     // Map booking data to CSV rows
     const rows = filteredBookings.map((booking) => [
@@ -298,6 +403,7 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
       booking.remarks || '',
       booking.price.toLocaleString(),
       booking.vat_amount.toLocaleString(),
+      (booking.service_charge_amount || 0).toLocaleString(),
       booking.checkout_payable.toLocaleString(),
       booking.extra_income.toLocaleString(),
       booking.discount.toLocaleString(),
@@ -444,10 +550,9 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
             className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
           >
             <option value="All">All Status</option>
-            <option value="Confirmed">Confirmed</option>
-            <option value="Paid">Paid</option>
-            <option value="Checked-out">Checked-out</option>
-            <option value="Cancelled">Cancelled</option>
+            {BOOKING_STATUSES.map((status) => (
+              <option key={status} value={status}>{status}</option>
+            ))}
           </select>
         </div>
       </div>
@@ -460,10 +565,40 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
             
             <div className="space-y-4 mb-6">
               <div>
-                <p className="text-sm font-semibold text-gray-600">Advance Paid: ৳{refundPolicyBooking.advance}</p>
+                <p className="text-sm font-semibold text-gray-600">Paid So Far: ৳{refundPolicyBooking.advance}</p>
                 <p className="text-xs text-gray-500 mt-1">Check-in: {formatDateDisplay(refundPolicyBooking.check_in)}</p>
               </div>
 
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <p className="text-xs font-semibold text-blue-900 mb-1">Cancellation Policy</p>
+                <ul className="text-xs text-blue-800 space-y-0.5">
+                  {refundTiers.map((tier, idx) => (
+                    <li key={tier.id}>{describeRefundTier(refundTiers, idx)}</li>
+                  ))}
+                </ul>
+                {(() => {
+                  const preview = calculateRefund(refundPolicyBooking.price, refundPolicyBooking.check_in, refundPolicyBooking.advance, undefined, refundPolicies);
+                  return (
+                    <p className="text-xs font-semibold text-blue-900 mt-2">
+                      Applies now: {preview.policy} (৳{preview.refundAmount.toFixed(2)})
+                    </p>
+                  );
+                })()}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Refund Method</label>
+                <select
+                  value={refundMethod}
+                  onChange={(e) => setRefundMethod(e.target.value as PaymentMethod)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+                >
+                  {PAYMENT_METHODS.map((method) => (
+                    <option key={method} value={method}>{method}</option>
+                  ))}
+                </select>
+              </div>
+
               <div className="border-t pt-4">
                 <label className="block text-sm font-semibold text-gray-700 mb-2">Refund Option</label>
                 <div className="space-y-2">
@@ -532,63 +667,94 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
                   </td>
                 </tr>
               ) : (
-                paginatedBookings.map((booking, index) => (
-                  <tr key={booking.id} className={`border-b border-gray-200 hover:bg-emerald-50 transition ${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}`}>
-                    <td className="px-2 sm:px-3 py-3 font-mono text-xs text-gray-600 min-w-max">{booking.booking_no}</td>
-                    <td className="px-2 sm:px-3 py-3 font-semibold text-gray-900 min-w-max">{booking.guest_name}</td>
-                    <td className="px-2 sm:px-3 py-3 text-xs text-gray-600 min-w-max">{booking.guest_phone}</td>
-                    <td className="px-2 sm:px-3 py-3 min-w-max">
-                      <span className="bg-emerald-100 text-emerald-800 px-2 py-1 rounded text-xs font-bold whitespace-nowrap">
-                        {booking.room_name}
-                      </span>
-                    </td>
-                    <td className="px-2 sm:px-3 py-3 text-center text-xs text-gray-700 min-w-max">{formatDateDisplay(booking.check_in)}</td>
-                    <td className="px-2 sm:px-3 py-3 text-center text-xs text-gray-700 min-w-max">{formatDateDisplay(booking.check_out)}</td>
-                    {/* Remarks */}
-                    <td className="px-2 sm:px-3 py-3 text-center text-xs text-gray-700 min-w-max max-w-xs truncate" title={booking.remarks}>{booking.remarks || '-'}</td>
-                    <td className="px-2 sm:px-3 py-3 text-right font-semibold text-gray-900 min-w-max">৳{booking.price.toLocaleString()}</td>
-                    {/* VAT */}
-                    <td className="px-2 sm:px-3 py-3 text-right font-semibold text-gray-900 min-w-max">৳{booking.vat_amount.toLocaleString()}</td>
-                    <td className="px-2 sm:px-3 py-3 text-right font-semibold text-emerald-600 min-w-max">৳{booking.extra_income.toLocaleString()}</td>
-                    <td className="px-2 sm:px-3 py-3 text-right font-semibold text-red-600 min-w-max">৳{booking.discount.toLocaleString()}</td>
-                    <td className="px-2 sm:px-3 py-3 text-right font-semibold text-emerald-600 min-w-max">৳{booking.checkout_payable.toLocaleString()}</td>
-                    <td className="px-2 sm:px-3 py-3 text-center min-w-max">
-                      <span className={`px-2 py-1 rounded text-xs font-bold whitespace-nowrap ${
-                        booking.status === 'Confirmed' ? 'bg-blue-100 text-blue-800' :
-                        booking.status === 'Paid' ? 'bg-green-100 text-green-800' :
-                        booking.status === 'Checked-out' ? 'bg-purple-100 text-purple-800' :
-                        'bg-red-100 text-red-800'
-                      }`}>
-                        {booking.status}
-                      </span>
-                    </td>
-                    <td className="px-2 sm:px-3 py-3 text-center min-w-max">
-                      <div className="space-x-1 flex justify-center flex-wrap">
-                        {booking.status === 'Confirmed' && (
-                          <>
+                paginatedBookings.map((booking, index) => {
+                  const transitions = can('bookings.manage') ? getAllowedTransitions(booking) : [];
+                  return (
+                    <tr key={booking.id} className={`border-b border-gray-200 hover:bg-emerald-50 transition ${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}`}>
+                      <td className="px-2 sm:px-3 py-3 font-mono text-xs text-gray-600 min-w-max">{booking.booking_no}</td>
+                      <td className="px-2 sm:px-3 py-3 font-semibold text-gray-900 min-w-max">{booking.guest_name}</td>
+                      <td className="px-2 sm:px-3 py-3 text-xs text-gray-600 min-w-max">{booking.guest_phone}</td>
+                      <td className="px-2 sm:px-3 py-3 min-w-max">
+                        <span className="bg-emerald-100 text-emerald-800 px-2 py-1 rounded text-xs font-bold whitespace-nowrap">
+                          {booking.room_name}
+                        </span>
+                      </td>
+                      <td className="px-2 sm:px-3 py-3 text-center text-xs text-gray-700 min-w-max">{formatDateDisplay(booking.check_in)}</td>
+                      <td className="px-2 sm:px-3 py-3 text-center text-xs text-gray-700 min-w-max">{formatDateDisplay(booking.check_out)}</td>
+                      {/* Remarks */}
+                      <td className="px-2 sm:px-3 py-3 text-center text-xs text-gray-700 min-w-max max-w-xs truncate" title={booking.remarks}>{booking.remarks || '-'}</td>
+                      <td className="px-2 sm:px-3 py-3 text-right font-semibold text-gray-900 min-w-max">৳{booking.price.toLocaleString()}</td>
+                      {/* VAT */}
+                      <td className="px-2 sm:px-3 py-3 text-right font-semibold text-gray-900 min-w-max">৳{booking.vat_amount.toLocaleString()}</td>
+                      <td className="px-2 sm:px-3 py-3 text-right font-semibold text-emerald-600 min-w-max">৳{booking.extra_income.toLocaleString()}</td>
+                      <td className="px-2 sm:px-3 py-3 text-right font-semibold text-red-600 min-w-max">৳{booking.discount.toLocaleString()}</td>
+                      <td className="px-2 sm:px-3 py-3 text-right font-semibold text-emerald-600 min-w-max">৳{booking.checkout_payable.toLocaleString()}</td>
+                      <td className="px-2 sm:px-3 py-3 text-center min-w-max">
+                        <span className={`px-2 py-1 rounded text-xs font-bold whitespace-nowrap ${getStatusBadgeClass(booking.status)}`}>
+                          {booking.status}
+                        </span>
+                        {booking.status === 'Tentative' && booking.hold_expires_at && (
+                          <p className={`text-[10px] mt-1 ${isExpiredHold(booking) ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                            {isExpiredHold(booking) ? 'Hold expired' : `Hold until ${new Date(booking.hold_expires_at).toLocaleString()}`}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-2 sm:px-3 py-3 text-center min-w-max">
+                        <div className="space-x-1 flex justify-center flex-wrap">
+                          {booking.status === 'Confirmed' && can('bookings.manage') && (
+                            <button onClick={() => setEditingBooking(booking)} className="p-1 bg-indigo-500 hover:bg-indigo-600 text-white rounded" title="Edit Booking">
+                              <Edit2 size={14} />
+                            </button>
+                          )}
+                          {transitions.includes('confirm') && (
+                            <button onClick={() => handleConfirm(booking)} className="p-1 bg-blue-500 hover:bg-blue-600 text-white rounded" title="Confirm Hold">
+                              <CheckCircle size={14} />
+                            </button>
+                          )}
+                          {transitions.includes('check_in') && (
+                            <button onClick={() => handleCheckIn(booking)} className="p-1 bg-emerald-500 hover:bg-emerald-600 text-white rounded" title="Check In">
+                              <LogIn size={14} />
+                            </button>
+                          )}
+                          {transitions.includes('check_out') && (
                             <button onClick={() => handleCheckout(booking)} className="p-1 bg-green-500 hover:bg-green-600 text-white rounded" title="Checkout">
                               ✓
                             </button>
+                          )}
+                          {transitions.includes('no_show') && (
+                            <button onClick={() => handleNoShow(booking)} className="p-1 bg-gray-500 hover:bg-gray-600 text-white rounded" title="Mark as No-show">
+                              <UserX size={14} />
+                            </button>
+                          )}
+                          {transitions.includes('cancel') && (
                             <button onClick={() => handleCancelBooking(booking)} className="p-1 bg-yellow-500 hover:bg-yellow-600 text-white rounded" title="Cancel & Refund">
                               ↪️
                             </button>
-                          </>
-                        )}
-                        {booking.status === 'Cancelled' && (
-                          <span className="text-xs text-gray-500 whitespace-nowrap">No actions</span>
-                        )}
-                        {booking.status === 'Checked-out' && (
-                          <button onClick={() => handleDownloadInvoice(booking)} className="p-1 bg-blue-500 hover:bg-blue-600 text-white rounded" title="Download Invoice">
-                            <FileText size={14} />
+                          )}
+                          <button onClick={() => setPaymentsBooking(booking)} className="p-1 bg-teal-500 hover:bg-teal-600 text-white rounded" title="Payment History">
+                            <Wallet size={14} />
                           </button>
-                        )}
-                        <button onClick={() => handleDelete(booking.id)} className="p-1 bg-red-500 hover:bg-red-600 text-white rounded" title="Delete">
-                          <Trash2 size={14} />
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))
+                          <button onClick={() => setMessagesBooking(booking)} className="p-1 bg-green-600 hover:bg-green-700 text-white rounded" title="Messages">
+                            <MessageCircle size={14} />
+                          </button>
+                          <button onClick={() => setHistoryBooking(booking)} className="p-1 bg-slate-500 hover:bg-slate-600 text-white rounded" title="History">
+                            <History size={14} />
+                          </button>
+                          {booking.status === 'Checked-out' && (
+                            <button onClick={() => handleDownloadInvoice(booking)} className="p-1 bg-blue-500 hover:bg-blue-600 text-white rounded" title="Download Invoice">
+                              <FileText size={14} />
+                            </button>
+                          )}
+                          {can('bookings.delete') && (
+                            <button onClick={() => handleDelete(booking.id)} className="p-1 bg-red-500 hover:bg-red-600 text-white rounded" title="Delete">
+                              <Trash2 size={14} />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
@@ -627,6 +793,86 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
         </div>
       </div>
 
+      {/* Confirm Hold Modal */}
+      {confirmingBooking && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="bg-gradient-to-r from-blue-500 to-blue-600 px-6 py-4 rounded-t-lg">
+              <h2 className="text-xl font-bold text-white">Confirm Hold</h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="border-b pb-4">
+                <p className="text-sm text-gray-600">Guest Name</p>
+                <p className="text-lg font-semibold text-gray-800">{confirmingBooking.guest_name}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatDateDisplay(confirmingBooking.check_in)} - {formatDateDisplay(confirmingBooking.check_out)}
+                  {confirmingBooking.hold_expires_at && ` • Hold until ${new Date(confirmingBooking.hold_expires_at).toLocaleString()}`}
+                </p>
+              </div>
+
+              {isExpiredHold(confirmingBooking) && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-xs text-yellow-800">
+                  This hold has expired. It can still be confirmed if its rooms have not been booked since.
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Advance Received *</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={holdAdvance}
+                  onChange={(e) => setHoldAdvance(e.target.value)}
+                  placeholder="e.g., 2000"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Payment Method</label>
+                  <select
+                    value={holdMethod}
+                    onChange={(e) => setHoldMethod(e.target.value as PaymentMethod)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {PAYMENT_METHODS.map((method) => (
+                      <option key={method} value={method}>{method}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Reference</label>
+                  <input
+                    type="text"
+                    value={holdReference}
+                    onChange={(e) => setHoldReference(e.target.value)}
+                    placeholder="e.g., TrxID"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  onClick={() => setConfirmingBooking(null)}
+                  className="flex-1 px-4 py-2 bg-gray-300 hover:bg-gray-400 text-gray-800 font-medium rounded-lg transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmHold}
+                  className="flex-1 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white font-medium rounded-lg transition"
+                >
+                  Confirm & Record Advance
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Checkout Modal */}
       {checkoutBooking && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -648,16 +894,22 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
                   <span className="font-semibold">৳{checkoutBooking.price.toLocaleString()}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-700">VAT (2.5%):</span>
+                  <span className="text-gray-700">{getTaxLabel(checkoutBooking, 'vat')}:</span>
                   <span className="font-semibold">৳{checkoutBooking.vat_amount.toLocaleString()}</span>
                 </div>
+                {(checkoutBooking.service_charge_amount || 0) > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">{getTaxLabel(checkoutBooking, 'service_charge')}:</span>
+                    <span className="font-semibold">৳{(checkoutBooking.service_charge_amount || 0).toLocaleString()}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <span className="text-gray-700">Advance Paid:</span>
+                  <span className="text-gray-700">Paid So Far:</span>
                   <span className="font-semibold text-blue-600">-৳{checkoutBooking.advance.toLocaleString()}</span>
                 </div>
                 <div className="border-t pt-2 flex justify-between">
                   <span className="text-gray-700">Base Amount Due:</span>
-                  <span className="font-bold text-lg">৳{(checkoutBooking.price + checkoutBooking.vat_amount - checkoutBooking.advance).toLocaleString()}</span>
+                  <span className="font-bold text-lg">৳{getBalanceDue(checkoutBooking, checkoutBooking.payments || [], 0, 0).toLocaleString()}</span>
                 </div>
               </div>
 
@@ -698,11 +950,37 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
                 <div className="flex justify-between items-center">
                   <span className="text-lg font-bold text-gray-800">Total Amount Due:</span>
                   <span className="text-2xl font-bold text-green-600">
-                    ৳{(checkoutBooking.price + checkoutBooking.vat_amount - checkoutBooking.advance + parseFloat(extraIncome || '0') - parseFloat(discount || '0')).toLocaleString()}
+                    ৳{getBalanceDue(checkoutBooking, checkoutBooking.payments || [], parseFloat(extraIncome || '0'), parseFloat(discount || '0')).toLocaleString()}
                   </span>
                 </div>
               </div>
 
+              {/* Final Payment Method */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Payment Method</label>
+                  <select
+                    value={checkoutMethod}
+                    onChange={(e) => setCheckoutMethod(e.target.value as PaymentMethod)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    {PAYMENT_METHODS.map((method) => (
+                      <option key={method} value={method}>{method}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Reference</label>
+                  <input
+                    type="text"
+                    value={checkoutReference}
+                    onChange={(e) => setCheckoutReference(e.target.value)}
+                    placeholder="e.g., TrxID"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
               {/* Action Buttons */}
               <div className="flex gap-3 pt-4">
                 <button
@@ -723,6 +1001,43 @@ const BookingList: React.FC<BookingListProps> = ({ refresh, onActionComplete })
         </div>
       )}
 
+      {/* Payment History Modal */}
+      {paymentsBooking && (
+        <PaymentHistory
+          booking={paymentsBooking}
+          onClose={() => setPaymentsBooking(null)}
+          onPaymentRecorded={() => {
+            fetchBookings();
+            onActionComplete?.();
+          }}
+        />
+      )}
+
+      {/* Message Log Modal */}
+      {messagesBooking && <MessageLog booking={messagesBooking} onClose={() => setMessagesBooking(null)} />}
+
+      {/* Booking History Modal */}
+      {historyBooking && <BookingHistory booking={historyBooking} onClose={() => setHistoryBooking(null)} />}
+
+      {/* Edit Booking Modal */}
+      {editingBooking && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 px-6 py-4 rounded-t-lg">
+              <h2 className="text-xl font-bold text-white">Edit Booking {editingBooking.booking_no}</h2>
+            </div>
+            <div className="p-4 sm:p-6">
+              <BookingForm
+                key={editingBooking.id}
+                editingBooking={editingBooking}
+                onBookingUpdated={handleBookingUpdated}
+                onCancelEdit={() => setEditingBooking(null)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Modal */}
       <Modal
         isOpen={modal.isOpen}
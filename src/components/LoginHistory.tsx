@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { LoginHistoryEntry } from '../types';
+import { AlertCircle, Loader, Monitor } from 'lucide-react';
+import { fetchLoginHistory } from '../services/authService';
+
+interface LoginHistoryProps {
+  email: string;
+}
+
+// Recent sign-ins for one account, newest first
+const LoginHistory: React.FC<LoginHistoryProps> = ({ email }) => {
+  const [entries, setEntries] = useState<LoginHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setEntries(await fetchLoginHistory(email));
+      } catch (err) {
+        console.error('Error fetching login history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load login history');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadHistory();
+  }, [email]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center p-4">
+        <Loader size={24} className="animate-spin text-emerald-600" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-800">
+        <AlertCircle size={16} />
+        <span>{error}</span>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">No sign-ins recorded yet</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {entries.map((entry) => (
+        <li key={entry.id} className="py-2 flex items-start gap-3 text-sm">
+          <Monitor size={16} className="text-gray-400 mt-0.5 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="font-semibold text-gray-800">
+              {new Date(entry.signed_in_at).toLocaleString()}
+              {entry.ip_address && <span className="font-normal text-gray-500"> • {entry.ip_address}</span>}
+            </p>
+            <p className="text-xs text-gray-500 truncate" title={entry.user_agent}>
+              {entry.user_agent || 'Unknown device'}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default LoginHistory;
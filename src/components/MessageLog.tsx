@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import supabase from '../services/supabaseClient';
+import { Booking, BookingMessage, MessageStatus, MessageTemplateKind, Room } from '../types';
+import { AlertCircle, Loader, RotateCw, Send } from 'lucide-react';
+import { fetchBookingMessages } from '../services/messageService';
+import { generateWhatsAppMessage, retryWhatsAppMessage, sendWhatsAppMessage } from '../services/whatsappService';
+import { useMessageTemplates } from '../hooks/useMessageTemplates';
+import { useRefundPolicies } from '../hooks/useRefundPolicies';
+import { MESSAGE_TEMPLATE_KINDS } from '../utils/templateUtils';
+
+interface MessageLogProps {
+  booking: Booking;
+  onClose: () => void;
+}
+
+const statusBadge = (status: MessageStatus) =>
+  status === 'sent' ? 'bg-green-100 text-green-800' :
+  status === 'failed' ? 'bg-red-100 text-red-800' :
+  'bg-yellow-100 text-yellow-800';
+
+// The message staff most likely want to send at each stage of the booking
+const defaultKind = (status: Booking['status']): MessageTemplateKind =>
+  status === 'Cancelled' ? 'cancellation_notice' :
+  status === 'Checked-out' ? 'checkout_thank_you' :
+  'booking_confirmation';
+
+const MessageLog: React.FC<MessageLogProps> = ({ booking, onClose }) => {
+  const [messages, setMessages] = useState<BookingMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [kind, setKind] = useState<MessageTemplateKind>(defaultKind(booking.status));
+  const [sending, setSending] = useState(false);
+  const { templates } = useMessageTemplates();
+  const { policies: refundPolicies } = useRefundPolicies();
+
+  const loadMessages = async () => {
+    try {
+      setMessages(await fetchBookingMessages(booking.id));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching messages:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load messages');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMessages();
+  }, [booking.id]);
+
+  useEffect(() => {
+    const fetchRooms = async () => {
+      const { data, error } = await supabase.from('rooms').select('*').order('name');
+      if (error) {
+        console.error('Error fetching rooms:', error);
+        return;
+      }
+      setRooms(data || []);
+    };
+    fetchRooms();
+  }, []);
+
+  const draft = generateWhatsAppMessage(booking, rooms, refundPolicies, templates, kind);
+
+  const handleSend = async () => {
+    setSending(true);
+    const result = await sendWhatsAppMessage(booking, draft);
+    await loadMessages();
+    setError(result.success ? null : result.message);
+    setSending(false);
+  };
+
+  const handleRetry = async (message: BookingMessage) => {
+    setRetryingId(message.id);
+    const result = await retryWhatsAppMessage(message);
+    await loadMessages();
+    setError(result.success ? null : result.message);
+    setRetryingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="bg-gradient-to-r from-green-500 to-green-600 px-6 py-4 rounded-t-lg">
+          <h2 className="text-xl font-bold text-white">Messages - {booking.booking_no}</h2>
+          <p className="text-sm text-green-50">
+            {booking.guest_name} • {booking.guest_phone}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-800">
+              <AlertCircle size={16} />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Compose from a template */}
+          <div className="border border-green-200 rounded-lg p-3 space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as MessageTemplateKind)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:border-green-500 focus:ring-2 focus:ring-green-200"
+              >
+                {MESSAGE_TEMPLATE_KINDS.map((k) => (
+                  <option key={k.kind} value={k.kind}>
+                    {k.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleSend}
+                disabled={sending}
+                className="px-4 py-2 bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium flex items-center gap-2"
+              >
+                {sending ? <Loader size={16} className="animate-spin" /> : <Send size={16} />}
+                Send
+              </button>
+            </div>
+            <pre className="p-3 bg-gray-50 rounded text-xs text-gray-700 whitespace-pre-wrap font-sans max-h-48 overflow-y-auto">{draft}</pre>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center p-4">
+              <Loader size={24} className="animate-spin text-green-600" />
+            </div>
+          ) : messages.length === 0 ? (
+            <p className="text-center py-4 text-gray-500">No messages sent for this booking</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {messages.map((message) => (
+                <li key={message.id} className="py-3 text-sm">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-bold ${statusBadge(message.status)}`}>
+                          {message.status}
+                        </span>
+                        <span className="text-gray-700">{new Date(message.created_at).toLocaleString()}</span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {message.provider || 'No provider'} • {message.attempts} attempt{message.attempts !== 1 ? 's' : ''}
+                        {` • ${message.staff_email || 'Scheduled'}`}
+                      </p>
+                      {message.status === 'failed' && message.last_error && (
+                        <p className="text-xs text-red-700 mt-1">{message.last_error}</p>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setExpandedId(expandedId === message.id ? null : message.id)}
+                        className="text-xs text-green-700 underline mt-1"
+                      >
+                        {expandedId === message.id ? 'Hide message' : 'Show message'}
+                      </button>
+                    </div>
+                    {message.status !== 'sent' && (
+                      <button
+                        type="button"
+                        onClick={() => handleRetry(message)}
+                        disabled={retryingId !== null}
+                        className="px-3 py-1 bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white rounded text-xs flex items-center gap-1 shrink-0"
+                      >
+                        {retryingId === message.id ? <Loader size={12} className="animate-spin" /> : <RotateCw size={12} />}
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                  {expandedId === message.id && (
+                    <pre className="mt-2 p-3 bg-gray-50 rounded text-xs text-gray-700 whitespace-pre-wrap font-sans">{message.body}</pre>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end">
+            <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-lg font-medium">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageLog;
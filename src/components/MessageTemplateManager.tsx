@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import supabase from '../services/supabaseClient';
+import { Booking, MessageTemplateKind, Room } from '../types';
+import { AlertCircle, CheckCircle, Loader, RotateCcw, Save } from 'lucide-react';
+import useAuth from '../hooks/useAuth';
+import { useMessageTemplates } from '../hooks/useMessageTemplates';
+import { useRefundPolicies } from '../hooks/useRefundPolicies';
+import { deleteMessageTemplate, saveMessageTemplate } from '../services/messageTemplateService';
+import {
+  MESSAGE_TEMPLATE_KINDS,
+  TEMPLATE_PLACEHOLDERS,
+  TemplatePlaceholder,
+  buildTemplateValues,
+  findUnknownPlaceholders,
+  getMessageTemplate,
+  renderTemplate,
+} from '../utils/templateUtils';
+import { formatDateDisplay } from '../utils/bookingUtils';
+
+interface MessageTemplateManagerProps {
+  refresh?: number;
+}
+
+const MessageTemplateManager: React.FC<MessageTemplateManagerProps> = ({ refresh }) => {
+  const { can } = useAuth();
+  const { templates, reload } = useMessageTemplates(refresh);
+  const { policies: refundPolicies } = useRefundPolicies(refresh);
+  const [kind, setKind] = useState<MessageTemplateKind>('booking_confirmation');
+  const [name, setName] = useState('');
+  const [body, setBody] = useState('');
+  const [previewBookings, setPreviewBookings] = useState<Booking[]>([]);
+  const [previewBookingId, setPreviewBookingId] = useState('');
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<{
+    type: 'idle' | 'loading' | 'success' | 'error';
+    message: string;
+  }>({ type: 'idle', message: '' });
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const template = getMessageTemplate(templates, kind);
+  const isStored = !template.id.startsWith('default-');
+  const unknownPlaceholders = findUnknownPlaceholders(body);
+  const previewBooking = previewBookings.find((b) => b.id === previewBookingId);
+
+  // Load the selected template into the editor whenever the kind changes or templates reload
+  useEffect(() => {
+    setName(template.name);
+    setBody(template.body);
+  }, [template.id, template.body, template.name]);
+
+  // Recent bookings to preview against
+  useEffect(() => {
+    const fetchPreviewData = async () => {
+      const [bookingsResult, roomsResult] = await Promise.all([
+        supabase.from('bookings').select('*, booking_rooms(*)').is('deleted_at', null).order('created_at', { ascending: false }).limit(20),
+        supabase.from('rooms').select('*').order('name'),
+      ]);
+      if (bookingsResult.error || roomsResult.error) {
+        console.error('Error fetching preview data:', bookingsResult.error || roomsResult.error);
+        return;
+      }
+      setPreviewBookings(bookingsResult.data || []);
+      setRooms(roomsResult.data || []);
+      if (bookingsResult.data?.length) setPreviewBookingId((prev) => prev || bookingsResult.data[0].id);
+    };
+    fetchPreviewData();
+  }, [refresh]);
+
+  const flashStatus = (type: 'success' | 'error', message: string) => {
+    setStatus({ type, message });
+    setTimeout(() => {
+      setStatus({ type: 'idle', message: '' });
+    }, 3000);
+  };
+
+  const insertPlaceholder = (placeholder: TemplatePlaceholder) => {
+    const token = `{{${placeholder}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      setBody((prev) => prev + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setBody(body.slice(0, selectionStart) + token + body.slice(selectionEnd));
+    // Put the cursor after the inserted placeholder once React has re-rendered
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !body.trim()) {
+      setStatus({ type: 'error', message: 'Template name and text are required' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await saveMessageTemplate({ kind, name, body });
+      flashStatus(
+        'success',
+        unknownPlaceholders.length > 0
+          ? 'Template saved. Unknown placeholders will be sent as typed.'
+          : 'Template saved successfully!'
+      );
+      await reload();
+    } catch (err: any) {
+      console.error('Error saving message template:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to save template' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Discard your changes to this template and go back to the built-in text?')) {
+      return;
+    }
+
+    try {
+      await deleteMessageTemplate(template.id);
+      flashStatus('success', 'Template reset to the built-in text');
+      await reload();
+    } catch (err: any) {
+      console.error('Error resetting message template:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to reset template' });
+    }
+  };
+
+  if (!can('settings.manage')) {
+    return null;
+  }
+
+  return (
+    <div className="card bg-base-100 shadow-lg">
+      <div className="card-body">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="card-title text-2xl font-bold text-emerald-700 flex items-center gap-2">
+            <span>💬</span> Message Templates
+          </h2>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as MessageTemplateKind)}
+            className="select select-bordered select-sm focus:outline-none"
+          >
+            {MESSAGE_TEMPLATE_KINDS.map((k) => (
+              <option key={k.kind} value={k.kind}>
+                {k.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Status Messages */}
+        {status.type !== 'idle' && (
+          <div className={`alert alert-${status.type === 'success' ? 'success' : 'error'} mb-4 flex items-center gap-2`}>
+            {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+            <span>{status.message}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Editor */}
+          <div className="space-y-3">
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text font-semibold">Name</span>
+                <span className="label-text-alt">{isStored ? 'Customised' : 'Built-in'}</span>
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="input input-bordered input-emerald focus:outline-none"
+              />
+            </div>
+
+            <textarea
+              ref={bodyRef}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={18}
+              className="textarea textarea-bordered w-full font-mono text-xs focus:outline-none"
+            />
+
+            {unknownPlaceholders.length > 0 && (
+              <div className="alert alert-warning flex items-start gap-2 text-sm">
+                <AlertCircle size={18} className="shrink-0" />
+                <span>
+                  Unknown placeholder{unknownPlaceholders.length !== 1 ? 's' : ''}:{' '}
+                  {unknownPlaceholders.map((p) => `{{${p}}}`).join(', ')}. These will be sent exactly as typed.
+                </span>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm font-semibold text-gray-700 mb-1">Insert placeholder</p>
+              <div className="flex flex-wrap gap-1">
+                {(Object.keys(TEMPLATE_PLACEHOLDERS) as TemplatePlaceholder[]).map((placeholder) => (
+                  <button
+                    key={placeholder}
+                    type="button"
+                    onClick={() => insertPlaceholder(placeholder)}
+                    className="badge badge-outline hover:bg-emerald-100 cursor-pointer text-xs"
+                    title={TEMPLATE_PLACEHOLDERS[placeholder]}
+                  >
+                    {placeholder}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={handleSave} disabled={loading} className="btn btn-emerald flex-1 gap-2">
+                {loading ? <Loader size={18} className="animate-spin" /> : <Save size={18} />}
+                Save Template
+              </button>
+              {isStored && (
+                <button onClick={handleReset} className="btn btn-ghost gap-2">
+                  <RotateCcw size={18} />
+                  Reset
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Live Preview */}
+          <div>
+            <div className="form-control mb-3">
+              <label className="label">
+                <span className="label-text font-semibold">Preview with booking</span>
+              </label>
+              <select
+                value={previewBookingId}
+                onChange={(e) => setPreviewBookingId(e.target.value)}
+                className="select select-bordered focus:outline-none"
+              >
+                {previewBookings.length === 0 && <option value="">No bookings yet</option>}
+                {previewBookings.map((b) => (
+                  <option key={b.id} value={b.id}>
+                    {b.booking_no} - {b.guest_name} ({formatDateDisplay(b.check_in)})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <pre className="p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-gray-800 whitespace-pre-wrap font-sans max-h-[32rem] overflow-y-auto">
+              {previewBooking
+                ? renderTemplate(body, buildTemplateValues(previewBooking, rooms, refundPolicies))
+                : body}
+            </pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageTemplateManager;
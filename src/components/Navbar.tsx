@@ -1,11 +1,15 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { LogOut, Calendar, User as UserIcon, ExternalLink, TrendingUp, Settings } from 'lucide-react';
+import { LogOut, Calendar, User as UserIcon, ExternalLink, TrendingUp, Settings, Users, UserCog, Activity, Trash2, ListPlus, Sparkles } from 'lucide-react';
 import useAuth from '../hooks/useAuth';
+import { getRoleLabel } from '../utils/permissions';
+import { useWaitlistMatches } from '../hooks/useWaitlistMatches';
 import logo from '../assets/logo.png';
 
 const Navbar: React.FC = () => {
-  const { user, isAdmin, signOut } = useAuth();
+  const { user, staff, signOut, can } = useAuth();
+  // Guests on the waitlist who now have a room free
+  const waitlistMatches = useWaitlistMatches(can('bookings.view'));
 
   const handleSignOut = async () => {
     await signOut();
@@ -32,7 +36,7 @@ const Navbar: React.FC = () => {
         </Link>
       </div>
       <div className="flex-none gap-3 sm:gap-5"> 
-        {user && isAdmin ? (
+        {user && staff ? (
           <>
             {/* Visit Resort Website Button - Hidden on mobile */}
             <a
@@ -49,21 +53,78 @@ const Navbar: React.FC = () => {
             <div className="dropdown dropdown-end">
               <button className="btn btn-ghost btn-sm sm:btn-md gap-1 text-white hover:bg-emerald-800 hover:shadow-lg transition-all duration-300 hover:scale-105">
                 <UserIcon size={16} className="sm:size-18" />
+                {waitlistMatches > 0 && <span className="badge badge-xs badge-success" title="Waitlist matches" />}
                 <span className="hidden sm:inline text-sm">{user.email}</span>
               </button>
               <ul className="dropdown-content z-[1] menu p-2 shadow-2xl bg-base-100 rounded-box w-52 border border-emerald-100 animate-in fade-in duration-200">
-                <li>
-                  <Link to="/bookings" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-emerald-50 hover:shadow-md transition-all duration-200 rounded-lg">
-                    <Calendar size={18} className="text-emerald-600" />
-                    Manage Bookings
-                  </Link>
-                </li>
-                <li>
-                  <Link to="/expenses" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-blue-50 hover:shadow-md transition-all duration-200 rounded-lg">
-                    <TrendingUp size={18} className="text-blue-600" />
-                    Expenses & Revenue
-                  </Link>
+                <li className="menu-title">
+                  <span>{getRoleLabel(staff.role)}</span>
                 </li>
+                {can('bookings.view') && (
+                  <>
+                    <li>
+                      <Link to="/bookings" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-emerald-50 hover:shadow-md transition-all duration-200 rounded-lg">
+                        <Calendar size={18} className="text-emerald-600" />
+                        Manage Bookings
+                      </Link>
+                    </li>
+                    <li>
+                      <Link to="/waitlist" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-emerald-50 hover:shadow-md transition-all duration-200 rounded-lg">
+                        <ListPlus size={18} className="text-emerald-600" />
+                        Waitlist
+                        {waitlistMatches > 0 && <span className="badge badge-sm badge-success">{waitlistMatches}</span>}
+                      </Link>
+                    </li>
+                  </>
+                )}
+                {can('housekeeping.manage') && (
+                  <li>
+                    <Link to="/housekeeping" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-sky-50 hover:shadow-md transition-all duration-200 rounded-lg">
+                      <Sparkles size={18} className="text-sky-600" />
+                      Housekeeping
+                    </Link>
+                  </li>
+                )}
+                {can('guests.view') && (
+                  <li>
+                    <Link to="/guests" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-teal-50 hover:shadow-md transition-all duration-200 rounded-lg">
+                      <Users size={18} className="text-teal-600" />
+                      Guests
+                    </Link>
+                  </li>
+                )}
+                {can('expenses.view') && (
+                  <li>
+                    <Link to="/expenses" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-blue-50 hover:shadow-md transition-all duration-200 rounded-lg">
+                      <TrendingUp size={18} className="text-blue-600" />
+                      Expenses & Revenue
+                    </Link>
+                  </li>
+                )}
+                {can('activity.view') && (
+                  <li>
+                    <Link to="/activity" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-slate-50 hover:shadow-md transition-all duration-200 rounded-lg">
+                      <Activity size={18} className="text-slate-600" />
+                      Activity
+                    </Link>
+                  </li>
+                )}
+                {(can('bookings.delete') || can('expenses.manage')) && (
+                  <li>
+                    <Link to="/trash" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-red-50 hover:shadow-md transition-all duration-200 rounded-lg">
+                      <Trash2 size={18} className="text-red-600" />
+                      Trash
+                    </Link>
+                  </li>
+                )}
+                {can('staff.manage') && (
+                  <li>
+                    <Link to="/staff" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-amber-50 hover:shadow-md transition-all duration-200 rounded-lg">
+                      <UserCog size={18} className="text-amber-600" />
+                      Staff
+                    </Link>
+                  </li>
+                )}
                 <li>
                   <Link to="/profile" className="gap-2 no-underline hover:no-underline focus:no-underline hover:bg-purple-50 hover:shadow-md transition-all duration-200 rounded-lg">
                     <Settings size={18} className="text-purple-600" />
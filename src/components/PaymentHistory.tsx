@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { Booking, Payment, PaymentMethod } from '../types';
+import { AlertCircle, Loader, Plus } from 'lucide-react';
+import { fetchPayments, recordPayment } from '../services/paymentService';
+import { PAYMENT_METHODS, getBalanceDue, sortPayments, summarizePayments } from '../utils/paymentUtils';
+import { isOpenStatus } from '../utils/bookingStatus';
+import { getBookingGrossTotal } from '../utils/taxUtils';
+
+interface PaymentHistoryProps {
+  booking: Booking;
+  onClose: () => void;
+  onPaymentRecorded?: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const PaymentHistory: React.FC<PaymentHistoryProps> = ({ booking, onClose, onPaymentRecorded }) => {
+  const [payments, setPayments] = useState<Payment[]>(booking.payments || []);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('Cash');
+  const [paidOn, setPaidOn] = useState(today());
+  const [reference, setReference] = useState('');
+
+  // Installments can only be taken while the booking is still open
+  const canRecord = isOpenStatus(booking.status);
+  const summary = summarizePayments(payments);
+  const balanceDue = getBalanceDue(booking, payments);
+
+  const loadPayments = async () => {
+    try {
+      setPayments(await fetchPayments(booking.id));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching payments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPayments();
+  }, [booking.id]);
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      setError('Enter an amount greater than 0');
+      return;
+    }
+    if (value > balanceDue) {
+      setError(`Amount is more than the balance due (৳${balanceDue.toLocaleString()})`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await recordPayment({
+        booking_id: booking.id,
+        kind: 'payment',
+        amount: value,
+        method,
+        // Keep the time of day for today's payments so they sort after earlier ones
+        paid_at: paidOn === today() ? new Date().toISOString() : new Date(`${paidOn}T12:00:00`).toISOString(),
+        reference,
+      });
+      setAmount('');
+      setReference('');
+      await loadPayments();
+      onPaymentRecorded?.();
+    } catch (err: any) {
+      console.error('Error recording payment:', err);
+      setError(err.message || 'Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="bg-gradient-to-r from-teal-500 to-teal-600 px-6 py-4 rounded-t-lg">
+          <h2 className="text-xl font-bold text-white">Payments - {booking.booking_no}</h2>
+          <p className="text-sm text-teal-50">{booking.guest_name}</p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Stay Total</p>
+              <p className="font-bold text-gray-800">৳{(getBookingGrossTotal(booking) + (booking.extra_income || 0) - (booking.discount || 0)).toLocaleString()}</p>
+            </div>
+            <div className="bg-green-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Paid</p>
+              <p className="font-bold text-green-700">৳{summary.paid.toLocaleString()}</p>
+            </div>
+            <div className="bg-red-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Refunded</p>
+              <p className="font-bold text-red-700">৳{summary.refunded.toLocaleString()}</p>
+            </div>
+            <div className="bg-orange-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Balance Due</p>
+              <p className="font-bold text-orange-700">৳{balanceDue.toLocaleString()}</p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-800">
+              <AlertCircle size={16} />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Ledger */}
+          {loading ? (
+            <div className="flex justify-center items-center p-4">
+              <Loader size={24} className="animate-spin text-teal-600" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="bg-teal-50 border-b border-teal-200">
+                    <th className="px-2 py-2 text-left font-semibold text-gray-700">Date</th>
+                    <th className="px-2 py-2 text-left font-semibold text-gray-700">Type</th>
+                    <th className="px-2 py-2 text-left font-semibold text-gray-700">Method</th>
+                    <th className="px-2 py-2 text-left font-semibold text-gray-700">Reference</th>
+                    <th className="px-2 py-2 text-left font-semibold text-gray-700">Staff</th>
+                    <th className="px-2 py-2 text-right font-semibold text-gray-700">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payments.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="text-center py-4 text-gray-500">
+                        No payments recorded
+                      </td>
+                    </tr>
+                  ) : (
+                    sortPayments(payments).map((payment) => (
+                      <tr key={payment.id} className="border-b border-gray-100">
+                        <td className="px-2 py-2 text-gray-700 whitespace-nowrap">{new Date(payment.paid_at).toLocaleDateString()}</td>
+                        <td className="px-2 py-2">
+                          <span className={`px-2 py-0.5 rounded text-xs font-bold ${payment.kind === 'refund' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
+                            {payment.kind === 'refund' ? 'Refund' : 'Payment'}
+                          </span>
+                        </td>
+                        <td className="px-2 py-2 text-gray-700">{payment.method}</td>
+                        <td className="px-2 py-2 text-gray-600" title={payment.notes}>{payment.reference || '-'}</td>
+                        <td className="px-2 py-2 text-xs text-gray-500">{payment.staff_email || '-'}</td>
+                        <td className={`px-2 py-2 text-right font-semibold ${payment.kind === 'refund' ? 'text-red-600' : 'text-green-600'}`}>
+                          {payment.kind === 'refund' ? '-' : ''}৳{Number(payment.amount).toLocaleString()}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Record Installment */}
+          {canRecord && balanceDue > 0 && (
+            <form onSubmit={handleRecord} className="border-t pt-4 space-y-3">
+              <p className="text-sm font-semibold text-gray-700">Record Payment</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder={`Amount (max ৳${balanceDue.toLocaleString()})`}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:border-teal-500 focus:ring-2 focus:ring-teal-200"
+                  required
+                />
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:border-teal-500 focus:ring-2 focus:ring-teal-200"
+                >
+                  {PAYMENT_METHODS.map((m) => (
+                    <option key={m} value={m}>{m}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={paidOn}
+                  max={today()}
+                  onChange={(e) => setPaidOn(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:border-teal-500 focus:ring-2 focus:ring-teal-200"
+                  required
+                />
+                <input
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Reference (e.g., TrxID)"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:border-teal-500 focus:ring-2 focus:ring-teal-200"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full px-4 py-2 bg-teal-500 hover:bg-teal-600 text-white font-medium rounded-lg transition flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {saving ? <Loader size={16} className="animate-spin" /> : <Plus size={16} />}
+                Record Payment
+              </button>
+            </form>
+          )}
+
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-2 bg-gray-300 hover:bg-gray-400 text-gray-800 font-medium rounded-lg transition"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentHistory;
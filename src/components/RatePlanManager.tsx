@@ -0,0 +1,571 @@
+import React, { useEffect, useState } from 'react';
+import supabase from '../services/supabaseClient';
+import { RatePlan, Room } from '../types';
+import { Plus, Trash2, Edit2, AlertCircle, CheckCircle, Loader, CalendarRange } from 'lucide-react';
+import useAuth from '../hooks/useAuth';
+import { useRatePlans } from '../hooks/useRatePlans';
+import { saveRatePlan, deleteRatePlan, saveRateSeason, deleteRateSeason } from '../services/ratePlanService';
+import { formatDateDisplay } from '../utils/bookingUtils';
+
+interface RatePlanForm {
+  name: string;
+  scope: 'room' | 'type' | 'all';
+  room_id: string;
+  room_type: string;
+  base_rate: string;
+  weekend_uplift_percent: string;
+  min_stay: string;
+  is_active: boolean;
+}
+
+interface SeasonForm {
+  name: string;
+  start_date: string;
+  end_date: string;
+  nightly_rate: string;
+  min_stay: string;
+}
+
+interface RatePlanManagerProps {
+  refresh?: number;
+}
+
+const emptyForm = (): RatePlanForm => ({
+  name: '',
+  scope: 'type',
+  room_id: '',
+  room_type: '',
+  base_rate: '',
+  weekend_uplift_percent: '0',
+  min_stay: '1',
+  is_active: true,
+});
+
+const emptySeason = (): SeasonForm => ({
+  name: '',
+  start_date: '',
+  end_date: '',
+  nightly_rate: '',
+  min_stay: '',
+});
+
+const RatePlanManager: React.FC<RatePlanManagerProps> = ({ refresh }) => {
+  const { can } = useAuth();
+  const { ratePlans, reload } = useRatePlans(refresh);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [seasonPlanId, setSeasonPlanId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<{
+    type: 'idle' | 'loading' | 'success' | 'error';
+    message: string;
+  }>({ type: 'idle', message: '' });
+  const [formData, setFormData] = useState<RatePlanForm>(emptyForm);
+  const [seasonData, setSeasonData] = useState<SeasonForm>(emptySeason);
+
+  useEffect(() => {
+    const fetchRooms = async () => {
+      const { data, error } = await supabase.from('rooms').select('*').order('name');
+      if (error) {
+        console.error('Error fetching rooms:', error);
+        return;
+      }
+      setRooms(data || []);
+    };
+    fetchRooms();
+  }, [refresh]);
+
+  const roomTypes = Array.from(new Set(rooms.map((r) => r.type).filter((t): t is string => !!t))).sort();
+
+  const flashStatus = (type: 'success' | 'error', message: string) => {
+    setStatus({ type, message });
+    setTimeout(() => {
+      setStatus({ type: 'idle', message: '' });
+    }, 3000);
+  };
+
+  const describeScope = (plan: RatePlan) => {
+    if (plan.room_id) return rooms.find((r) => r.id === plan.room_id)?.name || 'Room';
+    if (plan.room_type) return `All ${plan.room_type}`;
+    return 'All rooms';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setStatus({ type: 'error', message: 'Plan name is required' });
+      return;
+    }
+    if (formData.scope === 'room' && !formData.room_id) {
+      setStatus({ type: 'error', message: 'Select the room this plan prices' });
+      return;
+    }
+    if (formData.scope === 'type' && !formData.room_type) {
+      setStatus({ type: 'error', message: 'Select the room type this plan prices' });
+      return;
+    }
+
+    const baseRate = parseFloat(formData.base_rate);
+    const uplift = parseFloat(formData.weekend_uplift_percent) || 0;
+    const minStay = parseInt(formData.min_stay) || 1;
+    if (isNaN(baseRate) || baseRate < 0) {
+      setStatus({ type: 'error', message: 'Base rate must be zero or more' });
+      return;
+    }
+    if (minStay < 1) {
+      setStatus({ type: 'error', message: 'Minimum stay must be at least 1 night' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await saveRatePlan(
+        {
+          name: formData.name,
+          room_id: formData.scope === 'room' ? formData.room_id : null,
+          room_type: formData.scope === 'type' ? formData.room_type : null,
+          base_rate: baseRate,
+          weekend_uplift_percent: uplift,
+          min_stay: minStay,
+          is_active: formData.is_active,
+        },
+        editingId || undefined
+      );
+
+      flashStatus('success', editingId ? 'Rate plan updated successfully!' : 'Rate plan added successfully!');
+      handleCancel();
+      await reload();
+    } catch (err: any) {
+      console.error('Error saving rate plan:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to save rate plan' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (plan: RatePlan) => {
+    setFormData({
+      name: plan.name,
+      scope: plan.room_id ? 'room' : plan.room_type ? 'type' : 'all',
+      room_id: plan.room_id || '',
+      room_type: plan.room_type || '',
+      base_rate: String(plan.base_rate),
+      weekend_uplift_percent: String(plan.weekend_uplift_percent),
+      min_stay: String(plan.min_stay),
+      is_active: plan.is_active,
+    });
+    setEditingId(plan.id);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (planId: string) => {
+    if (!window.confirm('Are you sure you want to delete this rate plan and its seasons? Existing bookings keep their prices.')) {
+      return;
+    }
+
+    try {
+      await deleteRatePlan(planId);
+      flashStatus('success', 'Rate plan deleted successfully!');
+      await reload();
+    } catch (err: any) {
+      console.error('Error deleting rate plan:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to delete rate plan' });
+    }
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(emptyForm());
+  };
+
+  const handleAddSeason = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!seasonPlanId) return;
+
+    const nightlyRate = parseFloat(seasonData.nightly_rate);
+    if (!seasonData.name.trim() || !seasonData.start_date || !seasonData.end_date) {
+      setStatus({ type: 'error', message: 'Season name and dates are required' });
+      return;
+    }
+    if (seasonData.end_date < seasonData.start_date) {
+      setStatus({ type: 'error', message: 'Season end date cannot be before its start date' });
+      return;
+    }
+    if (isNaN(nightlyRate) || nightlyRate < 0) {
+      setStatus({ type: 'error', message: 'Season rate must be zero or more' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await saveRateSeason({
+        rate_plan_id: seasonPlanId,
+        name: seasonData.name,
+        start_date: seasonData.start_date,
+        end_date: seasonData.end_date,
+        nightly_rate: nightlyRate,
+        min_stay: parseInt(seasonData.min_stay) || null,
+      });
+      flashStatus('success', 'Season added successfully!');
+      setSeasonData(emptySeason());
+      await reload();
+    } catch (err: any) {
+      console.error('Error saving season:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to save season' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteSeason = async (seasonId: string) => {
+    if (!window.confirm('Are you sure you want to delete this season?')) {
+      return;
+    }
+
+    try {
+      await deleteRateSeason(seasonId);
+      flashStatus('success', 'Season deleted successfully!');
+      await reload();
+    } catch (err: any) {
+      console.error('Error deleting season:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to delete season' });
+    }
+  };
+
+  if (!can('settings.manage')) {
+    return null;
+  }
+
+  const seasonPlan = ratePlans.find((p) => p.id === seasonPlanId);
+
+  return (
+    <div className="card bg-base-100 shadow-lg">
+      <div className="card-body">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="card-title text-2xl font-bold text-emerald-700 flex items-center gap-2">
+            <span>💲</span> Rate Plans
+          </h2>
+          {!showForm && (
+            <button onClick={() => setShowForm(true)} className="btn btn-sm btn-emerald gap-1">
+              <Plus size={18} />
+              Add Plan
+            </button>
+          )}
+        </div>
+
+        {/* Status Messages */}
+        {status.type !== 'idle' && (
+          <div className={`alert alert-${status.type === 'success' ? 'success' : 'error'} mb-4 flex items-center gap-2`}>
+            {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+            <span>{status.message}</span>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 mb-4">
+          A room's own plan wins over its room type's plan, which wins over an all-rooms plan. Weekend uplift applies to
+          Friday and Saturday nights.
+        </p>
+
+        {/* Add/Edit Form */}
+        {showForm && (
+          <div className="mb-6 p-4 border-2 border-emerald-300 rounded-lg bg-emerald-50">
+            <h3 className="font-bold text-lg mb-4">{editingId ? 'Edit Rate Plan' : 'Add New Rate Plan'}</h3>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Name *</span>
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="e.g., Cottage Standard Rate"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                    required
+                  />
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Applies To</span>
+                  </label>
+                  <select
+                    value={formData.scope}
+                    onChange={(e) => setFormData({ ...formData, scope: e.target.value as RatePlanForm['scope'] })}
+                    className="select select-bordered focus:outline-none"
+                  >
+                    <option value="room">One room</option>
+                    <option value="type">A room type</option>
+                    <option value="all">All rooms</option>
+                  </select>
+                </div>
+                {formData.scope === 'room' && (
+                  <div className="form-control">
+                    <label className="label">
+                      <span className="label-text font-semibold">Room *</span>
+                    </label>
+                    <select
+                      value={formData.room_id}
+                      onChange={(e) => setFormData({ ...formData, room_id: e.target.value })}
+                      className="select select-bordered focus:outline-none"
+                    >
+                      <option value="">Select room</option>
+                      {rooms.map((room) => (
+                        <option key={room.id} value={room.id}>
+                          {room.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {formData.scope === 'type' && (
+                  <div className="form-control">
+                    <label className="label">
+                      <span className="label-text font-semibold">Room Type *</span>
+                    </label>
+                    <select
+                      value={formData.room_type}
+                      onChange={(e) => setFormData({ ...formData, room_type: e.target.value })}
+                      className="select select-bordered focus:outline-none"
+                    >
+                      <option value="">Select type</option>
+                      {roomTypes.map((type) => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Base Rate per Night (৳) *</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.base_rate}
+                    onChange={(e) => setFormData({ ...formData, base_rate: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                    required
+                  />
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Weekend Uplift (%)</span>
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formData.weekend_uplift_percent}
+                    onChange={(e) => setFormData({ ...formData, weekend_uplift_percent: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                  />
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Minimum Stay (nights)</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.min_stay}
+                    onChange={(e) => setFormData({ ...formData, min_stay: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                  />
+                </div>
+              </div>
+
+              <label className="label cursor-pointer justify-start gap-3">
+                <input
+                  type="checkbox"
+                  className="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                />
+                <span className="label-text">Active</span>
+              </label>
+
+              <div className="flex gap-2">
+                <button type="submit" disabled={loading} className="btn btn-emerald flex-1 gap-2">
+                  {loading ? (
+                    <>
+                      <Loader size={18} className="animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Plus size={18} />
+                      {editingId ? 'Update Plan' : 'Add Plan'}
+                    </>
+                  )}
+                </button>
+                <button type="button" onClick={handleCancel} className="btn btn-ghost flex-1">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Plans List */}
+        <div className="overflow-x-auto">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr className="bg-emerald-100">
+                <th className="font-bold text-emerald-900">Plan</th>
+                <th className="font-bold text-emerald-900">Base Rate</th>
+                <th className="font-bold text-emerald-900">Weekend</th>
+                <th className="font-bold text-emerald-900">Min Stay</th>
+                <th className="font-bold text-emerald-900">Seasons</th>
+                <th className="font-bold text-emerald-900 text-center">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ratePlans.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-8 text-gray-500">
+                    No rate plans yet. Prices are entered by hand until one is added.
+                  </td>
+                </tr>
+              ) : (
+                ratePlans.map((plan) => (
+                  <tr key={plan.id} className={`hover:bg-emerald-50 ${plan.is_active ? '' : 'opacity-60'}`}>
+                    <td>
+                      <p className="font-semibold text-gray-800">{plan.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {describeScope(plan)}
+                        {!plan.is_active && ' • Inactive'}
+                      </p>
+                    </td>
+                    <td>৳{plan.base_rate.toLocaleString()}</td>
+                    <td>{plan.weekend_uplift_percent ? `+${plan.weekend_uplift_percent}%` : '-'}</td>
+                    <td>
+                      {plan.min_stay} night{plan.min_stay !== 1 ? 's' : ''}
+                    </td>
+                    <td>
+                      <button
+                        onClick={() => {
+                          setSeasonPlanId(seasonPlanId === plan.id ? null : plan.id);
+                          setSeasonData(emptySeason());
+                        }}
+                        className="btn btn-ghost btn-xs gap-1"
+                        title="Manage seasons"
+                      >
+                        <CalendarRange size={14} />
+                        {(plan.seasons || []).length}
+                      </button>
+                    </td>
+                    <td className="text-center">
+                      <div className="flex justify-center gap-2">
+                        <button onClick={() => handleEdit(plan)} className="btn btn-ghost btn-sm gap-1" title="Edit plan">
+                          <Edit2 size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(plan.id)}
+                          className="btn btn-ghost btn-sm gap-1 text-red-600 hover:bg-red-100"
+                          title="Delete plan"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Seasons of the selected plan */}
+        {seasonPlan && (
+          <div className="mt-6 p-4 border-2 border-blue-200 rounded-lg bg-blue-50">
+            <h3 className="font-bold text-lg mb-3">Seasons - {seasonPlan.name}</h3>
+
+            {(seasonPlan.seasons || []).length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">No seasons. Every night is charged at the base rate.</p>
+            ) : (
+              <ul className="mb-4 divide-y divide-blue-100">
+                {[...(seasonPlan.seasons || [])]
+                  .sort((a, b) => a.start_date.localeCompare(b.start_date))
+                  .map((season) => (
+                    <li key={season.id} className="flex items-center justify-between py-2 text-sm">
+                      <div>
+                        <p className="font-semibold text-gray-800">
+                          {season.name} • ৳{season.nightly_rate.toLocaleString()}/night
+                        </p>
+                        <p className="text-xs text-gray-600">
+                          {formatDateDisplay(season.start_date)} - {formatDateDisplay(season.end_date)}
+                          {season.min_stay ? ` • min ${season.min_stay} nights` : ''}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleDeleteSeason(season.id)}
+                        className="btn btn-ghost btn-sm text-red-600 hover:bg-red-100"
+                        title="Delete season"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </li>
+                  ))}
+              </ul>
+            )}
+
+            <form onSubmit={handleAddSeason} className="grid grid-cols-1 sm:grid-cols-5 gap-2 items-end">
+              <input
+                type="text"
+                placeholder="e.g., Eid Holidays"
+                value={seasonData.name}
+                onChange={(e) => setSeasonData({ ...seasonData, name: e.target.value })}
+                className="input input-bordered input-sm focus:outline-none"
+              />
+              <input
+                type="date"
+                value={seasonData.start_date}
+                onChange={(e) => setSeasonData({ ...seasonData, start_date: e.target.value })}
+                className="input input-bordered input-sm focus:outline-none"
+                title="First night"
+              />
+              <input
+                type="date"
+                value={seasonData.end_date}
+                onChange={(e) => setSeasonData({ ...seasonData, end_date: e.target.value })}
+                className="input input-bordered input-sm focus:outline-none"
+                title="Last night"
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Rate/night"
+                value={seasonData.nightly_rate}
+                onChange={(e) => setSeasonData({ ...seasonData, nightly_rate: e.target.value })}
+                className="input input-bordered input-sm focus:outline-none"
+              />
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  placeholder="Min nights"
+                  value={seasonData.min_stay}
+                  onChange={(e) => setSeasonData({ ...seasonData, min_stay: e.target.value })}
+                  className="input input-bordered input-sm w-full focus:outline-none"
+                />
+                <button type="submit" disabled={loading} className="btn btn-sm btn-emerald" title="Add season">
+                  <Plus size={16} />
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RatePlanManager;
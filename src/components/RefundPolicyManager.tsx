@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { RefundPolicy } from '../types';
+import { Plus, Trash2, Edit2, AlertCircle, CheckCircle, Loader } from 'lucide-react';
+import useAuth from '../hooks/useAuth';
+import { useRefundPolicies } from '../hooks/useRefundPolicies';
+import { saveRefundPolicy, deleteRefundPolicy } from '../services/refundPolicyService';
+import { describeRefundTier, getRefundTiers } from '../utils/calculationUtils';
+
+interface PolicyForm {
+  policy_name: string;
+  days_before_checkin: string;
+  refund_percentage: string;
+  description: string;
+  is_custom: boolean;
+}
+
+interface RefundPolicyManagerProps {
+  refresh?: number;
+}
+
+const emptyForm: PolicyForm = {
+  policy_name: '',
+  days_before_checkin: '',
+  refund_percentage: '',
+  description: '',
+  is_custom: false,
+};
+
+const RefundPolicyManager: React.FC<RefundPolicyManagerProps> = ({ refresh }) => {
+  const { can } = useAuth();
+  const { policies, reload } = useRefundPolicies(refresh);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<{
+    type: 'idle' | 'loading' | 'success' | 'error';
+    message: string;
+  }>({ type: 'idle', message: '' });
+  const [formData, setFormData] = useState<PolicyForm>(emptyForm);
+
+  // Built-in fallback tiers are shown but cannot be edited until saved to the table
+  const isStored = (policy: RefundPolicy) => !policy.id.startsWith('default-');
+  const tiers = getRefundTiers(policies);
+
+  const flashStatus = (type: 'success' | 'error', message: string) => {
+    setStatus({ type, message });
+    setTimeout(() => {
+      setStatus({ type: 'idle', message: '' });
+    }, 3000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.policy_name.trim()) {
+      setStatus({ type: 'error', message: 'Policy name is required' });
+      return;
+    }
+
+    const days = parseInt(formData.days_before_checkin);
+    const percentage = parseFloat(formData.refund_percentage);
+    if (!formData.is_custom && (isNaN(days) || days < 0 || isNaN(percentage) || percentage < 0 || percentage > 100)) {
+      setStatus({ type: 'error', message: 'Days must be 0 or more and refund between 0 and 100%' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await saveRefundPolicy(
+        {
+          policy_name: formData.policy_name,
+          days_before_checkin: formData.is_custom ? undefined : days,
+          refund_percentage: formData.is_custom ? undefined : percentage,
+          description: formData.description || undefined,
+          is_custom: formData.is_custom,
+        },
+        editingId || undefined
+      );
+
+      flashStatus('success', editingId ? 'Policy updated successfully!' : 'Policy added successfully!');
+      handleCancel();
+      await reload();
+    } catch (err: any) {
+      console.error('Error saving refund policy:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to save policy' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (policy: RefundPolicy) => {
+    setFormData({
+      policy_name: policy.policy_name,
+      days_before_checkin: policy.days_before_checkin != null ? String(policy.days_before_checkin) : '',
+      refund_percentage: policy.refund_percentage != null ? String(policy.refund_percentage) : '',
+      description: policy.description || '',
+      is_custom: policy.is_custom,
+    });
+    setEditingId(policy.id);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (policyId: string) => {
+    if (!window.confirm('Are you sure you want to delete this refund policy?')) {
+      return;
+    }
+
+    try {
+      await deleteRefundPolicy(policyId);
+      flashStatus('success', 'Policy deleted successfully!');
+      await reload();
+    } catch (err: any) {
+      console.error('Error deleting refund policy:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to delete policy' });
+    }
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(emptyForm);
+  };
+
+  if (!can('settings.manage')) {
+    return null;
+  }
+
+  return (
+    <div className="card bg-base-100 shadow-lg">
+      <div className="card-body">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="card-title text-2xl font-bold text-emerald-700 flex items-center gap-2">
+            <span>↪️</span> Refund Policies
+          </h2>
+          {!showForm && (
+            <button onClick={() => setShowForm(true)} className="btn btn-sm btn-emerald gap-1">
+              <Plus size={18} />
+              Add Policy
+            </button>
+          )}
+        </div>
+
+        {/* Status Messages */}
+        {status.type !== 'idle' && (
+          <div className={`alert alert-${status.type === 'success' ? 'success' : 'error'} mb-4 flex items-center gap-2`}>
+            {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+            <span>{status.message}</span>
+          </div>
+        )}
+
+        {/* Active policy preview - same wording guests see in confirmations and invoices */}
+        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm font-semibold text-blue-900 mb-1">Active Policy</p>
+          <ul className="text-sm text-blue-800 list-disc ml-5">
+            {tiers.map((tier, idx) => (
+              <li key={tier.id}>{describeRefundTier(tiers, idx)}</li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Add/Edit Form */}
+        {showForm && (
+          <div className="mb-6 p-4 border-2 border-emerald-300 rounded-lg bg-emerald-50">
+            <h3 className="font-bold text-lg mb-4">{editingId ? 'Edit Policy' : 'Add New Policy'}</h3>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-semibold">Policy Name *</span>
+                </label>
+                <input
+                  type="text"
+                  placeholder="e.g., Premium Cancellation"
+                  value={formData.policy_name}
+                  onChange={(e) => setFormData({ ...formData, policy_name: e.target.value })}
+                  className="input input-bordered input-emerald focus:outline-none"
+                  required
+                />
+              </div>
+
+              <label className="label cursor-pointer justify-start gap-3">
+                <input
+                  type="checkbox"
+                  className="checkbox"
+                  checked={formData.is_custom}
+                  onChange={(e) => setFormData({ ...formData, is_custom: e.target.checked })}
+                />
+                <span className="label-text">Custom (negotiated) refund - no fixed tier</span>
+              </label>
+
+              {!formData.is_custom && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="form-control">
+                    <label className="label">
+                      <span className="label-text font-semibold">Cancelled at least (days before check-in) *</span>
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.days_before_checkin}
+                      onChange={(e) => setFormData({ ...formData, days_before_checkin: e.target.value })}
+                      className="input input-bordered input-emerald focus:outline-none"
+                      required
+                    />
+                  </div>
+                  <div className="form-control">
+                    <label className="label">
+                      <span className="label-text font-semibold">Refund (% of advance) *</span>
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={formData.refund_percentage}
+                      onChange={(e) => setFormData({ ...formData, refund_percentage: e.target.value })}
+                      className="input input-bordered input-emerald focus:outline-none"
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-semibold">Description</span>
+                </label>
+                <input
+                  type="text"
+                  placeholder="e.g., Allows property to rebook the room"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="input input-bordered input-emerald focus:outline-none"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <button type="submit" disabled={loading} className="btn btn-emerald flex-1 gap-2">
+                  {loading ? (
+                    <>
+                      <Loader size={18} className="animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Plus size={18} />
+                      {editingId ? 'Update Policy' : 'Add Policy'}
+                    </>
+                  )}
+                </button>
+                <button type="button" onClick={handleCancel} className="btn btn-ghost flex-1">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Policies List */}
+        <div className="overflow-x-auto">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr className="bg-emerald-100">
+                <th className="font-bold text-emerald-900">Policy</th>
+                <th className="font-bold text-emerald-900">Days Before Check-in</th>
+                <th className="font-bold text-emerald-900">Refund</th>
+                <th className="font-bold text-emerald-900 text-center">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {policies.map((policy) => (
+                <tr key={policy.id} className="hover:bg-emerald-50">
+                  <td>
+                    <p className="font-semibold text-gray-800">{policy.policy_name}</p>
+                    {policy.description && <p className="text-xs text-gray-500">{policy.description}</p>}
+                  </td>
+                  <td>{policy.is_custom ? <span className="badge badge-outline">Custom</span> : `${policy.days_before_checkin}+`}</td>
+                  <td>{policy.is_custom ? '-' : `${policy.refund_percentage}%`}</td>
+                  <td className="text-center">
+                    {isStored(policy) ? (
+                      <div className="flex justify-center gap-2">
+                        <button onClick={() => handleEdit(policy)} className="btn btn-ghost btn-sm gap-1" title="Edit policy">
+                          <Edit2 size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(policy.id)}
+                          className="btn btn-ghost btn-sm gap-1 text-red-600 hover:bg-red-100"
+                          title="Delete policy"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-gray-500">Built-in</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RefundPolicyManager;
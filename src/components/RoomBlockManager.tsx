@@ -0,0 +1,366 @@
+import React, { useEffect, useState } from 'react';
+import supabase from '../services/supabaseClient';
+import { Expense, Room, RoomBlock } from '../types';
+import { Plus, Trash2, Edit2, AlertCircle, CheckCircle, Loader, Wrench } from 'lucide-react';
+import useAuth from '../hooks/useAuth';
+import {
+  addRoomBlock,
+  deleteRoomBlock,
+  fetchMaintenanceExpenses,
+  fetchRoomBlocks,
+  updateRoomBlock,
+} from '../services/roomBlockService';
+import { addDays, calculateNights, formatDate, formatDateDisplay } from '../utils/bookingUtils';
+
+interface RoomBlockForm {
+  room_id: string;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  expense_id: string;
+}
+
+interface RoomBlockManagerProps {
+  refresh?: number;
+  onBlocksChanged?: () => void;
+}
+
+const emptyForm = (): RoomBlockForm => {
+  const today = formatDate(new Date());
+  return { room_id: '', start_date: today, end_date: addDays(today, 1), reason: '', expense_id: '' };
+};
+
+// Out-of-order and maintenance blocks that are in force now or coming up
+const RoomBlockManager: React.FC<RoomBlockManagerProps> = ({ refresh, onBlocksChanged }) => {
+  const { can } = useAuth();
+  const [blocks, setBlocks] = useState<RoomBlock[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<{
+    type: 'idle' | 'loading' | 'success' | 'error';
+    message: string;
+  }>({ type: 'idle', message: '' });
+  const [formData, setFormData] = useState<RoomBlockForm>(emptyForm);
+  const today = formatDate(new Date());
+
+  useEffect(() => {
+    if (can('rooms.manage')) fetchData();
+  }, [refresh]);
+
+  const fetchData = async () => {
+    try {
+      const [blocksData, roomsRes, expensesData] = await Promise.all([
+        fetchRoomBlocks(formatDate(new Date())),
+        supabase.from('rooms').select('*').order('name', { ascending: true }),
+        fetchMaintenanceExpenses(),
+      ]);
+      if (roomsRes.error) throw roomsRes.error;
+
+      setBlocks(blocksData);
+      setRooms(roomsRes.data || []);
+      setExpenses(expensesData);
+    } catch (err) {
+      console.error('Error fetching room blocks:', err);
+      setStatus({ type: 'error', message: 'Failed to fetch room blocks' });
+    }
+  };
+
+  const flashStatus = (type: 'success' | 'error', message: string) => {
+    setStatus({ type, message });
+    setTimeout(() => {
+      setStatus({ type: 'idle', message: '' });
+    }, 3000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.room_id) {
+      setStatus({ type: 'error', message: 'Choose the room to take out of service' });
+      return;
+    }
+
+    if (!formData.reason.trim()) {
+      setStatus({ type: 'error', message: 'Reason is required' });
+      return;
+    }
+
+    if (formData.end_date <= formData.start_date) {
+      setStatus({ type: 'error', message: 'Back in service date must be after the start date' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const block = {
+        room_id: formData.room_id,
+        start_date: formData.start_date,
+        end_date: formData.end_date,
+        reason: formData.reason,
+        expense_id: formData.expense_id || null,
+      };
+      if (editingId) {
+        await updateRoomBlock(editingId, block);
+      } else {
+        await addRoomBlock(block);
+      }
+
+      flashStatus('success', editingId ? 'Block updated successfully!' : 'Room taken out of service');
+      handleCancel();
+      await fetchData();
+      onBlocksChanged?.();
+    } catch (err: any) {
+      console.error('Error saving room block:', err);
+      setStatus({
+        type: 'error',
+        message: [err.message || 'Failed to save block', err.hint].filter(Boolean).join('. '),
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (block: RoomBlock) => {
+    setFormData({
+      room_id: block.room_id,
+      start_date: block.start_date.slice(0, 10),
+      end_date: block.end_date.slice(0, 10),
+      reason: block.reason,
+      expense_id: block.expense_id || '',
+    });
+    setEditingId(block.id);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (blockId: string) => {
+    if (!window.confirm('Remove this block? The room becomes bookable again for its dates.')) {
+      return;
+    }
+
+    try {
+      await deleteRoomBlock(blockId);
+      flashStatus('success', 'Block removed');
+      await fetchData();
+      onBlocksChanged?.();
+    } catch (err: any) {
+      console.error('Error deleting room block:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to remove block' });
+    }
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(emptyForm());
+  };
+
+  if (!can('rooms.manage')) {
+    return null;
+  }
+
+  const roomName = (roomId: string) => rooms.find((r) => r.id === roomId)?.name || 'Room';
+  const findExpense = (expenseId?: string | null) => expenses.find((e) => e.id === expenseId);
+
+  return (
+    <div className="card bg-base-100 shadow-lg">
+      <div className="card-body">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="card-title text-2xl font-bold text-emerald-700 flex items-center gap-2">
+            <span>🛠️</span> Out of Service
+          </h2>
+          {!showForm && (
+            <button onClick={() => setShowForm(true)} className="btn btn-sm btn-emerald gap-1">
+              <Plus size={18} />
+              Block Room
+            </button>
+          )}
+        </div>
+
+        {/* Status Messages */}
+        {status.type !== 'idle' && (
+          <div className={`alert alert-${status.type === 'success' ? 'success' : 'error'} mb-4 flex items-center gap-2`}>
+            {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+            <span>{status.message}</span>
+          </div>
+        )}
+
+        {/* Add/Edit Form */}
+        {showForm && (
+          <div className="mb-6 p-4 border-2 border-emerald-300 rounded-lg bg-emerald-50">
+            <h3 className="font-bold text-lg mb-4">{editingId ? 'Edit Block' : 'Take a Room Out of Service'}</h3>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Room *</span>
+                  </label>
+                  <select
+                    value={formData.room_id}
+                    onChange={(e) => setFormData({ ...formData, room_id: e.target.value })}
+                    className="select select-bordered focus:outline-none"
+                    required
+                  >
+                    <option value="">-- Select a Room --</option>
+                    {rooms.map((room) => (
+                      <option key={room.id} value={room.id}>
+                        {room.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Reason *</span>
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="e.g., AC repair"
+                    value={formData.reason}
+                    onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                    required
+                  />
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Out of Service From *</span>
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                    required
+                  />
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Back in Service On *</span>
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.end_date}
+                    min={formData.start_date ? addDays(formData.start_date, 1) : undefined}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                    required
+                  />
+                </div>
+                <div className="form-control sm:col-span-2">
+                  <label className="label">
+                    <span className="label-text font-semibold">Maintenance Expense</span>
+                  </label>
+                  <select
+                    value={formData.expense_id}
+                    onChange={(e) => setFormData({ ...formData, expense_id: e.target.value })}
+                    className="select select-bordered focus:outline-none"
+                  >
+                    <option value="">None</option>
+                    {expenses.map((expense) => (
+                      <option key={expense.id} value={expense.id}>
+                        {formatDateDisplay(expense.expense_date)} - ৳{Number(expense.amount).toLocaleString()}
+                        {expense.description ? ` - ${expense.description}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button type="submit" disabled={loading} className="btn btn-emerald flex-1 gap-2">
+                  {loading ? (
+                    <>
+                      <Loader size={18} className="animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Wrench size={18} />
+                      {editingId ? 'Update Block' : 'Block Room'}
+                    </>
+                  )}
+                </button>
+                <button type="button" onClick={handleCancel} className="btn btn-ghost flex-1">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Blocks List */}
+        <div className="overflow-x-auto">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr className="bg-emerald-100">
+                <th className="font-bold text-emerald-900">Room</th>
+                <th className="font-bold text-emerald-900">Dates</th>
+                <th className="font-bold text-emerald-900">Reason</th>
+                <th className="font-bold text-emerald-900">Expense</th>
+                <th className="font-bold text-emerald-900 text-center">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {blocks.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="text-center py-8 text-gray-500">
+                    Every room is in service
+                  </td>
+                </tr>
+              ) : (
+                blocks.map((block) => {
+                  const expense = findExpense(block.expense_id);
+                  const inForce = block.start_date.slice(0, 10) <= today;
+                  return (
+                    <tr key={block.id} className="hover:bg-emerald-50">
+                      <td>
+                        <p className="font-semibold text-gray-800">{roomName(block.room_id)}</p>
+                        <span className={`badge badge-sm ${inForce ? 'badge-error' : 'badge-ghost'}`}>
+                          {inForce ? 'Out of service' : 'Upcoming'}
+                        </span>
+                      </td>
+                      <td className="text-sm">
+                        {formatDateDisplay(block.start_date)} - {formatDateDisplay(block.end_date)}
+                        <p className="text-xs text-gray-500">{calculateNights(block.start_date, block.end_date)} night(s)</p>
+                      </td>
+                      <td className="text-sm">{block.reason}</td>
+                      <td className="text-sm">
+                        {expense ? (
+                          `৳${Number(expense.amount).toLocaleString()}`
+                        ) : block.expense_id ? (
+                          <span className="text-xs text-gray-500">Linked</span>
+                        ) : (
+                          <span className="text-xs text-gray-400">-</span>
+                        )}
+                      </td>
+                      <td className="text-center">
+                        <div className="flex justify-center gap-2">
+                          <button onClick={() => handleEdit(block)} className="btn btn-ghost btn-sm gap-1" title="Edit block">
+                            <Edit2 size={16} />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(block.id)}
+                            className="btn btn-ghost btn-sm gap-1 text-red-600 hover:bg-red-100"
+                            title="Remove block"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoomBlockManager;
@@ -3,6 +3,7 @@ import supabase from '../services/supabaseClient';
 import { Room } from '../types';
 import { Plus, Trash2, Edit2, AlertCircle, CheckCircle, Loader } from 'lucide-react';
 import useAuth from '../hooks/useAuth';
+import { getHousekeepingBadgeClass, getHousekeepingStatus } from '../utils/housekeeping';
 
 interface RoomForm {
   name: string;
@@ -15,7 +16,7 @@ interface RoomManagerProps {
 }
 
 const RoomManager: React.FC<RoomManagerProps> = ({ refresh }) => {
-  const { isAdmin } = useAuth();
+  const { can } = useAuth();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -211,7 +212,7 @@ const RoomManager: React.FC<RoomManagerProps> = ({ refresh }) => {
     });
   };
 
-  if (!isAdmin) {
+  if (!can('rooms.manage')) {
     return null;
   }
 
@@ -355,13 +356,14 @@ const RoomManager: React.FC<RoomManagerProps> = ({ refresh }) => {
                 <th className="font-bold text-emerald-900">Room Name</th>
                 <th className="font-bold text-emerald-900">Capacity</th>
                 <th className="font-bold text-emerald-900">Type</th>
+                <th className="font-bold text-emerald-900">Housekeeping</th>
                 <th className="font-bold text-emerald-900 text-center">Actions</th>
               </tr>
             </thead>
             <tbody>
               {rooms.length === 0 ? (
                 <tr>
-                  <td colSpan={4} className="text-center py-8 text-gray-500">
+                  <td colSpan={5} className="text-center py-8 text-gray-500">
                     No rooms available. Add one to get started!
                   </td>
                 </tr>
@@ -377,6 +379,11 @@ const RoomManager: React.FC<RoomManagerProps> = ({ refresh }) => {
                     <td>
                       <span className="badge badge-outline text-xs sm:text-sm whitespace-nowrap">{room.type}</span>
                     </td>
+                    <td>
+                      <span className={`px-2 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${getHousekeepingBadgeClass(getHousekeepingStatus(room))}`}>
+                        {getHousekeepingStatus(room)}
+                      </span>
+                    </td>
                     <td className="text-center">
                       <div className="flex justify-center gap-2">
                         <button
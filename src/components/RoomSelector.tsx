@@ -1,15 +1,21 @@
 import React, { useEffect, useState } from 'react';
 import supabase from '../services/supabaseClient';
-import { Room } from '../types';
+import { Room, RoomBlock } from '../types';
+import { OccupancyIndex, getAvailableRooms, isRoomBlocked } from '../utils/availability';
 import { Loader } from 'lucide-react';
 
 interface RoomSelectorProps {
   value: string;
   onChange: (roomId: string) => void;
   disabled?: boolean;
+  // When given with both dates, rooms occupied or blocked during [checkIn, checkOut) are shown as unavailable
+  occupancy?: OccupancyIndex;
+  blocks?: RoomBlock[];
+  checkIn?: string;
+  checkOut?: string;
 }
 
-const RoomSelector: React.FC<RoomSelectorProps> = ({ value, onChange, disabled }) => {
+const RoomSelector: React.FC<RoomSelectorProps> = ({ value, onChange, disabled, occupancy, blocks = [], checkIn, checkOut }) => {
   const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -33,6 +39,11 @@ const RoomSelector: React.FC<RoomSelectorProps> = ({ value, onChange, disabled }
     }
   };
 
+  const hasDates = !!(occupancy && checkIn && checkOut && checkIn < checkOut);
+  const availableRoomIds = new Set(
+    hasDates ? getAvailableRooms(occupancy!, rooms, checkIn!, checkOut!, blocks).map((r) => r.id) : rooms.map((r) => r.id)
+  );
+
   if (loading) {
     return (
       <div className="flex items-center gap-2 text-gray-600">
@@ -52,8 +63,8 @@ const RoomSelector: React.FC<RoomSelectorProps> = ({ value, onChange, disabled }
     >
       <option value="">-- Select a Room --</option>
       {rooms.map((room) => (
-        <option key={room.id} value={room.id}>
-          {room.name} (Capacity: {room.capacity})
+        <option key={room.id} value={room.id} disabled={!availableRoomIds.has(room.id) && room.id !== value}>
+          {room.name} (Capacity: {room.capacity}){!availableRoomIds.has(room.id) ? (isRoomBlocked(blocks, room.id, checkIn!, checkOut!) ? ' - Out of service' : ' - Booked') : ''}
         </option>
       ))}
     </select>
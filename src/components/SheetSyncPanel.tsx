@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { RefreshCw, UploadCloud, AlertCircle, CheckCircle, Loader } from 'lucide-react';
+import useAuth from '../hooks/useAuth';
+import { useSheetSyncStatus } from '../hooks/useSheetSyncStatus';
+import { replaySheetSync, resyncSheet } from '../services/sheetSyncService';
+
+interface SheetSyncPanelProps {
+  refresh?: number;
+}
+
+const SheetSyncPanel: React.FC<SheetSyncPanelProps> = ({ refresh }) => {
+  const { can } = useAuth();
+  const { backlog, reload } = useSheetSyncStatus(refresh);
+  const [running, setRunning] = useState<'replay' | 'resync' | null>(null);
+  const [status, setStatus] = useState<{
+    type: 'idle' | 'loading' | 'success' | 'error';
+    message: string;
+  }>({ type: 'idle', message: '' });
+
+  const pending = backlog.filter((entry) => entry.status === 'pending');
+  const failed = backlog.filter((entry) => entry.status === 'failed');
+
+  const flashStatus = (type: 'success' | 'error', message: string) => {
+    setStatus({ type, message });
+    setTimeout(() => {
+      setStatus({ type: 'idle', message: '' });
+    }, 3000);
+  };
+
+  const handleReplay = async () => {
+    setRunning('replay');
+    try {
+      const result = await replaySheetSync();
+      if (result.failed > 0) {
+        setStatus({ type: 'error', message: `${result.replayed} change(s) written, ${result.failed} still failing` });
+      } else {
+        flashStatus('success', `${result.replayed} change(s) written to the sheet`);
+      }
+    } catch (err: any) {
+      console.error('Error replaying sheet sync:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to replay sheet sync' });
+    } finally {
+      setRunning(null);
+      await reload();
+    }
+  };
+
+  const handleResync = async () => {
+    if (!window.confirm('Rewrite the bookings and expenses tabs of the Google Sheet from the database? Manual edits to the sheet will be lost.')) {
+      return;
+    }
+
+    setRunning('resync');
+    try {
+      const result = await resyncSheet();
+      flashStatus('success', `Sheet rewritten with ${result.rows} row(s)`);
+    } catch (err: any) {
+      console.error('Error resyncing sheet:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to resync sheet' });
+    } finally {
+      setRunning(null);
+      await reload();
+    }
+  };
+
+  if (!can('settings.manage')) {
+    return null;
+  }
+
+  return (
+    <div className="card bg-base-100 shadow-lg">
+      <div className="card-body">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+          <h2 className="card-title text-2xl font-bold text-emerald-700 flex items-center gap-2">
+            <span>📊</span> Google Sheet Sync
+          </h2>
+          <div className="flex gap-2">
+            <button onClick={handleReplay} disabled={running !== null} className="btn btn-sm btn-outline gap-1">
+              {running === 'replay' ? <Loader size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+              Replay Now
+            </button>
+            <button onClick={handleResync} disabled={running !== null} className="btn btn-sm btn-emerald gap-1">
+              {running === 'resync' ? <Loader size={16} className="animate-spin" /> : <UploadCloud size={16} />}
+              Full Resync
+            </button>
+          </div>
+        </div>
+
+        {/* Status Messages */}
+        {status.type !== 'idle' && (
+          <div className={`alert alert-${status.type === 'success' ? 'success' : 'error'} mb-4 flex items-center gap-2`}>
+            {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+            <span>{status.message}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-sm font-semibold text-blue-900">Waiting to Retry</p>
+            <p className="text-2xl font-bold text-blue-800">{pending.length}</p>
+          </div>
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm font-semibold text-red-900">Gave Up</p>
+            <p className="text-2xl font-bold text-red-800">{failed.length}</p>
+          </div>
+        </div>
+
+        {backlog.length === 0 ? (
+          <p className="text-sm text-gray-600">Every booking and expense change has reached the sheet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-compact w-full">
+              <thead>
+                <tr>
+                  <th>Record</th>
+                  <th>Status</th>
+                  <th>Attempts</th>
+                  <th>Next Attempt</th>
+                  <th>Last Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {backlog.map((entry) => (
+                  <tr key={entry.id}>
+                    <td>
+                      <span className="capitalize">{entry.entity}</span>{' '}
+                      <span className="font-mono text-xs">{entry.record_id.slice(0, 8)}</span>
+                    </td>
+                    <td>
+                      <span className={`badge ${entry.status === 'failed' ? 'badge-error' : 'badge-warning'}`}>
+                        {entry.status}
+                      </span>
+                    </td>
+                    <td>{entry.attempts}</td>
+                    <td className="text-sm">
+                      {entry.status === 'pending' ? new Date(entry.next_attempt_at).toLocaleString() : '—'}
+                    </td>
+                    <td className="text-sm text-red-700 max-w-xs truncate" title={entry.last_error}>
+                      {entry.last_error || '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 mt-4">
+          Changes are written by the server as they happen, whether or not anyone has the app open. Failed writes are
+          retried with backoff; records that gave up are corrected by a full resync.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SheetSyncPanel;
@@ -1,7 +1,10 @@
 import React, { useEffect, useState } from 'react';
 import supabase from '../services/supabaseClient';
-import { Booking, Expense, DateRangeType } from '../types';
-import { Users, DollarSign, DoorOpen, Loader, TrendingUp, Calendar, TrendingDown } from 'lucide-react';
+import { Booking, Expense, DateRangeType, Room } from '../types';
+import { Users, DollarSign, DoorOpen, Loader, TrendingUp, Calendar, TrendingDown, BedDouble } from 'lucide-react';
+import { calculateOccupancy, OccupancyStats } from '../utils/availability';
+import { fetchRoomBlocksBetween } from '../services/roomBlockService';
+import { addDays } from '../utils/bookingUtils';
 
 interface StatisticsDashboardProps {
   refresh?: number;
@@ -14,10 +17,12 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
     activeRooms: 0,
     pendingPayment: 0,
     totalVAT: 0,
+    totalServiceCharge: 0,
     totalCheckoutPayable: 0,
     totalRefunds: 0,
     totalExpenses: 0,
     profitLoss: 0,
+    occupancy: { sellableNights: 0, occupiedNights: 0, blockedNights: 0, rate: 0 } as OccupancyStats,
     monthlyBookings: Array(12).fill(0),
     monthLabels: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
   });
@@ -68,6 +73,7 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
       const { data: bookingsData, error: bookingsError } = await supabase
         .from('bookings')
         .select('*, booking_rooms(*)')
+        .is('deleted_at', null)
         .gte('check_in', startDate.toISOString().split('T')[0])
         .lte('check_in', endDate.toISOString().split('T')[0]);
 
@@ -80,6 +86,7 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
       const { data: expensesData, error: expensesError } = await supabase
         .from('expenses')
         .select('*')
+        .is('deleted_at', null)
         .gte('expense_date', startDate.toISOString().split('T')[0])
         .lte('expense_date', endDate.toISOString().split('T')[0]);
 
@@ -88,6 +95,32 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
         throw expensesError;
       }
 
+      // Occupancy counts every stay overlapping the period, not just those checking in during it,
+      // against the rooms' nights less those blocked for maintenance
+      const periodStart = startDate.toISOString().split('T')[0];
+      const periodEnd = addDays(endDate.toISOString().split('T')[0], 1);
+      const [staysRes, roomsRes, periodBlocks] = await Promise.all([
+        supabase
+          .from('bookings')
+          .select('*, booking_rooms(*)')
+          .is('deleted_at', null)
+          .lt('check_in', periodEnd)
+          .gt('check_out', periodStart),
+        supabase.from('rooms').select('*'),
+        fetchRoomBlocksBetween(periodStart, periodEnd),
+      ]);
+
+      if (staysRes.error) throw staysRes.error;
+      if (roomsRes.error) throw roomsRes.error;
+
+      const occupancy = calculateOccupancy(
+        (staysRes.data || []) as Booking[],
+        (roomsRes.data || []) as Room[],
+        periodBlocks,
+        periodStart,
+        periodEnd
+      );
+
       console.log('✅ Fetched bookings:', bookingsData?.length || 0, 'records');
       console.log('✅ Fetched expenses:', expensesData?.length || 0, 'records');
 
@@ -98,6 +131,7 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
       const totalBookings = bookings.length;
       const advanceCollected = bookings.reduce((sum, b) => sum + (b.advance || 0), 0);
       const totalVAT = bookings.reduce((sum, b) => sum + (b.vat_amount || 0), 0);
+      const totalServiceCharge = bookings.reduce((sum, b) => sum + (b.service_charge_amount || 0), 0);
       const totalCheckoutPayable = bookings.reduce((sum, b) => sum + (b.checkout_payable || 0), 0);
       const totalRefunds = bookings.reduce((sum, b) => sum + (b.refund_amount || 0), 0);
       
@@ -120,7 +154,7 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
         const checkOut = new Date(b.check_out);
         const bookingStatus = b.status;
         
-        if (checkIn <= currentNow && currentNow < checkOut && bookingStatus === 'Confirmed') {
+        if (checkIn <= currentNow && currentNow < checkOut && (bookingStatus === 'Confirmed' || bookingStatus === 'Checked-in')) {
           // Booking is currently active
           if (b.room_id) {
             // Single-room booking
@@ -183,10 +217,12 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
         activeRooms,
         pendingPayment,
         totalVAT,
+        totalServiceCharge,
         totalCheckoutPayable,
         totalRefunds,
         totalExpenses,
         profitLoss,
+        occupancy,
         monthlyBookings: monthlyData,
         monthLabels: monthLabelsForRange,
       });
@@ -202,12 +238,14 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
     title,
     value,
     unit = '',
+    note,
     color = 'from-emerald-500 to-teal-600',
   }: {
     icon: React.ReactNode;
     title: string;
     value: string | number;
     unit?: string;
+    note?: string;
     color?: string;
   }) => (
     <div className={`bg-gradient-to-br ${color} rounded-xl shadow-xl p-6 text-white transform transition-all duration-300 hover:scale-105 hover:shadow-2xl cursor-pointer relative overflow-hidden group`}>
@@ -219,6 +257,7 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
             {value}
             {unit && <span className="text-lg ml-1">{unit}</span>}
           </p>
+          {note && <p className="text-xs opacity-80 mt-1">{note}</p>}
         </div>
         <div className="text-5xl opacity-20 group-hover:opacity-30 transition-opacity duration-300">
           {typeof Icon === 'string' ? (
@@ -343,6 +382,16 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
           value={stats.activeRooms}
           color="from-purple-500 to-pink-600"
         />
+        <StatCard
+          icon={<BedDouble size={40} />}
+          title="Occupancy"
+          value={stats.occupancy.rate}
+          unit="%"
+          note={`${stats.occupancy.occupiedNights} of ${stats.occupancy.sellableNights} sellable room-nights${
+            stats.occupancy.blockedNights > 0 ? `, ${stats.occupancy.blockedNights} out of service` : ''
+          }`}
+          color="from-sky-500 to-indigo-600"
+        />
       </div>
 
       {/* New Metrics Row */}
@@ -353,6 +402,14 @@ const StatisticsDashboard: React.FC<StatisticsDashboardProps> = ({ refresh }) =>
           value={`৳ ${(stats.totalVAT)}`}
           color="from-amber-500 to-orange-600"
         />
+        {stats.totalServiceCharge > 0 && (
+          <StatCard
+            icon={<DollarSign size={40} />}
+            title="Total Service Charge"
+            value={`৳ ${(stats.totalServiceCharge)}`}
+            color="from-yellow-500 to-amber-600"
+          />
+        )}
         <StatCard
           icon={<TrendingUp size={40} />}
           title="Total Payable"
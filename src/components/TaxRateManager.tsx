@@ -0,0 +1,351 @@
+import React, { useState } from 'react';
+import { TaxKind, TaxMode, TaxRate } from '../types';
+import { Plus, Trash2, Edit2, AlertCircle, CheckCircle, Loader } from 'lucide-react';
+import useAuth from '../hooks/useAuth';
+import { useTaxRates } from '../hooks/useTaxRates';
+import { saveTaxRate, deleteTaxRate } from '../services/taxRateService';
+import { describeTaxRates, getEffectiveTaxRates } from '../utils/taxUtils';
+
+interface TaxRateForm {
+  name: string;
+  kind: TaxKind;
+  rate: string;
+  mode: TaxMode;
+  effective_from: string;
+  effective_to: string;
+  is_active: boolean;
+}
+
+interface TaxRateManagerProps {
+  refresh?: number;
+}
+
+const emptyForm = (): TaxRateForm => ({
+  name: '',
+  kind: 'vat',
+  rate: '',
+  mode: 'exclusive',
+  effective_from: new Date().toISOString().split('T')[0],
+  effective_to: '',
+  is_active: true,
+});
+
+const TaxRateManager: React.FC<TaxRateManagerProps> = ({ refresh }) => {
+  const { can } = useAuth();
+  const { taxRates, reload } = useTaxRates(refresh);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<{
+    type: 'idle' | 'loading' | 'success' | 'error';
+    message: string;
+  }>({ type: 'idle', message: '' });
+  const [formData, setFormData] = useState<TaxRateForm>(emptyForm);
+
+  // Built-in fallback rate is shown but cannot be edited until a rate is saved to the table
+  const isStored = (rate: TaxRate) => !rate.id.startsWith('default-');
+  const effectiveRates = getEffectiveTaxRates(taxRates);
+
+  const flashStatus = (type: 'success' | 'error', message: string) => {
+    setStatus({ type, message });
+    setTimeout(() => {
+      setStatus({ type: 'idle', message: '' });
+    }, 3000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setStatus({ type: 'error', message: 'Tax name is required' });
+      return;
+    }
+
+    const rate = parseFloat(formData.rate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      setStatus({ type: 'error', message: 'Rate must be between 0 and 100%' });
+      return;
+    }
+
+    if (formData.effective_to && formData.effective_to < formData.effective_from) {
+      setStatus({ type: 'error', message: 'Effective to date cannot be before effective from date' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await saveTaxRate(
+        {
+          name: formData.name,
+          kind: formData.kind,
+          rate,
+          mode: formData.mode,
+          effective_from: formData.effective_from,
+          effective_to: formData.effective_to || null,
+          is_active: formData.is_active,
+        },
+        editingId || undefined
+      );
+
+      flashStatus('success', editingId ? 'Tax rate updated successfully!' : 'Tax rate added successfully!');
+      handleCancel();
+      await reload();
+    } catch (err: any) {
+      console.error('Error saving tax rate:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to save tax rate' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (rate: TaxRate) => {
+    setFormData({
+      name: rate.name,
+      kind: rate.kind,
+      rate: String(rate.rate),
+      mode: rate.mode,
+      effective_from: rate.effective_from.slice(0, 10),
+      effective_to: rate.effective_to ? rate.effective_to.slice(0, 10) : '',
+      is_active: rate.is_active,
+    });
+    setEditingId(rate.id);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (rateId: string) => {
+    if (!window.confirm('Are you sure you want to delete this tax rate? Existing bookings keep the rate they were saved with.')) {
+      return;
+    }
+
+    try {
+      await deleteTaxRate(rateId);
+      flashStatus('success', 'Tax rate deleted successfully!');
+      await reload();
+    } catch (err: any) {
+      console.error('Error deleting tax rate:', err);
+      setStatus({ type: 'error', message: err.message || 'Failed to delete tax rate' });
+    }
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(emptyForm());
+  };
+
+  if (!can('settings.manage')) {
+    return null;
+  }
+
+  return (
+    <div className="card bg-base-100 shadow-lg">
+      <div className="card-body">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="card-title text-2xl font-bold text-emerald-700 flex items-center gap-2">
+            <span>🧾</span> Tax Rates
+          </h2>
+          {!showForm && (
+            <button onClick={() => setShowForm(true)} className="btn btn-sm btn-emerald gap-1">
+              <Plus size={18} />
+              Add Rate
+            </button>
+          )}
+        </div>
+
+        {/* Status Messages */}
+        {status.type !== 'idle' && (
+          <div className={`alert alert-${status.type === 'success' ? 'success' : 'error'} mb-4 flex items-center gap-2`}>
+            {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+            <span>{status.message}</span>
+          </div>
+        )}
+
+        {/* Rates applied to bookings checking in today */}
+        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm font-semibold text-blue-900 mb-1">In Force Today</p>
+          <p className="text-sm text-blue-800">
+            {effectiveRates.length > 0
+              ? [describeTaxRates(effectiveRates, 'vat'), describeTaxRates(effectiveRates, 'service_charge')]
+                  .filter(Boolean)
+                  .join(' + ')
+              : 'No taxes'}
+          </p>
+        </div>
+
+        {/* Add/Edit Form */}
+        {showForm && (
+          <div className="mb-6 p-4 border-2 border-emerald-300 rounded-lg bg-emerald-50">
+            <h3 className="font-bold text-lg mb-4">{editingId ? 'Edit Tax Rate' : 'Add New Tax Rate'}</h3>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Name *</span>
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="e.g., VAT"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                    required
+                  />
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Rate (%) *</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.rate}
+                    onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                    required
+                  />
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Type</span>
+                  </label>
+                  <select
+                    value={formData.kind}
+                    onChange={(e) => setFormData({ ...formData, kind: e.target.value as TaxKind })}
+                    className="select select-bordered focus:outline-none"
+                  >
+                    <option value="vat">VAT</option>
+                    <option value="service_charge">Service Charge</option>
+                  </select>
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Mode</span>
+                  </label>
+                  <select
+                    value={formData.mode}
+                    onChange={(e) => setFormData({ ...formData, mode: e.target.value as TaxMode })}
+                    className="select select-bordered focus:outline-none"
+                  >
+                    <option value="exclusive">Exclusive (added on top of price)</option>
+                    <option value="inclusive">Inclusive (included in price)</option>
+                  </select>
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Effective From *</span>
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.effective_from}
+                    onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                    required
+                  />
+                </div>
+                <div className="form-control">
+                  <label className="label">
+                    <span className="label-text font-semibold">Effective To</span>
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.effective_to}
+                    onChange={(e) => setFormData({ ...formData, effective_to: e.target.value })}
+                    className="input input-bordered input-emerald focus:outline-none"
+                  />
+                </div>
+              </div>
+
+              <label className="label cursor-pointer justify-start gap-3">
+                <input
+                  type="checkbox"
+                  className="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                />
+                <span className="label-text">Active</span>
+              </label>
+
+              <div className="flex gap-2">
+                <button type="submit" disabled={loading} className="btn btn-emerald flex-1 gap-2">
+                  {loading ? (
+                    <>
+                      <Loader size={18} className="animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Plus size={18} />
+                      {editingId ? 'Update Rate' : 'Add Rate'}
+                    </>
+                  )}
+                </button>
+                <button type="button" onClick={handleCancel} className="btn btn-ghost flex-1">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Rates List */}
+        <div className="overflow-x-auto">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr className="bg-emerald-100">
+                <th className="font-bold text-emerald-900">Name</th>
+                <th className="font-bold text-emerald-900">Rate</th>
+                <th className="font-bold text-emerald-900">Effective</th>
+                <th className="font-bold text-emerald-900">Status</th>
+                <th className="font-bold text-emerald-900 text-center">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {taxRates.map((rate) => (
+                <tr key={rate.id} className="hover:bg-emerald-50">
+                  <td>
+                    <p className="font-semibold text-gray-800">{rate.name}</p>
+                    <p className="text-xs text-gray-500">{rate.kind === 'vat' ? 'VAT' : 'Service Charge'}</p>
+                  </td>
+                  <td>
+                    {rate.rate}% <span className="text-xs text-gray-500">{rate.mode}</span>
+                  </td>
+                  <td className="text-sm">
+                    {rate.effective_from.slice(0, 10)} - {rate.effective_to ? rate.effective_to.slice(0, 10) : 'onwards'}
+                  </td>
+                  <td>
+                    <span className={`badge ${rate.is_active ? 'badge-success' : 'badge-ghost'}`}>
+                      {rate.is_active ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="text-center">
+                    {isStored(rate) ? (
+                      <div className="flex justify-center gap-2">
+                        <button onClick={() => handleEdit(rate)} className="btn btn-ghost btn-sm gap-1" title="Edit rate">
+                          <Edit2 size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rate.id)}
+                          className="btn btn-ghost btn-sm gap-1 text-red-600 hover:bg-red-100"
+                          title="Delete rate"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-gray-500">Built-in</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaxRateManager;
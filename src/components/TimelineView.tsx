@@ -1,17 +1,49 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import supabase from '../services/supabaseClient';
-import { Booking, Room } from '../types';
-import { formatDateDisplay } from '../utils/bookingUtils';
-import { Loader, Calendar, Users, DollarSign, FileText } from 'lucide-react';
+import { Booking, Room, RoomBlock, RoomOccupancy } from '../types';
+import { addDays, calculateNights, formatDate, formatDateDisplay } from '../utils/bookingUtils';
+import { buildOccupancyIndex, checkAvailability, describeConflicts, isRoomConflictError } from '../utils/availability';
+import { StayMove, hasSelfOverlap, isMovableBooking, planStayMove } from '../utils/tapeChart';
+import { getBookingGrossTotal } from '../utils/taxUtils';
+import { updateBooking } from '../services/bookingService';
+import { fetchRoomBlocks } from '../services/roomBlockService';
+import { useModal } from '../hooks/useModal';
+import { useTaxRates } from '../hooks/useTaxRates';
+import useAuth from '../hooks/useAuth';
+import { Loader, Calendar, ChevronLeft, ChevronRight, Wrench } from 'lucide-react';
 
 interface TimelineViewProps {
   refresh?: number;
+  onBookingMoved?: () => void;
 }
 
-const TimelineView: React.FC<TimelineViewProps> = ({ refresh }) => {
+// Grid geometry (px) - bars are positioned from these, and drags are snapped back to them
+const CELL_WIDTH = 44;
+const ROW_HEIGHT = 44;
+const ROOM_COLUMN_WIDTH = 128;
+const RANGE_OPTIONS = [14, 30, 60];
+
+interface DragState {
+  stay: RoomOccupancy;
+  mode: 'move' | 'resize';
+  originX: number;
+  originY: number;
+  dayDelta: number;
+  roomDelta: number;
+}
+
+const TimelineView: React.FC<TimelineViewProps> = ({ refresh, onBookingMoved }) => {
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
+  const [blocks, setBlocks] = useState<RoomBlock[]>([]);
   const [loading, setLoading] = useState(true);
+  const [startDate, setStartDate] = useState(() => addDays(formatDate(new Date()), -2));
+  const [days, setDays] = useState(RANGE_OPTIONS[0]);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { showAlert, showConfirm } = useModal();
+  const { can } = useAuth();
+  const { taxRates } = useTaxRates();
 
   useEffect(() => {
     fetchData();
@@ -19,9 +51,10 @@ const TimelineView: React.FC<TimelineViewProps> = ({ refresh }) => {
 
   const fetchData = async () => {
     try {
-      const [bookingsRes, roomsRes] = await Promise.all([
-        supabase.from('bookings').select('*, booking_rooms(*)').neq('status', 'Checked-out').neq('status', 'Cancelled').order('check_in', { ascending: true }),
+      const [bookingsRes, roomsRes, blocksData] = await Promise.all([
+        supabase.from('bookings').select('*, booking_rooms(*)').is('deleted_at', null).neq('status', 'Checked-out').neq('status', 'No-show').neq('status', 'Cancelled').order('check_in', { ascending: true }),
         supabase.from('rooms').select('*').order('name', { ascending: true }),
+        fetchRoomBlocks(),
       ]);
 
       if (bookingsRes.error) throw bookingsRes.error;
@@ -29,6 +62,7 @@ const TimelineView: React.FC<TimelineViewProps> = ({ refresh }) => {
 
       setBookings(bookingsRes.data || []);
       setRooms(roomsRes.data || []);
+      setBlocks(blocksData);
     } catch (err) {
       console.error('Error fetching data:', err);
     } finally {
@@ -36,49 +70,170 @@ const TimelineView: React.FC<TimelineViewProps> = ({ refresh }) => {
     }
   };
 
-  // Group bookings by room (including multi-room bookings from booking_rooms table)
-  const groupedByRoom = rooms.reduce(
-    (acc, room) => {
-      acc[room.id] = bookings.filter((b) => {
-        // Single-room booking
-        if (b.room_id === room.id) return true;
-        // Multi-room booking - check booking_rooms
-        if (b.booking_rooms && b.booking_rooms.length > 0) {
-          return b.booking_rooms.some((br: any) => br.room_id === room.id);
-        }
-        return false;
-      });
-      return acc;
-    },
-    {} as Record<string, Booking[]>
-  );
+  // Stays per room (multi-room bookings appear on every room they use, with each room's own dates)
+  const occupancyIndex = useMemo(() => buildOccupancyIndex(bookings), [bookings]);
+  const dates = useMemo(() => Array.from({ length: days }, (_, i) => addDays(startDate, i)), [startDate, days]);
+  const today = formatDate(new Date());
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'Paid':
+      case 'Checked-in':
         return 'from-green-500 to-emerald-600';
       case 'Confirmed':
         return 'from-blue-500 to-cyan-600';
-      case 'Pending':
+      case 'Tentative':
         return 'from-orange-500 to-amber-600';
       default:
         return 'from-gray-500 to-gray-600';
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'Paid':
-        return 'bg-green-100 text-green-800';
-      case 'Confirmed':
-        return 'bg-blue-100 text-blue-800';
-      case 'Pending':
-        return 'bg-orange-100 text-orange-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
+  // Where the dragged stay would land
+  const getDragTarget = (state: DragState): StayMove => {
+    const { stay } = state;
+    if (state.mode === 'resize') {
+      const nights = calculateNights(stay.check_in, stay.check_out);
+      return {
+        room_id: stay.room_id,
+        check_in: stay.check_in.slice(0, 10),
+        check_out: addDays(stay.check_out, Math.max(state.dayDelta, 1 - nights)),
+      };
+    }
+    const roomIdx = rooms.findIndex((r) => r.id === stay.room_id);
+    const targetRoom = rooms[Math.min(Math.max(roomIdx + state.roomDelta, 0), rooms.length - 1)];
+    return {
+      room_id: targetRoom?.id || stay.room_id,
+      check_in: addDays(stay.check_in, state.dayDelta),
+      check_out: addDays(stay.check_out, state.dayDelta),
+    };
+  };
+
+  // Live conflict check for the drag preview, against the bookings on screen
+  const dragPreview = useMemo(() => {
+    if (!drag) return null;
+    const target = getDragTarget(drag);
+    const plan = planStayMove(drag.stay.booking, drag.stay, target, taxRates);
+    const hasConflict =
+      checkAvailability(buildOccupancyIndex(bookings, drag.stay.booking.id), plan.ranges, blocks).hasConflict ||
+      hasSelfOverlap(plan.ranges) ||
+      !!plan.repriceBlocked;
+    return { target, hasConflict };
+  }, [drag, bookings, rooms, blocks, taxRates]);
+
+  const getBarPosition = (checkIn: string, checkOut: string) => {
+    const startIdx = calculateNights(startDate, checkIn);
+    const endIdx = calculateNights(startDate, checkOut);
+    if (endIdx <= 0 || startIdx >= days) return null;
+    const from = Math.max(startIdx, 0);
+    const to = Math.min(endIdx, days);
+    return { left: from * CELL_WIDTH, width: (to - from) * CELL_WIDTH };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, stay: RoomOccupancy, mode: DragState['mode']) => {
+    if (saving || !can('bookings.manage') || !isMovableBooking(stay.booking)) return;
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setDrag({ stay, mode, originX: e.clientX, originY: e.clientY, dayDelta: 0, roomDelta: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const dayDelta = Math.round((e.clientX - drag.originX) / CELL_WIDTH);
+    const roomDelta = drag.mode === 'move' ? Math.round((e.clientY - drag.originY) / ROW_HEIGHT) : 0;
+    if (dayDelta !== drag.dayDelta || roomDelta !== drag.roomDelta) {
+      setDrag({ ...drag, dayDelta, roomDelta });
     }
   };
 
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const state = drag;
+    setDrag(null);
+    const target = getDragTarget(state);
+    const { stay } = state;
+    if (
+      target.room_id === stay.room_id &&
+      target.check_in === stay.check_in.slice(0, 10) &&
+      target.check_out === stay.check_out.slice(0, 10)
+    ) {
+      return;
+    }
+    commitMove(stay, target);
+  };
+
+  const commitMove = async (stay: RoomOccupancy, target: StayMove) => {
+    const { booking } = stay;
+    const plan = planStayMove(booking, stay, target, taxRates);
+
+    if (plan.repriceBlocked) {
+      showAlert('Cannot Resize', plan.repriceBlocked, 'error');
+      return;
+    }
+
+    if (hasSelfOverlap(plan.ranges)) {
+      showAlert('Room Conflict', `${booking.guest_name}'s booking already uses that room on those nights.`, 'error');
+      return;
+    }
+
+    try {
+      // Re-check against the latest bookings, not just what is on screen
+      const { data: latestBookings, error: fetchError } = await supabase
+        .from('bookings')
+        .select('*, booking_rooms(*)')
+        .is('deleted_at', null)
+        .neq('status', 'Checked-out')
+        .neq('status', 'No-show')
+        .neq('status', 'Cancelled');
+      if (fetchError) throw fetchError;
+      const latestBlocks = await fetchRoomBlocks();
+
+      const conflictCheck = checkAvailability(buildOccupancyIndex(latestBookings || [], booking.id), plan.ranges, latestBlocks);
+      if (conflictCheck.hasConflict) {
+        showAlert(
+          'Room Conflict',
+          `Cannot move this booking:\n${describeConflicts(conflictCheck.conflicts, rooms, conflictCheck.blocked)}`,
+          'error'
+        );
+        setBookings(latestBookings || []);
+        setBlocks(latestBlocks);
+        return;
+      }
+    } catch (err) {
+      console.error('Error checking availability:', err);
+      showAlert('Error', 'Failed to check availability', 'error');
+      return;
+    }
+
+    const roomName = rooms.find((r) => r.id === target.room_id)?.name || 'Room';
+    const priceNote = plan.repriced
+      ? `\n\nStay total: ৳${getBookingGrossTotal(booking).toLocaleString()} → ৳${getBookingGrossTotal(plan.booking).toLocaleString()}`
+      : '';
+
+    showConfirm(
+      'Move Booking',
+      `${booking.guest_name} (${booking.booking_no})\n${roomName}: ${formatDateDisplay(target.check_in)} - ${formatDateDisplay(target.check_out)}${priceNote}`,
+      async () => {
+        setSaving(true);
+        try {
+          await updateBooking(booking.id, plan.booking, plan.rooms);
+          await fetchData();
+          onBookingMoved?.();
+        } catch (err) {
+          console.error('Error moving booking:', err);
+          if (isRoomConflictError(err)) {
+            showAlert('Room Conflict', 'Another booking took that room in the meantime. The calendar has been refreshed.', 'error');
+            await fetchData();
+          } else {
+            showAlert('Error', 'Failed to move booking: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
+          }
+        } finally {
+          setSaving(false);
+        }
+      }
+    );
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center p-12">
@@ -89,76 +244,169 @@ const TimelineView: React.FC<TimelineViewProps> = ({ refresh }) => {
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-6 border border-emerald-100">
-      <div className="flex items-center gap-3 mb-6">
-        <Calendar className="text-emerald-600" size={28} />
-        <h2 className="text-2xl font-bold text-gray-800">Room Occupancy Calendar</h2>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <Calendar className="text-emerald-600" size={28} />
+          <h2 className="text-2xl font-bold text-gray-800">Room Occupancy Calendar</h2>
+          {saving && <Loader size={20} className="animate-spin text-emerald-600" />}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setStartDate(addDays(startDate, -7))} className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200" title="Previous week">
+            <ChevronLeft size={16} />
+          </button>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => e.target.value && setStartDate(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+          />
+          <button onClick={() => setStartDate(addDays(startDate, 7))} className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200" title="Next week">
+            <ChevronRight size={16} />
+          </button>
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+          >
+            {RANGE_OPTIONS.map((n) => (
+              <option key={n} value={n}>{n} days</option>
+            ))}
+          </select>
+        </div>
       </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Drag a confirmed booking to change its room or dates; drag its right edge to shorten or extend the stay.
+        Dashed orange bars are holds, which free their rooms when they expire. Striped grey bars are rooms out of service.
+      </p>
 
       {rooms.length === 0 ? (
         <div className="text-center py-12 text-gray-500">
           <p className="text-lg">No rooms available</p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {rooms.map((room) => (
-            <div key={room.id} className="bg-gradient-to-br from-emerald-50 to-teal-50 rounded-lg border border-emerald-200 p-4">
-              {/* Room Header */}
-              <div className="mb-4 pb-4 border-b border-emerald-300">
-                <h3 className="font-bold text-lg text-gray-800">{room.name}</h3>
-                <p className="text-sm text-gray-600 flex items-center gap-1">
-                  <Users size={14} /> Capacity: {room.capacity} guests
-                </p>
+        <div className="overflow-x-auto border border-emerald-200 rounded-lg select-none">
+          <div style={{ width: ROOM_COLUMN_WIDTH + days * CELL_WIDTH }}>
+            {/* Date header */}
+            <div className="flex bg-emerald-50 border-b border-emerald-200">
+              <div className="sticky left-0 z-20 bg-emerald-50 border-r border-emerald-200 text-xs font-semibold text-gray-700 px-2 py-2" style={{ width: ROOM_COLUMN_WIDTH }}>
+                Room
               </div>
+              {dates.map((date) => {
+                const d = new Date(`${date}T00:00:00Z`);
+                return (
+                  <div
+                    key={date}
+                    className={`text-center text-[10px] leading-tight py-1 border-r border-emerald-100 ${date === today ? 'bg-emerald-200 font-bold' : ''}`}
+                    style={{ width: CELL_WIDTH }}
+                  >
+                    <div className="text-gray-500">{d.toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' })}</div>
+                    <div className="text-gray-800 font-semibold">{d.getUTCDate()}</div>
+                    {(d.getUTCDate() === 1 || date === startDate) && (
+                      <div className="text-emerald-700">{d.toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' })}</div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
 
-              {/* Room Bookings */}
-              <div className="space-y-3 max-h-96 overflow-y-auto">
-                {groupedByRoom[room.id] && groupedByRoom[room.id].length > 0 ? (
-                  groupedByRoom[room.id].map((booking) => {
-                    const checkIn = new Date(booking.check_in);
-                    const checkOut = new Date(booking.check_out);
-                    const nights = Math.ceil(
-                      (checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24)
-                    );
-                    const remarks = booking.remarks ? booking.remarks : 'No remarks';
+            {/* Room rows */}
+            {rooms.map((room) => (
+              <div key={room.id} className="flex border-b border-gray-100">
+                <div
+                  className="sticky left-0 z-20 bg-white border-r border-emerald-200 px-2 flex flex-col justify-center"
+                  style={{ width: ROOM_COLUMN_WIDTH, height: ROW_HEIGHT }}
+                >
+                  <p className="text-sm font-semibold text-gray-800 truncate">{room.name}</p>
+                  <p className="text-[10px] text-gray-500">{room.capacity} guests</p>
+                </div>
+                <div className="relative" style={{ width: days * CELL_WIDTH, height: ROW_HEIGHT }}>
+                  {/* Day cells */}
+                  <div className="absolute inset-0 flex">
+                    {dates.map((date) => (
+                      <div
+                        key={date}
+                        className={`border-r border-gray-100 ${date === today ? 'bg-emerald-50' : ''}`}
+                        style={{ width: CELL_WIDTH }}
+                      />
+                    ))}
+                  </div>
+
+                  {/* Maintenance blocks */}
+                  {blocks
+                    .filter((block) => block.room_id === room.id)
+                    .map((block) => {
+                      const position = getBarPosition(block.start_date, block.end_date);
+                      if (!position) return null;
+                      return (
+                        <div
+                          key={block.id}
+                          className="absolute top-1 bottom-1 rounded-md border border-gray-400 text-gray-700 px-2 flex items-center gap-1 overflow-hidden"
+                          style={{
+                            left: position.left + 1,
+                            width: position.width - 2,
+                            backgroundImage: 'repeating-linear-gradient(45deg, #e5e7eb, #e5e7eb 6px, #d1d5db 6px, #d1d5db 12px)',
+                          }}
+                          title={`Out of service: ${block.reason}\n${formatDateDisplay(block.start_date)} - back in service ${formatDateDisplay(block.end_date)}`}
+                        >
+                          <Wrench size={12} className="flex-shrink-0" />
+                          <span className="text-xs font-semibold truncate">{block.reason}</span>
+                        </div>
+                      );
+                    })}
+
+                  {/* Booking bars */}
+                  {(occupancyIndex.get(room.id) || []).map((stay) => {
+                    const position = getBarPosition(stay.check_in, stay.check_out);
+                    if (!position) return null;
+                    const { booking } = stay;
+                    const movable = can('bookings.manage') && isMovableBooking(booking);
+                    const isDragging = drag?.stay === stay;
+                    const nights = calculateNights(stay.check_in, stay.check_out);
 
                     return (
                       <div
-                        key={booking.id}
-                        className={`bg-gradient-to-r ${getStatusColor(booking.status)} rounded-lg p-3 text-white shadow-md transition hover:shadow-lg`}
+                        key={`${booking.id}-${stay.check_in}`}
+                        onPointerDown={(e) => handlePointerDown(e, stay, 'move')}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={() => setDrag(null)}
+                        className={`absolute top-1 bottom-1 bg-gradient-to-r ${getStatusColor(booking.status)} rounded-md text-white shadow-md px-2 flex items-center overflow-hidden ${
+                          movable ? 'cursor-grab' : 'cursor-default'
+                        } ${isDragging ? 'opacity-40' : ''} ${booking.status === 'Tentative' ? 'border-2 border-dashed border-white' : ''}`}
+                        style={{ left: position.left + 1, width: position.width - 2, touchAction: 'none' }}
+                        title={`${booking.guest_name} (${booking.booking_no})\n${formatDateDisplay(stay.check_in)} - ${formatDateDisplay(stay.check_out)} | ${nights} night(s)\n${
+                          booking.hold_expires_at ? `Hold until ${new Date(booking.hold_expires_at).toLocaleString()}\n` : ''
+                        }${booking.remarks || 'No remarks'}`}
                       >
-                        <div className="flex items-start justify-between gap-2">
-                          <div className="flex-1 min-w-0">
-                            <p className="font-bold text-sm leading-tight">{booking.guest_name}</p>
-                            <p className="text-xs opacity-90 mt-1 flex items-center gap-1">
-                              <Calendar size={12} />
-                              {nights} night(s) | {formatDateDisplay(booking.check_in)} - {formatDateDisplay(booking.check_out)}
-                            </p>
-                            <p className="text-xs opacity-90 mt-1 flex items-center gap-1">
-                              <FileText size={12} />
-                              {remarks}
-                            </p>
-                          </div>
-                          <div className="flex flex-col items-end gap-1">
-                            <span className={`px-2 py-0.5 rounded text-xs font-semibold ${getStatusBadge(booking.status)}`}>
-                              {booking.status === 'Checked-out' ? 'Out' : booking.status.slice(0, 3)}
-                            </span>
-                            <span className="text-xs font-bold flex items-center gap-0.5">
-                              <DollarSign size={12} />
-                              {(booking.price / 1000).toFixed(1)}K
-                            </span>
-                          </div>
-                        </div>
+                        <span className="text-xs font-semibold truncate">{booking.guest_name}</span>
+                        {movable && (
+                          // Move/up events bubble to the bar's handlers
+                          <div
+                            onPointerDown={(e) => handlePointerDown(e, stay, 'resize')}
+                            className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize bg-white bg-opacity-30 hover:bg-opacity-60"
+                          />
+                        )}
                       </div>
                     );
-                  })
-                ) : (
-                  <div className="text-center py-6 text-gray-500">
-                    <p className="text-sm">No active bookings</p>
-                  </div>
-                )}
+                  })}
+
+                  {/* Drop preview */}
+                  {drag && dragPreview && dragPreview.target.room_id === room.id && (() => {
+                    const position = getBarPosition(dragPreview.target.check_in, dragPreview.target.check_out);
+                    if (!position) return null;
+                    return (
+                      <div
+                        className={`absolute top-1 bottom-1 rounded-md border-2 border-dashed pointer-events-none ${
+                          dragPreview.hasConflict ? 'border-red-500 bg-red-200 bg-opacity-60' : 'border-emerald-600 bg-emerald-200 bg-opacity-60'
+                        }`}
+                        style={{ left: position.left + 1, width: position.width - 2 }}
+                      />
+                    );
+                  })()}
+                </div>
               </div>
-            </div>
-          ))}
+            ))}
+          </div>
         </div>
       )}
     </div>
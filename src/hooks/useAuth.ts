@@ -1,14 +1,32 @@
 import { useEffect, useState } from 'react';
 import supabase from '../services/supabaseClient';
-import { User } from '../types';
+import { fetchCurrentStaff } from '../services/staffService';
+import { recordSignIn } from '../services/authService';
+import { StaffMember, User } from '../types';
+import { Permission, hasPermission } from '../utils/permissions';
 
-const ADMIN_EMAIL = import.meta.env.VITE_ADMIN_EMAIL;
+const NOT_STAFF_ERROR = 'This account is not on the staff list. Ask the owner for an invite.';
+
+// Every component calling useAuth shares one staff lookup per signed-in email
+let staffLookup: { email: string; promise: Promise<StaffMember | null> } | null = null;
+
+const loadStaff = (email: string): Promise<StaffMember | null> => {
+    if (staffLookup?.email !== email) {
+        const promise = fetchCurrentStaff(email).catch((err) => {
+            console.error('Staff lookup failed:', err);
+            staffLookup = null;
+            return null;
+        });
+        staffLookup = { email, promise };
+    }
+    return staffLookup.promise;
+};
 
 const useAuth = () => {
     const [user, setUser] = useState<User | null>(null);
+    const [staff, setStaff] = useState<StaffMember | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [isAdmin, setIsAdmin] = useState(false);
 
     useEffect(() => {
         let isMounted = true;
@@ -34,12 +52,14 @@ const useAuth = () => {
                     }
                     
                     if (user) {
+                        const member = await loadStaff(user.email || '');
+                        if (!isMounted) return;
                         setUser({
                             id: user.id,
                             email: user.email || '',
                             user_metadata: user.user_metadata,
                         });
-                        setIsAdmin(user.email === ADMIN_EMAIL);
+                        setStaff(member);
                     }
                     setLoading(false);
                 }
@@ -55,19 +75,24 @@ const useAuth = () => {
 
         const {
             data: { subscription },
-        } = supabase.auth.onAuthStateChange(async (_, session) => {
-            if (isMounted) {
-                if (session?.user) {
+        } = supabase.auth.onAuthStateChange((_, session) => {
+            if (!isMounted) return;
+            if (session?.user) {
+                const sessionUser = session.user;
+                // Deferred: querying Supabase inside this callback can deadlock the auth client
+                setTimeout(async () => {
+                    const member = await loadStaff(sessionUser.email || '');
+                    if (!isMounted) return;
                     setUser({
-                        id: session.user.id,
-                        email: session.user.email || '',
-                        user_metadata: session.user.user_metadata,
+                        id: sessionUser.id,
+                        email: sessionUser.email || '',
+                        user_metadata: sessionUser.user_metadata,
                     });
-                    setIsAdmin(session.user.email === ADMIN_EMAIL);
-                } else {
-                    setUser(null);
-                    setIsAdmin(false);
-                }
+                    setStaff(member);
+                }, 0);
+            } else {
+                setUser(null);
+                setStaff(null);
             }
         });
 
@@ -89,13 +114,19 @@ const useAuth = () => {
                 setError(error.message);
                 return { user: null, error: error.message };
             }
-            if (data.user?.email !== ADMIN_EMAIL) {
+            const member = await loadStaff(data.user?.email || '');
+            if (!member) {
+                // Looked up again next time, in case the owner adds them in the meantime
+                staffLookup = null;
                 await supabase.auth.signOut();
-                setError('Unauthorized. Only admin access allowed.');
-                return { user: null, error: 'Unauthorized access' };
+                setError(NOT_STAFF_ERROR);
+                setLoading(false);
+                return { user: null, error: NOT_STAFF_ERROR };
             }
+            setStaff(member);
+            recordSignIn().catch((err) => console.error('Failed to record sign-in:', err));
             setLoading(false);
-            return { user: data.user, error: null };
+            return { user: data.user, staff: member, error: null };
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Sign in failed';
             setError(message);
@@ -113,8 +144,9 @@ const useAuth = () => {
                 setError(error.message);
                 return { error: error.message };
             }
+            staffLookup = null;
             setUser(null);
-            setIsAdmin(false);
+            setStaff(null);
             setLoading(false);
             return { error: null };
         } catch (err) {
@@ -125,7 +157,9 @@ const useAuth = () => {
         }
     };
 
-    return { user, loading, error, signIn, signOut, isAdmin };
+    const can = (permission: Permission) => hasPermission(staff?.role, permission);
+
+    return { user, staff, loading, error, signIn, signOut, can };
 };
 
 export default useAuth;
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { MessageTemplate } from '../types';
+import { fetchMessageTemplates } from '../services/messageTemplateService';
+import { DEFAULT_MESSAGE_TEMPLATES } from '../utils/templateUtils';
+
+/**
+ * Load the stored message templates. Kinds without a stored template keep the
+ * built-in one, so every kind can always be rendered.
+ */
+export const useMessageTemplates = (refresh?: number) => {
+  const [templates, setTemplates] = useState<MessageTemplate[]>(DEFAULT_MESSAGE_TEMPLATES);
+  const [loading, setLoading] = useState(true);
+
+  const reload = async () => {
+    try {
+      const stored = await fetchMessageTemplates();
+      setTemplates(DEFAULT_MESSAGE_TEMPLATES.map((d) => stored.find((t) => t.kind === d.kind) || d));
+    } catch (err) {
+      console.error('Error fetching message templates:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [refresh]);
+
+  return { templates, loading, reload };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { RatePlan } from '../types';
+import { fetchRatePlans } from '../services/ratePlanService';
+
+/**
+ * Load rate plans with their seasons. With no plans configured the booking form
+ * simply leaves prices for staff to enter.
+ */
+export const useRatePlans = (refresh?: number) => {
+  const [ratePlans, setRatePlans] = useState<RatePlan[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = async () => {
+    try {
+      setRatePlans(await fetchRatePlans());
+    } catch (err) {
+      console.error('Error fetching rate plans:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [refresh]);
+
+  return { ratePlans, loading, reload };
+};
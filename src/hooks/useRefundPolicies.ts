@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { RefundPolicy } from '../types';
+import { fetchRefundPolicies } from '../services/refundPolicyService';
+import { DEFAULT_REFUND_POLICIES } from '../utils/calculationUtils';
+
+/**
+ * Load the active refund policies. Falls back to the built-in tiers until the table
+ * has loaded (or if it is empty) so refunds can always be calculated.
+ */
+export const useRefundPolicies = (refresh?: number) => {
+  const [policies, setPolicies] = useState<RefundPolicy[]>(DEFAULT_REFUND_POLICIES);
+  const [loading, setLoading] = useState(true);
+
+  const reload = async () => {
+    try {
+      const data = await fetchRefundPolicies();
+      setPolicies(data.length > 0 ? data : DEFAULT_REFUND_POLICIES);
+    } catch (err) {
+      console.error('Error fetching refund policies:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [refresh]);
+
+  return { policies, loading, reload };
+};
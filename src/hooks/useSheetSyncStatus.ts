@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { SheetSyncOutboxEntry } from '../types';
+import supabase from '../services/supabaseClient';
+import { fetchSheetSyncBacklog } from '../services/sheetSyncService';
+
+/**
+ * Outbox entries that have not reached the Google Sheet yet, kept live over realtime.
+ * The sync itself runs on the server; this only reports on it.
+ */
+export const useSheetSyncStatus = (refresh?: number) => {
+  const [backlog, setBacklog] = useState<SheetSyncOutboxEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = async () => {
+    try {
+      setBacklog(await fetchSheetSyncBacklog());
+    } catch (err) {
+      console.error('Error fetching sheet sync backlog:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [refresh]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('sheet-sync-outbox')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sheet_sync_outbox' }, () => {
+        reload();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  return { backlog, loading, reload };
+};
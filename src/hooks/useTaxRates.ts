@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { TaxRate } from '../types';
+import { fetchTaxRates } from '../services/taxRateService';
+import { DEFAULT_TAX_RATES } from '../utils/taxUtils';
+
+/**
+ * Load the configured tax rates. Falls back to the built-in 2.5% VAT until the table
+ * has loaded (or if it is empty).
+ */
+export const useTaxRates = (refresh?: number) => {
+  const [taxRates, setTaxRates] = useState<TaxRate[]>(DEFAULT_TAX_RATES);
+  const [loading, setLoading] = useState(true);
+
+  const reload = async () => {
+    try {
+      const data = await fetchTaxRates();
+      setTaxRates(data.length > 0 ? data : DEFAULT_TAX_RATES);
+    } catch (err) {
+      console.error('Error fetching tax rates:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [refresh]);
+
+  return { taxRates, loading, reload };
+};
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import supabase from '../services/supabaseClient';
+import { fetchMatchedWaitlistCount } from '../services/waitlistService';
+
+/**
+ * How many waitlist entries have a room free for them, kept live over realtime.
+ * Matches are made in the database when a booking releases rooms.
+ */
+export const useWaitlistMatches = (enabled: boolean = true) => {
+  const [matched, setMatched] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const reload = async () => {
+      try {
+        setMatched(await fetchMatchedWaitlistCount());
+      } catch (err) {
+        console.error('Error fetching waitlist matches:', err);
+      }
+    };
+    reload();
+
+    const channel = supabase
+      .channel('waitlist-matches')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'waitlist' }, () => {
+        reload();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled]);
+
+  return matched;
+};
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { Activity as ActivityIcon, Loader, ChevronDown, ChevronRight } from 'lucide-react';
+import { AuditAction, AuditEntity, AuditLogEntry } from '../types';
+import { AUDIT_PAGE_SIZE, AuditFilters, fetchAuditLog } from '../services/auditService';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, describeAuditRecord, getAuditChanges, formatAuditField } from '../utils/auditUtils';
+import AuditChanges from '../components/AuditChanges';
+
+const actionBadge = (action: AuditAction) =>
+  action === 'insert' ? 'bg-green-100 text-green-800' :
+  action === 'delete' ? 'bg-red-100 text-red-800' :
+  'bg-blue-100 text-blue-800';
+
+// Short summary for the collapsed row: which fields an update touched
+const summarizeEntry = (entry: AuditLogEntry): string => {
+  if (entry.action !== 'update') return '';
+  const fields = getAuditChanges(entry).map((change) => formatAuditField(change.field));
+  return fields.length > 3 ? `${fields.slice(0, 3).join(', ')} +${fields.length - 3} more` : fields.join(', ');
+};
+
+export default function ActivityPage() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [currentPage, setCurrentPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const totalPages = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+
+  useEffect(() => {
+    const loadActivity = async () => {
+      setLoading(true);
+      try {
+        const result = await fetchAuditLog(filters, currentPage);
+        setEntries(result.entries);
+        setTotal(result.total);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching activity:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load activity');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadActivity();
+  }, [filters, currentPage]);
+
+  const updateFilter = (changes: Partial<AuditFilters>) => {
+    setFilters({ ...filters, ...changes });
+    setCurrentPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-emerald-50 to-slate-100 p-6 rounded-2xl shadow-lg">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+          <ActivityIcon className="text-emerald-600" /> Activity
+        </h1>
+        <p className="text-slate-600">Every change to bookings, expenses and rooms, and who made it</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <span className="text-red-800">Error: {error}</span>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4 mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+        <select
+          value={filters.entity || ''}
+          onChange={(e) => updateFilter({ entity: (e.target.value || undefined) as AuditEntity | undefined })}
+          className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+        >
+          <option value="">All records</option>
+          {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map((entity) => (
+            <option key={entity} value={entity}>
+              {AUDIT_ENTITY_LABELS[entity]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.action || ''}
+          onChange={(e) => updateFilter({ action: (e.target.value || undefined) as AuditAction | undefined })}
+          className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+        >
+          <option value="">All actions</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+            <option key={action} value={action}>
+              {AUDIT_ACTION_LABELS[action]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Staff email..."
+          value={filters.actor || ''}
+          onChange={(e) => updateFilter({ actor: e.target.value || undefined })}
+          className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+        />
+        <input
+          type="date"
+          value={filters.from || ''}
+          onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+          className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+          title="From"
+        />
+        <input
+          type="date"
+          value={filters.to || ''}
+          onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+          className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+          title="To"
+        />
+      </div>
+
+      {/* Activity Table */}
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="flex justify-center items-center p-8">
+            <Loader size={32} className="animate-spin text-emerald-600" />
+            <span className="ml-2 text-gray-700">Loading activity...</span>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-emerald-50 border-b border-emerald-200">
+                <th className="px-4 py-3 w-8"></th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">When</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Who</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Action</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Record</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Fields</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-8 text-gray-500">
+                    No activity found
+                  </td>
+                </tr>
+              ) : (
+                entries.map((entry) => {
+                  const expanded = expandedId === entry.id;
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr
+                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                        className="border-b border-gray-100 hover:bg-emerald-50 cursor-pointer"
+                      >
+                        <td className="px-4 py-3 text-gray-400">
+                          {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                        </td>
+                        <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{new Date(entry.occurred_at).toLocaleString()}</td>
+                        <td className="px-4 py-3 text-gray-700">{entry.actor_email}</td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-0.5 rounded text-xs font-bold ${actionBadge(entry.action)}`}>
+                            {AUDIT_ACTION_LABELS[entry.action]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 font-medium text-gray-900">{describeAuditRecord(entry)}</td>
+                        <td className="px-4 py-3 text-gray-600">{summarizeEntry(entry)}</td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-slate-50 border-b border-gray-100">
+                          <td></td>
+                          <td colSpan={5} className="px-4 py-3">
+                            <AuditChanges entry={entry} />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="bg-slate-50 border-t border-slate-200 px-6 py-4 flex items-center justify-between">
+            <p className="text-sm text-slate-600">
+              Page {currentPage} of {totalPages} ({total} changes)
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                disabled={currentPage === 1}
+                className="px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed transition"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                disabled={currentPage === totalPages}
+                className="px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed transition"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
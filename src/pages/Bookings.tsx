@@ -4,9 +4,17 @@ import BookingList from '../components/BookingList';
 import StatisticsDashboard from '../components/StatisticsDashboard';
 import TimelineView from '../components/TimelineView';
 import RoomManager from '../components/RoomManager';
+import RoomBlockManager from '../components/RoomBlockManager';
+import RefundPolicyManager from '../components/RefundPolicyManager';
+import TaxRateManager from '../components/TaxRateManager';
+import RatePlanManager from '../components/RatePlanManager';
+import MessageTemplateManager from '../components/MessageTemplateManager';
+import SheetSyncPanel from '../components/SheetSyncPanel';
+import useAuth from '../hooks/useAuth';
 import { BarChart3, Plus } from 'lucide-react';
 
 const Bookings: React.FC = () => {
+  const { can } = useAuth();
   const [refreshKey, setRefreshKey] = useState(0);
 
   const handleBookingAdded = () => {
@@ -32,7 +40,7 @@ const Bookings: React.FC = () => {
 
       {/* Room Occupancy Timeline */}
       <section key={`timeline-${refreshKey}`}>
-        <TimelineView refresh={refreshKey} />
+        <TimelineView refresh={refreshKey} onBookingMoved={handleBookingAdded} />
       </section>
 
       {/* Room Management */}
@@ -40,17 +48,49 @@ const Bookings: React.FC = () => {
         <RoomManager refresh={refreshKey} />
       </section>
 
+      {/* Out-of-order and maintenance blocks */}
+      <section key={`room-blocks-${refreshKey}`}>
+        <RoomBlockManager refresh={refreshKey} onBlocksChanged={handleBookingAdded} />
+      </section>
+
+      {/* Refund Policy Management */}
+      <section key={`refund-policies-${refreshKey}`}>
+        <RefundPolicyManager refresh={refreshKey} />
+      </section>
+
+      {/* Tax Rate Management */}
+      <section key={`tax-rates-${refreshKey}`}>
+        <TaxRateManager refresh={refreshKey} />
+      </section>
+
+      {/* Rate Plan Management */}
+      <section key={`rate-plans-${refreshKey}`}>
+        <RatePlanManager refresh={refreshKey} />
+      </section>
+
+      {/* Message Template Management */}
+      <section key={`message-templates-${refreshKey}`}>
+        <MessageTemplateManager refresh={refreshKey} />
+      </section>
+
+      {/* Google Sheet Sync */}
+      <section key={`sheet-sync-${refreshKey}`}>
+        <SheetSyncPanel refresh={refreshKey} />
+      </section>
+
       {/* Add Booking Form */}
       <section className="space-y-4 sm:space-y-6 md:space-y-8">
-        <div>
-          <div className="flex items-center gap-2 mb-3 sm:mb-4">
-            <Plus className="text-emerald-600 flex-shrink-0 w-5 h-5 sm:w-6 sm:h-6" size={24} />
-            <h2 className="text-base sm:text-xl md:text-2xl font-bold text-gray-800">Create New Booking</h2>
-          </div>
-          <div className="bg-white rounded-lg shadow-lg border border-emerald-100 p-3 sm:p-6 md:p-8">
-            <BookingForm onBookingAdded={handleBookingAdded} />
+        {can('bookings.manage') && (
+          <div>
+            <div className="flex items-center gap-2 mb-3 sm:mb-4">
+              <Plus className="text-emerald-600 flex-shrink-0 w-5 h-5 sm:w-6 sm:h-6" size={24} />
+              <h2 className="text-base sm:text-xl md:text-2xl font-bold text-gray-800">Create New Booking</h2>
+            </div>
+            <div className="bg-white rounded-lg shadow-lg border border-emerald-100 p-3 sm:p-6 md:p-8">
+              <BookingForm onBookingAdded={handleBookingAdded} />
+            </div>
           </div>
-        </div>
+        )}
 
         {/* All Bookings List */}
         <div>
@@ -2,8 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { TrendingUp, TrendingDown, DollarSign, Calendar, Plus, Search, Filter, Download, Edit2, Trash2, X } from 'lucide-react';
 import supabase from '../services/supabaseClient';
 import { Expense, Booking } from '../types';
+import useAuth from '../hooks/useAuth';
+import { softDeleteExpense } from '../services/expenseService';
 
 export default function ExpensePage() {
+  const { can } = useAuth();
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [filteredExpenses, setFilteredExpenses] = useState<Expense[]>([]);
@@ -82,6 +85,7 @@ export default function ExpensePage() {
       const { data, error } = await supabase
         .from('expenses')
         .select('*')
+        .is('deleted_at', null)
         .order('expense_date', { ascending: false });
       
       if (error) throw error;
@@ -95,7 +99,8 @@ export default function ExpensePage() {
     try {
       const { data, error } = await supabase
         .from('bookings')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
       
       if (error) throw error;
       setBookings(data || []);
@@ -183,15 +188,10 @@ export default function ExpensePage() {
   };
 
   const handleDeleteExpense = async (id: string) => {
-    if (!window.confirm('Are you sure you want to delete this expense?')) return;
+    if (!window.confirm('Move this expense to the Trash? It can be restored from there.')) return;
 
     try {
-      const { error } = await supabase
-        .from('expenses')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await softDeleteExpense(id);
       fetchExpenses();
     } catch (error) {
       console.error('Error deleting expense:', error);
@@ -393,13 +393,15 @@ export default function ExpensePage() {
               <Download size={18} />
               Export
             </button>
-            <button
-              onClick={() => setShowForm(!showForm)}
-              className="flex-1 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition"
-            >
-              <Plus size={18} />
-              Add
-            </button>
+            {can('expenses.manage') && (
+              <button
+                onClick={() => setShowForm(!showForm)}
+                className="flex-1 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition"
+              >
+                <Plus size={18} />
+                Add
+              </button>
+            )}
           </div>
         </div>
 
@@ -631,21 +633,25 @@ export default function ExpensePage() {
                         </td>
                         <td className="px-6 py-4 text-sm text-slate-600">{expense.payment_method}</td>
                         <td className="px-6 py-4 flex gap-2">
-                          <button
-                            onClick={() => {
-                              setEditingId(expense.id);
-                              setEditData(expense);
-                            }}
-                            className="text-blue-500 hover:text-blue-700 transition"
-                          >
-                            <Edit2 size={18} />
-                          </button>
-                          <button
-                            onClick={() => handleDeleteExpense(expense.id)}
-                            className="text-red-500 hover:text-red-700 transition"
-                          >
-                            <Trash2 size={18} />
-                          </button>
+                          {can('expenses.manage') && (
+                            <>
+                              <button
+                                onClick={() => {
+                                  setEditingId(expense.id);
+                                  setEditData(expense);
+                                }}
+                                className="text-blue-500 hover:text-blue-700 transition"
+                              >
+                                <Edit2 size={18} />
+                              </button>
+                              <button
+                                onClick={() => handleDeleteExpense(expense.id)}
+                                className="text-red-500 hover:text-red-700 transition"
+                              >
+                                <Trash2 size={18} />
+                              </button>
+                            </>
+                          )}
                         </td>
                       </>
                     )}
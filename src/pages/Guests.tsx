@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Search, X, Loader, Save } from 'lucide-react';
+import { Booking } from '../types';
+import { fetchGuests, fetchGuestBookings, updateGuest, GuestWithBookings } from '../services/guestService';
+import { summarizeGuestStays } from '../utils/guestUtils';
+import { formatDateDisplay } from '../utils/bookingUtils';
+import { getStatusBadgeClass } from '../utils/bookingStatus';
+
+const StayRow: React.FC<{ booking: Booking }> = ({ booking }) => (
+  <li className="flex items-center justify-between gap-2 py-2 border-b border-gray-100 text-sm">
+    <div>
+      <p className="font-semibold text-gray-800">
+        {formatDateDisplay(booking.check_in)} - {formatDateDisplay(booking.check_out)}
+      </p>
+      <p className="text-xs text-gray-500 font-mono">{booking.booking_no}</p>
+    </div>
+    <div className="text-right">
+      <span className={`px-2 py-0.5 rounded text-xs font-bold ${getStatusBadgeClass(booking.status)}`}>{booking.status}</span>
+      <p className="text-xs text-gray-600 mt-1">Paid ৳{(booking.revenue || 0).toLocaleString()}</p>
+    </div>
+  </li>
+);
+
+export default function GuestsPage() {
+  const [guests, setGuests] = useState<GuestWithBookings[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedGuest, setSelectedGuest] = useState<GuestWithBookings | null>(null);
+  const [guestBookings, setGuestBookings] = useState<Booking[]>([]);
+  const [editData, setEditData] = useState({ name: '', email: '', notes: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadGuests();
+  }, []);
+
+  const loadGuests = async () => {
+    try {
+      setGuests(await fetchGuests());
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching guests:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load guests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openGuest = async (guest: GuestWithBookings) => {
+    setSelectedGuest(guest);
+    setGuestBookings(guest.bookings || []);
+    setEditData({ name: guest.name, email: guest.email || '', notes: guest.notes || '' });
+    try {
+      setGuestBookings(await fetchGuestBookings(guest.id));
+    } catch (err) {
+      console.error('Error fetching guest bookings:', err);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedGuest) return;
+    if (!editData.name.trim()) {
+      setError('Guest name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateGuest(selectedGuest.id, editData);
+      await loadGuests();
+      setSelectedGuest(null);
+    } catch (err) {
+      console.error('Error updating guest:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update guest');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredGuests = guests.filter(
+    (g) =>
+      g.name.toLowerCase().includes(term) ||
+      g.phone.includes(searchTerm.replace(/\s+/g, '')) ||
+      g.email?.toLowerCase().includes(term)
+  );
+  const selectedSummary = summarizeGuestStays(guestBookings);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-emerald-50 to-slate-100 p-6 rounded-2xl shadow-lg">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+          <Users className="text-emerald-600" /> Guest Directory
+        </h1>
+        <p className="text-slate-600">Returning guests, their stays and what they have spent</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <span className="text-red-800">Error: {error}</span>
+        </div>
+      )}
+
+      {/* Search */}
+      <div className="relative mb-6">
+        <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+        <input
+          type="text"
+          placeholder="Search by name, phone or email..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+        />
+      </div>
+
+      {/* Guests Table */}
+      {loading ? (
+        <div className="flex justify-center items-center p-8">
+          <Loader size={32} className="animate-spin text-emerald-600" />
+          <span className="ml-2 text-gray-700">Loading guests...</span>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-emerald-50 border-b border-emerald-200">
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Guest</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Phone</th>
+                <th className="px-4 py-3 text-center font-semibold text-gray-700">Stays</th>
+                <th className="px-4 py-3 text-center font-semibold text-gray-700">Upcoming</th>
+                <th className="px-4 py-3 text-right font-semibold text-gray-700">Total Spend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredGuests.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="text-center py-8 text-gray-500">
+                    No guests found
+                  </td>
+                </tr>
+              ) : (
+                filteredGuests.map((guest) => {
+                  const summary = summarizeGuestStays(guest.bookings || []);
+                  return (
+                    <tr
+                      key={guest.id}
+                      onClick={() => openGuest(guest)}
+                      className="border-b border-gray-100 hover:bg-emerald-50 cursor-pointer"
+                    >
+                      <td className="px-4 py-3">
+                        <p className="font-semibold text-gray-900">{guest.name}</p>
+                        {guest.email && <p className="text-xs text-gray-500">{guest.email}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{guest.phone}</td>
+                      <td className="px-4 py-3 text-center">{summary.totalStays}</td>
+                      <td className="px-4 py-3 text-center">{summary.upcoming.length}</td>
+                      <td className="px-4 py-3 text-right font-semibold text-emerald-700">৳{summary.totalSpend.toLocaleString()}</td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Guest Detail Modal */}
+      {selectedGuest && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="bg-gradient-to-r from-emerald-500 to-teal-600 px-6 py-4 rounded-t-lg flex justify-between items-center">
+              <div>
+                <h2 className="text-xl font-bold text-white">{selectedGuest.name}</h2>
+                <p className="text-sm text-emerald-50">{selectedGuest.phone}</p>
+              </div>
+              <button onClick={() => setSelectedGuest(null)} className="text-white hover:text-emerald-100">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">Stays</p>
+                  <p className="font-bold text-gray-800">{selectedSummary.totalStays}</p>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">Upcoming</p>
+                  <p className="font-bold text-blue-700">{selectedSummary.upcoming.length}</p>
+                </div>
+                <div className="bg-emerald-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">Total Spend</p>
+                  <p className="font-bold text-emerald-700">৳{selectedSummary.totalSpend.toLocaleString()}</p>
+                </div>
+              </div>
+
+              {/* Contact & Notes */}
+              <div className="space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <input
+                    type="text"
+                    value={editData.name}
+                    onChange={(e) => setEditData({ ...editData, name: e.target.value })}
+                    placeholder="Name"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+                  />
+                  <input
+                    type="email"
+                    value={editData.email}
+                    onChange={(e) => setEditData({ ...editData, email: e.target.value })}
+                    placeholder="Email"
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+                  />
+                </div>
+                <textarea
+                  value={editData.notes}
+                  onChange={(e) => setEditData({ ...editData, notes: e.target.value })}
+                  placeholder="Notes (preferences, allergies, VIP...)"
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+                />
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium flex items-center gap-2 disabled:opacity-50"
+                >
+                  {saving ? <Loader size={16} className="animate-spin" /> : <Save size={16} />}
+                  Save Guest
+                </button>
+              </div>
+
+              {/* Stays */}
+              <div>
+                <h3 className="font-bold text-gray-800 mb-2">Upcoming Stays</h3>
+                {selectedSummary.upcoming.length === 0 ? (
+                  <p className="text-sm text-gray-500">None</p>
+                ) : (
+                  <ul>{selectedSummary.upcoming.map((b) => <StayRow key={b.id} booking={b} />)}</ul>
+                )}
+              </div>
+              <div>
+                <h3 className="font-bold text-gray-800 mb-2">Past Stays</h3>
+                {selectedSummary.past.length === 0 ? (
+                  <p className="text-sm text-gray-500">None</p>
+                ) : (
+                  <ul>{selectedSummary.past.map((b) => <StayRow key={b.id} booking={b} />)}</ul>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import useAuth from '../hooks/useAuth';
-import { Mail, Lock, AlertCircle, Loader, Leaf } from 'lucide-react';
+import { getHomePath } from '../utils/permissions';
+import { sendPasswordReset } from '../services/authService';
+import { Mail, Lock, AlertCircle, Loader, Leaf, CheckCircle } from 'lucide-react';
 
 const Home: React.FC = () => {
   const navigate = useNavigate();
-  const { user, isAdmin, signIn, error, loading } = useAuth();
+  const { user, staff, signIn, error, loading } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [localError, setLocalError] = useState('');
   const [isSigningIn, setIsSigningIn] = useState(false);
+  const [resetMode, setResetMode] = useState(false);
+  const [resetSent, setResetSent] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -17,14 +21,14 @@ const Home: React.FC = () => {
     setIsSigningIn(true);
 
     try {
-      const { user: signedInUser, error } = await signIn(email, password);
+      const { user: signedInUser, staff: signedInStaff, error } = await signIn(email, password);
 
       if (error) {
         setLocalError(error);
       } else if (signedInUser) {
         setEmail('');
         setPassword('');
-        navigate('/bookings');
+        navigate(getHomePath(signedInStaff?.role));
       }
     } catch (err) {
       setLocalError('Sign in failed. Please try again.');
@@ -33,8 +37,29 @@ const Home: React.FC = () => {
     }
   };
 
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLocalError('');
+    setIsSigningIn(true);
+
+    try {
+      await sendPasswordReset(email);
+      setResetSent(true);
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'Could not send the reset email. Please try again.');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const toggleResetMode = () => {
+    setResetMode(!resetMode);
+    setResetSent(false);
+    setLocalError('');
+  };
+
   // If already signed in, show dashboard quick link
-  if (user && isAdmin) {
+  if (user && staff) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-emerald-50 to-teal-50 px-4">
         <div className="bg-white rounded-lg shadow-2xl p-8 w-full max-w-md border border-emerald-200">
@@ -45,7 +70,7 @@ const Home: React.FC = () => {
             <p className="text-xl font-semibold bg-emerald-50 text-emerald-700 px-4 py-2 rounded-lg mb-6">{user.email}</p>
             <div className="border-t border-emerald-200 my-6"></div>
             <button
-              onClick={() => navigate('/bookings')}
+              onClick={() => navigate(getHomePath(staff.role))}
               className="w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 text-white font-bold py-3 rounded-lg transition"
             >
               Go to Dashboard
@@ -76,67 +101,122 @@ const Home: React.FC = () => {
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex gap-3">
               <AlertCircle size={20} className="text-red-600 flex-shrink-0" />
               <div>
-                <h3 className="font-bold text-red-800">Login Failed</h3>
+                <h3 className="font-bold text-red-800">{resetMode ? 'Reset Failed' : 'Login Failed'}</h3>
                 <div className="text-sm text-red-700">{error || localError}</div>
               </div>
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Admin Email
-              </label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-3 text-gray-400" size={20} />
-                <input
-                  type="email"
-                  placeholder="admin@bonsai.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full pl-10 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
-                  required
-                  disabled={isSigningIn}
-                />
+          {resetMode ? (
+            resetSent ? (
+              <div className="space-y-6">
+                <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4 flex gap-3">
+                  <CheckCircle size={20} className="text-emerald-600 flex-shrink-0" />
+                  <p className="text-sm text-emerald-800">
+                    If {email} belongs to a staff account, a link to choose a new password is on its way.
+                  </p>
+                </div>
+                <button type="button" onClick={toggleResetMode} className="w-full text-sm text-emerald-700 hover:underline">
+                  Back to sign in
+                </button>
               </div>
-              <p className="text-xs text-gray-500 mt-2">
-                Contact support for your admin email
-              </p>
-            </div>
+            ) : (
+              <form onSubmit={handleReset} className="space-y-6">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Email
+                  </label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-3 text-gray-400" size={20} />
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="w-full pl-10 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+                      required
+                      disabled={isSigningIn}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    We will email you a link to choose a new password
+                  </p>
+                </div>
 
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Password
-              </label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-3 text-gray-400" size={20} />
-                <input
-                  type="password"
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full pl-10 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
-                  required
+                <button
+                  type="submit"
                   disabled={isSigningIn}
-                />
+                  className="w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 disabled:opacity-50 text-white font-bold py-3 rounded-lg transition flex items-center justify-center gap-2"
+                >
+                  {isSigningIn ? <Loader size={18} className="animate-spin" /> : 'Send Reset Link'}
+                </button>
+                <button type="button" onClick={toggleResetMode} className="w-full text-sm text-emerald-700 hover:underline">
+                  Back to sign in
+                </button>
+              </form>
+            )
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Admin Email
+                </label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-3 text-gray-400" size={20} />
+                  <input
+                    type="email"
+                    placeholder="admin@bonsai.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full pl-10 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+                    required
+                    disabled={isSigningIn}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Contact support for your admin email
+                </p>
               </div>
-            </div>
 
-            <button
-              type="submit"
-              disabled={isSigningIn}
-              className="w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 disabled:opacity-50 text-white font-bold py-3 rounded-lg transition flex items-center justify-center gap-2"
-            >
-              {isSigningIn ? (
-                <>
-                  <Loader size={18} className="animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                'Sign In'
-              )}
-            </button>
-          </form>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 text-gray-400" size={20} />
+                  <input
+                    type="password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full pl-10 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+                    required
+                    disabled={isSigningIn}
+                  />
+                </div>
+              </div>
+
+              <div className="text-right -mt-4">
+                <button type="button" onClick={toggleResetMode} className="text-sm text-emerald-700 hover:underline">
+                  Forgot password?
+                </button>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isSigningIn}
+                className="w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 disabled:opacity-50 text-white font-bold py-3 rounded-lg transition flex items-center justify-center gap-2"
+              >
+                {isSigningIn ? (
+                  <>
+                    <Loader size={18} className="animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  'Sign In'
+                )}
+              </button>
+            </form>
+          )}
         </div>
       </div>
     </div>
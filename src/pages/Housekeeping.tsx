@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles, Loader, Wrench } from 'lucide-react';
+import supabase from '../services/supabaseClient';
+import { HousekeepingStatus, Room, RoomBlock } from '../types';
+import { fetchRoomsForHousekeeping, setHousekeepingStatus } from '../services/housekeepingService';
+import { fetchRoomBlocks } from '../services/roomBlockService';
+import { HOUSEKEEPING_STATUSES, getHousekeepingBadgeClass, getHousekeepingStatus } from '../utils/housekeeping';
+import { formatDate, formatDateDisplay } from '../utils/bookingUtils';
+import { useModal } from '../hooks/useModal';
+
+type StatusFilter = HousekeepingStatus | 'All';
+
+// Button colours while a status is selected
+const ACTIVE_BUTTON_CLASS: Record<HousekeepingStatus, string> = {
+  Dirty: 'bg-amber-500 text-white border-amber-500',
+  Clean: 'bg-green-600 text-white border-green-600',
+  Inspected: 'bg-blue-600 text-white border-blue-600',
+  'Out of service': 'bg-gray-600 text-white border-gray-600',
+};
+
+// Board for housekeepers, laid out for phones: one card per room with a button per status
+export default function HousekeepingPage() {
+  const { showAlert } = useModal();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [blocks, setBlocks] = useState<RoomBlock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<StatusFilter>('All');
+  const [savingRoomId, setSavingRoomId] = useState<string | null>(null);
+  const today = formatDate(new Date());
+
+  useEffect(() => {
+    loadBoard();
+
+    // Checkouts and other devices change statuses too
+    const channel = supabase
+      .channel('housekeeping-board')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'rooms' }, () => {
+        loadBoard();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const loadBoard = async () => {
+    try {
+      const [roomsData, blocksData] = await Promise.all([fetchRoomsForHousekeeping(), fetchRoomBlocks(formatDate(new Date()))]);
+      setRooms(roomsData);
+      setBlocks(blocksData);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching housekeeping board:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load rooms');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSetStatus = async (room: Room, status: HousekeepingStatus) => {
+    if (getHousekeepingStatus(room) === status) return;
+
+    setSavingRoomId(room.id);
+    try {
+      await setHousekeepingStatus(room.id, status);
+      setRooms((prev) => prev.map((r) => (r.id === room.id ? { ...r, housekeeping_status: status } : r)));
+    } catch (err) {
+      console.error('Error updating housekeeping status:', err);
+      showAlert('Error', err instanceof Error ? err.message : 'Failed to update the room', 'error');
+    } finally {
+      setSavingRoomId(null);
+    }
+  };
+
+  const countOf = (status: HousekeepingStatus) => rooms.filter((r) => getHousekeepingStatus(r) === status).length;
+  const visibleRooms = filter === 'All' ? rooms : rooms.filter((r) => getHousekeepingStatus(r) === filter);
+  const blockInForce = (roomId: string) =>
+    blocks.find((b) => b.room_id === roomId && b.start_date.slice(0, 10) <= today && b.end_date.slice(0, 10) > today);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center p-12">
+        <Loader size={40} className="animate-spin text-emerald-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-emerald-50 to-slate-100 p-3 sm:p-6 rounded-2xl shadow-lg">
+      {/* Header */}
+      <div className="mb-4 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+          <Sparkles className="text-emerald-600" /> Housekeeping
+        </h1>
+        <p className="text-slate-600 text-sm sm:text-base">Rooms turn Dirty when their guests check out. Tap a status to update a room.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <span className="text-red-800">Error: {error}</span>
+        </div>
+      )}
+
+      {/* Filter */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(['All', ...HOUSEKEEPING_STATUSES] as StatusFilter[]).map((status) => (
+          <button
+            key={status}
+            onClick={() => setFilter(status)}
+            className={`px-3 py-2 rounded-lg text-sm font-medium transition ${
+              filter === status ? 'bg-emerald-600 text-white' : 'bg-white text-gray-700 border border-gray-300 hover:border-emerald-400'
+            }`}
+          >
+            {status} ({status === 'All' ? rooms.length : countOf(status)})
+          </button>
+        ))}
+      </div>
+
+      {/* Rooms */}
+      {visibleRooms.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-slate-500">No rooms with this status</div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+          {visibleRooms.map((room) => {
+            const status = getHousekeepingStatus(room);
+            const block = blockInForce(room.id);
+            const saving = savingRoomId === room.id;
+
+            return (
+              <div key={room.id} className="bg-white rounded-lg shadow border border-emerald-100 p-4">
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <div className="min-w-0">
+                    <p className="text-lg font-bold text-slate-900 truncate">{room.name}</p>
+                    <p className="text-xs text-slate-500">{room.type}</p>
+                  </div>
+                  <span className={`px-2 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${getHousekeepingBadgeClass(status)}`}>
+                    {saving ? <Loader size={12} className="animate-spin inline" /> : status}
+                  </span>
+                </div>
+
+                {block && (
+                  <p className="text-xs text-gray-700 bg-gray-100 rounded px-2 py-1 mb-2 flex items-center gap-1">
+                    <Wrench size={12} />
+                    Blocked until {formatDateDisplay(block.end_date)}: {block.reason}
+                  </p>
+                )}
+
+                {room.housekeeping_updated_at && (
+                  <p className="text-xs text-slate-500 mb-3">
+                    Updated {new Date(room.housekeeping_updated_at).toLocaleString()}
+                    {room.housekeeping_updated_by ? ` by ${room.housekeeping_updated_by}` : ''}
+                  </p>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  {HOUSEKEEPING_STATUSES.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => handleSetStatus(room, option)}
+                      disabled={saving}
+                      className={`py-3 rounded-lg border text-sm font-semibold transition disabled:opacity-50 ${
+                        status === option ? ACTIVE_BUTTON_CLASS[option] : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,61 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import useAuth from '../hooks/useAuth';
-import { LogOut, Mail, Shield, Calendar } from 'lucide-react';
+import { changePassword, validateNewPassword } from '../services/authService';
+import { getRoleLabel } from '../utils/permissions';
+import LoginHistory from '../components/LoginHistory';
+import { LogOut, Mail, Shield, Calendar, AlertCircle, CheckCircle, Loader } from 'lucide-react';
+
+const emptyPasswordForm = () => ({ current: '', next: '', confirm: '' });
 
 const Profile: React.FC = () => {
-  const { user, signOut } = useAuth();
+  const { user, staff, signOut } = useAuth();
   const navigate = useNavigate();
+  const [showPasswordForm, setShowPasswordForm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [passwordForm, setPasswordForm] = useState(emptyPasswordForm);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<{
+    type: 'idle' | 'success' | 'error';
+    message: string;
+  }>({ type: 'idle', message: '' });
 
   const handleSignOut = async () => {
     await signOut();
     navigate('/');
   };
 
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const problem = validateNewPassword(passwordForm.next, passwordForm.confirm);
+    if (problem) {
+      setStatus({ type: 'error', message: problem });
+      return;
+    }
+    if (passwordForm.next === passwordForm.current) {
+      setStatus({ type: 'error', message: 'New password must be different from the current one' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await changePassword(user.email, passwordForm.current, passwordForm.next);
+      setStatus({ type: 'success', message: 'Password changed successfully' });
+      setPasswordForm(emptyPasswordForm());
+      setShowPasswordForm(false);
+    } catch (err) {
+      console.error('Error changing password:', err);
+      setStatus({ type: 'error', message: err instanceof Error ? err.message : 'Failed to change password' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <div className="max-w-2xl mx-auto">
-      <h1 className="text-4xl font-bold mb-8">Admin Profile</h1>
+      <h1 className="text-4xl font-bold mb-8">Profile</h1>
 
       {user ? (
         <div className="space-y-6">
@@ -22,7 +63,7 @@ const Profile: React.FC = () => {
             <div className="card-body">
               <h2 className="card-title mb-6 flex items-center gap-2">
                 <Shield size={24} className="text-primary" />
-                Admin Account Information
+                Account Information
               </h2>
 
               <div className="space-y-4">
@@ -38,7 +79,7 @@ const Profile: React.FC = () => {
                   <Shield size={20} className="text-success" />
                   <div>
                     <p className="text-sm opacity-75">Access Level</p>
-                    <p className="font-semibold text-lg">Administrator</p>
+                    <p className="font-semibold text-lg">{staff ? getRoleLabel(staff.role) : 'No staff access'}</p>
                   </div>
                 </div>
 
@@ -79,13 +120,81 @@ const Profile: React.FC = () => {
             <div className="card-body">
               <h2 className="card-title mb-4">Security</h2>
 
+              {status.type !== 'idle' && (
+                <div className={`alert alert-${status.type === 'success' ? 'success' : 'error'} mb-2 flex items-center gap-2`}>
+                  {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+                  <span>{status.message}</span>
+                </div>
+              )}
+
               <div className="space-y-3">
-                <button className="btn btn-outline w-full">
+                <button
+                  onClick={() => {
+                    setShowPasswordForm(!showPasswordForm);
+                    setStatus({ type: 'idle', message: '' });
+                  }}
+                  className="btn btn-outline w-full"
+                >
                   Change Password
                 </button>
-                <button className="btn btn-outline w-full">
-                  View Login History
+
+                {showPasswordForm && (
+                  <form onSubmit={handleChangePassword} className="space-y-3 p-4 bg-base-100 rounded-lg">
+                    <div className="form-control">
+                      <label className="label">
+                        <span className="label-text font-semibold">Current Password</span>
+                      </label>
+                      <input
+                        type="password"
+                        autoComplete="current-password"
+                        value={passwordForm.current}
+                        onChange={(e) => setPasswordForm({ ...passwordForm, current: e.target.value })}
+                        className="input input-bordered focus:outline-none"
+                        required
+                      />
+                    </div>
+                    <div className="form-control">
+                      <label className="label">
+                        <span className="label-text font-semibold">New Password</span>
+                      </label>
+                      <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={passwordForm.next}
+                        onChange={(e) => setPasswordForm({ ...passwordForm, next: e.target.value })}
+                        className="input input-bordered focus:outline-none"
+                        required
+                      />
+                    </div>
+                    <div className="form-control">
+                      <label className="label">
+                        <span className="label-text font-semibold">Confirm New Password</span>
+                      </label>
+                      <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={passwordForm.confirm}
+                        onChange={(e) => setPasswordForm({ ...passwordForm, confirm: e.target.value })}
+                        className="input input-bordered focus:outline-none"
+                        required
+                      />
+                    </div>
+                    <button type="submit" disabled={saving} className="btn btn-primary w-full gap-2">
+                      {saving && <Loader size={18} className="animate-spin" />}
+                      Update Password
+                    </button>
+                  </form>
+                )}
+
+                <button onClick={() => setShowHistory(!showHistory)} className="btn btn-outline w-full">
+                  {showHistory ? 'Hide Login History' : 'View Login History'}
                 </button>
+
+                {showHistory && (
+                  <div className="p-4 bg-base-100 rounded-lg">
+                    <LoginHistory email={user.email} />
+                  </div>
+                )}
               </div>
             </div>
           </div>
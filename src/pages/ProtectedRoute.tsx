@@ -1,14 +1,17 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import useAuth from '../hooks/useAuth';
+import { Permission } from '../utils/permissions';
 import { AlertCircle } from 'lucide-react';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Omit to allow any active staff member
+  permission?: Permission;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, isAdmin, loading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { user, staff, loading, can } = useAuth();
 
   if (loading) {
     return (
@@ -27,7 +30,16 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     );
   }
 
-  if (!isAdmin) {
+  if (!staff) {
+    return (
+      <div className="alert alert-error">
+        <AlertCircle size={24} />
+        <span>This account is not on the staff list. Ask the owner for an invite.</span>
+      </div>
+    );
+  }
+
+  if (permission && !can(permission)) {
     return (
       <div className="alert alert-error">
         <AlertCircle size={24} />
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import supabase from '../services/supabaseClient';
+import useAuth from '../hooks/useAuth';
+import { getHomePath } from '../utils/permissions';
+import {
+  canSetPasswordWithoutCurrent,
+  markPasswordRecoverySession,
+  recordSignIn,
+  setNewPassword,
+  validateNewPassword,
+} from '../services/authService';
+import { Lock, AlertCircle, Loader } from 'lucide-react';
+
+/**
+ * Landing page for password reset and staff invite links, which arrive signed in. Any other
+ * session is sent to Profile, where changing the password needs the current one.
+ */
+const ResetPassword: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, staff, loading } = useAuth();
+  const [fromEmailLink, setFromEmailLink] = useState(canSetPasswordWithoutCurrent);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        markPasswordRecoverySession();
+        setFromEmailLink(true);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateNewPassword(password, confirmation);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      await setNewPassword(password);
+      recordSignIn().catch((err) => console.error('Failed to record sign-in:', err));
+      navigate(getHomePath(staff?.role));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set the new password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <span className="loading loading-spinner loading-lg"></span>
+      </div>
+    );
+  }
+
+  if (user && !fromEmailLink) {
+    return <Navigate to="/profile" replace />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-emerald-50 via-white to-teal-50 px-4 py-8">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-xl p-8 border border-emerald-100">
+        <h1 className="text-2xl font-bold text-emerald-900 mb-2 text-center">Choose a New Password</h1>
+
+        {!user ? (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mt-4 flex gap-3">
+            <AlertCircle size={20} className="text-yellow-600 flex-shrink-0" />
+            <p className="text-sm text-yellow-800">
+              This link has expired or was already used. Request a new one with "Forgot password?" on the sign-in page.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6 mt-4">
+            <p className="text-sm text-gray-600 text-center">{user.email}</p>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-800">
+                <AlertCircle size={16} />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">New Password</label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-3 text-gray-400" size={20} />
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full pl-10 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+                  required
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Confirm Password</label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-3 text-gray-400" size={20} />
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className="w-full pl-10 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200"
+                  required
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 disabled:opacity-50 text-white font-bold py-3 rounded-lg transition flex items-center justify-center gap-2"
+            >
+              {saving ? <Loader size={18} className="animate-spin" /> : 'Save Password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { UserCog, Loader, Send, CheckCircle, History } from 'lucide-react';
+import { StaffMember, StaffRole } from '../types';
+import { fetchStaff, inviteStaff, updateStaff } from '../services/staffService';
+import { STAFF_ROLES, getRoleLabel } from '../utils/permissions';
+import useAuth from '../hooks/useAuth';
+import LoginHistory from '../components/LoginHistory';
+
+const emptyInvite = () => ({ email: '', name: '', role: 'front_desk' as StaffRole });
+
+export default function StaffPage() {
+  const { staff: currentStaff } = useAuth();
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [invite, setInvite] = useState(emptyInvite);
+  const [inviting, setInviting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<StaffMember | null>(null);
+
+  useEffect(() => {
+    loadStaff();
+  }, []);
+
+  const loadStaff = async () => {
+    try {
+      setMembers(await fetchStaff());
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching staff:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load staff');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite.email.includes('@')) {
+      setError('Enter a valid email address');
+      return;
+    }
+
+    setInviting(true);
+    setNotice(null);
+    try {
+      const { invited } = await inviteStaff({ email: invite.email.trim(), name: invite.name.trim() || undefined, role: invite.role });
+      setNotice(
+        invited
+          ? `Invite sent to ${invite.email}. They can sign in once they have set a password.`
+          : `${invite.email} already has an account and can sign in now.`
+      );
+      setInvite(emptyInvite());
+      await loadStaff();
+    } catch (err) {
+      console.error('Error inviting staff:', err);
+      setError(err instanceof Error ? err.message : 'Failed to invite staff member');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleChange = async (member: StaffMember, changes: Partial<{ role: StaffRole; is_active: boolean }>) => {
+    try {
+      await updateStaff(member.id, changes);
+      await loadStaff();
+    } catch (err) {
+      console.error('Error updating staff:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update staff member');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-emerald-50 to-slate-100 p-6 rounded-2xl shadow-lg">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+          <UserCog className="text-emerald-600" /> Staff
+        </h1>
+        <p className="text-slate-600">Who can sign in, and what each role is allowed to do</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <span className="text-red-800">Error: {error}</span>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4 mb-4 flex items-center gap-2">
+          <CheckCircle size={18} className="text-emerald-600" />
+          <span className="text-emerald-800">{notice}</span>
+        </div>
+      )}
+
+      {/* Invite */}
+      <form onSubmit={handleInvite} className="bg-white rounded-lg shadow p-4 mb-6 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Email *</label>
+          <input
+            type="email"
+            value={invite.email}
+            onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={invite.name}
+            onChange={(e) => setInvite({ ...invite, name: e.target.value })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Role</label>
+          <select
+            value={invite.role}
+            onChange={(e) => setInvite({ ...invite, role: e.target.value as StaffRole })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+          >
+            {STAFF_ROLES.map(({ role, label }) => (
+              <option key={role} value={role}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={inviting}
+          className="px-4 py-2 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition"
+        >
+          {inviting ? <Loader size={18} className="animate-spin" /> : <Send size={18} />}
+          Invite
+        </button>
+      </form>
+
+      {/* Roles */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-6">
+        {STAFF_ROLES.map(({ role, label, description }) => (
+          <div key={role} className="bg-white rounded-lg border border-emerald-100 p-3">
+            <p className="font-semibold text-emerald-800">{label}</p>
+            <p className="text-xs text-slate-600">{description}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Staff Table */}
+      {loading ? (
+        <div className="flex justify-center items-center p-8">
+          <Loader size={32} className="animate-spin text-emerald-600" />
+          <span className="ml-2 text-gray-700">Loading staff...</span>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-emerald-50 border-b border-emerald-200">
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Staff Member</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Role</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Invited By</th>
+                <th className="px-4 py-3 text-center font-semibold text-gray-700">Access</th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.map((member) => {
+                // Owners cannot lock themselves out
+                const isSelf = member.id === currentStaff?.id;
+                return (
+                  <tr key={member.id} className={`border-b border-gray-100 ${member.is_active ? '' : 'opacity-60'}`}>
+                    <td className="px-4 py-3">
+                      <p className="font-semibold text-gray-900">{member.name || member.email}</p>
+                      {member.name && <p className="text-xs text-gray-500">{member.email}</p>}
+                      <button
+                        onClick={() => setHistoryFor(member)}
+                        className="mt-1 text-xs text-emerald-700 hover:text-emerald-900 flex items-center gap-1"
+                      >
+                        <History size={12} /> Sign-ins
+                      </button>
+                    </td>
+                    <td className="px-4 py-3">
+                      {isSelf ? (
+                        getRoleLabel(member.role)
+                      ) : (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleChange(member, { role: e.target.value as StaffRole })}
+                          className="px-2 py-1 border border-slate-300 rounded focus:outline-none focus:border-emerald-500"
+                        >
+                          {STAFF_ROLES.map(({ role, label }) => (
+                            <option key={role} value={role}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{member.invited_by || '—'}</td>
+                    <td className="px-4 py-3 text-center">
+                      {isSelf ? (
+                        <span className="text-xs text-gray-500">You</span>
+                      ) : (
+                        <button
+                          onClick={() => handleChange(member, { is_active: !member.is_active })}
+                          className={`px-3 py-1 rounded text-xs font-bold ${
+                            member.is_active ? 'bg-red-100 text-red-700 hover:bg-red-200' : 'bg-green-100 text-green-700 hover:bg-green-200'
+                          }`}
+                        >
+                          {member.is_active ? 'Deactivate' : 'Reactivate'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {historyFor && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="bg-gradient-to-r from-slate-600 to-slate-700 px-6 py-4 rounded-t-lg">
+              <h2 className="text-xl font-bold text-white">Sign-ins - {historyFor.name || historyFor.email}</h2>
+              {historyFor.name && <p className="text-sm text-slate-100">{historyFor.email}</p>}
+            </div>
+            <div className="p-6 space-y-4">
+              <LoginHistory email={historyFor.email} />
+              <div className="flex justify-end">
+                <button
+                  onClick={() => setHistoryFor(null)}
+                  className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-lg font-medium"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, Loader, RotateCcw } from 'lucide-react';
+import { Booking, Expense } from '../types';
+import { fetchDeletedBookings, purgeBooking, restoreBooking } from '../services/bookingService';
+import { fetchDeletedExpenses, purgeExpense, restoreExpense } from '../services/expenseService';
+import { formatDateDisplay } from '../utils/bookingUtils';
+import { isRoomConflictError } from '../utils/availability';
+import { useModal } from '../hooks/useModal';
+import useAuth from '../hooks/useAuth';
+
+const deletedLabel = (record: { deleted_at?: string | null; deleted_by?: string | null }) =>
+  `${record.deleted_at ? new Date(record.deleted_at).toLocaleString() : ''}${record.deleted_by ? ` by ${record.deleted_by}` : ''}`;
+
+export default function TrashPage() {
+  const { can } = useAuth();
+  const { showAlert, showConfirm } = useModal();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManageBookings = can('bookings.delete');
+  const canManageExpenses = can('expenses.manage');
+
+  useEffect(() => {
+    loadTrash();
+  }, [canManageBookings, canManageExpenses]);
+
+  const loadTrash = async () => {
+    try {
+      const [deletedBookings, deletedExpenses] = await Promise.all([
+        canManageBookings ? fetchDeletedBookings() : Promise.resolve([]),
+        canManageExpenses ? fetchDeletedExpenses() : Promise.resolve([]),
+      ]);
+      setBookings(deletedBookings);
+      setExpenses(deletedExpenses);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the Trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (id: string, action: () => Promise<void>, success: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      showAlert('Success', success, 'success');
+      await loadTrash();
+    } catch (err: any) {
+      console.error('Trash action failed:', err);
+      showAlert(
+        isRoomConflictError(err) ? 'Room Conflict' : 'Error',
+        isRoomConflictError(err)
+          ? `${err.message}. Free the room first, then restore this booking.`
+          : err.message || 'Action failed',
+        'error'
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = (label: string, id: string, purge: (id: string) => Promise<void>) => {
+    showConfirm('Delete Forever', `Permanently delete ${label}? This cannot be undone.`, () =>
+      runAction(id, () => purge(id), 'Deleted permanently')
+    );
+  };
+
+  const actionButtons = (id: string, onRestore: () => void, onPurge: () => void) => (
+    <div className="flex gap-2 justify-end">
+      <button
+        onClick={onRestore}
+        disabled={busyId === id}
+        className="px-3 py-1 rounded text-xs font-bold bg-emerald-100 text-emerald-700 hover:bg-emerald-200 flex items-center gap-1 disabled:opacity-50"
+      >
+        <RotateCcw size={14} /> Restore
+      </button>
+      <button
+        onClick={onPurge}
+        disabled={busyId === id}
+        className="px-3 py-1 rounded text-xs font-bold bg-red-100 text-red-700 hover:bg-red-200 flex items-center gap-1 disabled:opacity-50"
+      >
+        <Trash2 size={14} /> Delete Forever
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-emerald-50 to-slate-100 p-6 rounded-2xl shadow-lg">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+          <Trash2 className="text-emerald-600" /> Trash
+        </h1>
+        <p className="text-slate-600">Deleted bookings and expenses, until they are restored or deleted forever</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <span className="text-red-800">Error: {error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center p-8">
+          <Loader size={32} className="animate-spin text-emerald-600" />
+          <span className="ml-2 text-gray-700">Loading trash...</span>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {canManageBookings && (
+            <div>
+              <h2 className="text-xl font-bold text-slate-800 mb-3">Bookings</h2>
+              <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-emerald-50 border-b border-emerald-200">
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Booking</th>
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Stay</th>
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Deleted</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {bookings.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="text-center py-8 text-gray-500">
+                          No deleted bookings
+                        </td>
+                      </tr>
+                    ) : (
+                      bookings.map((booking) => (
+                        <tr key={booking.id} className="border-b border-gray-100">
+                          <td className="px-4 py-3">
+                            <p className="font-semibold text-gray-900">{booking.guest_name}</p>
+                            <p className="text-xs text-gray-500 font-mono">{booking.booking_no}</p>
+                          </td>
+                          <td className="px-4 py-3 text-gray-700">
+                            {formatDateDisplay(booking.check_in)} - {formatDateDisplay(booking.check_out)}
+                          </td>
+                          <td className="px-4 py-3 text-gray-700">{booking.status}</td>
+                          <td className="px-4 py-3 text-gray-600">{deletedLabel(booking)}</td>
+                          <td className="px-4 py-3">
+                            {actionButtons(
+                              booking.id,
+                              () => runAction(booking.id, () => restoreBooking(booking.id), `Booking ${booking.booking_no} restored`),
+                              () => handlePurge(`booking ${booking.booking_no}`, booking.id, purgeBooking)
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {canManageExpenses && (
+            <div>
+              <h2 className="text-xl font-bold text-slate-800 mb-3">Expenses</h2>
+              <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-emerald-50 border-b border-emerald-200">
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Expense</th>
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Date</th>
+                      <th className="px-4 py-3 text-right font-semibold text-gray-700">Amount</th>
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Deleted</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {expenses.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="text-center py-8 text-gray-500">
+                          No deleted expenses
+                        </td>
+                      </tr>
+                    ) : (
+                      expenses.map((expense) => (
+                        <tr key={expense.id} className="border-b border-gray-100">
+                          <td className="px-4 py-3">
+                            <p className="font-semibold text-gray-900">{expense.category}</p>
+                            {expense.description && <p className="text-xs text-gray-500">{expense.description}</p>}
+                          </td>
+                          <td className="px-4 py-3 text-gray-700">{formatDateDisplay(expense.expense_date)}</td>
+                          <td className="px-4 py-3 text-right font-semibold text-gray-900">৳ {Number(expense.amount).toFixed(2)}</td>
+                          <td className="px-4 py-3 text-gray-600">{deletedLabel(expense)}</td>
+                          <td className="px-4 py-3">
+                            {actionButtons(
+                              expense.id,
+                              () => runAction(expense.id, () => restoreExpense(expense.id), 'Expense restored'),
+                              () => handlePurge(`the ${expense.category} expense`, expense.id, purgeExpense)
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {!canManageBookings && !canManageExpenses && (
+            <p className="text-slate-600">You do not have permission to restore or delete records.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+import React, { useEffect, useState } from 'react';
+import { ListPlus, Loader, Plus, RefreshCw, CalendarPlus, X, RotateCcw } from 'lucide-react';
+import supabase from '../services/supabaseClient';
+import { Booking, Room, WaitlistEntry } from '../types';
+import {
+  NewWaitlistEntry,
+  addToWaitlist,
+  closeWaitlistEntry,
+  convertWaitlistEntry,
+  fetchOpenWaitlist,
+  matchWaitlist,
+  resetWaitlistEntry,
+} from '../services/waitlistService';
+import { calculateNights, formatDateDisplay } from '../utils/bookingUtils';
+import { useModal } from '../hooks/useModal';
+import useAuth from '../hooks/useAuth';
+import BookingForm from '../components/BookingForm';
+
+const emptyEntry = (): NewWaitlistEntry => ({
+  guest_name: '',
+  guest_phone: '',
+  guest_email: '',
+  check_in: '',
+  check_out: '',
+  room_id: '',
+  room_type: '',
+  party_size: 1,
+  notes: '',
+});
+
+export default function WaitlistPage() {
+  const { can } = useAuth();
+  const { showAlert, showConfirm } = useModal();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<NewWaitlistEntry>(emptyEntry);
+  const [saving, setSaving] = useState(false);
+  const [matching, setMatching] = useState(false);
+  const [converting, setConverting] = useState<WaitlistEntry | null>(null);
+
+  const canManage = can('bookings.manage');
+  const roomTypes = Array.from(new Set(rooms.map((r) => r.type).filter((t): t is string => !!t))).sort();
+  const roomName = (id?: string | null) => rooms.find((r) => r.id === id)?.name || 'Unknown room';
+
+  useEffect(() => {
+    loadWaitlist();
+  }, []);
+
+  const loadWaitlist = async () => {
+    try {
+      const [openEntries, roomsRes] = await Promise.all([
+        fetchOpenWaitlist(),
+        supabase.from('rooms').select('*').order('name', { ascending: true }),
+      ]);
+      if (roomsRes.error) throw roomsRes.error;
+
+      setEntries(openEntries);
+      setRooms(roomsRes.data || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching waitlist:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the waitlist');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.check_in || !draft.check_out || draft.check_out <= draft.check_in) {
+      setError('Check-out must be after check-in');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addToWaitlist(draft);
+      setDraft(emptyEntry());
+      await loadWaitlist();
+    } catch (err) {
+      console.error('Error adding to waitlist:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add to the waitlist');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMatch = async () => {
+    setMatching(true);
+    try {
+      const matched = await matchWaitlist();
+      showAlert('Waitlist Checked', matched > 0 ? `${matched} guest(s) now have a room free` : 'No rooms have freed up yet', 'success');
+      await loadWaitlist();
+    } catch (err) {
+      console.error('Error matching waitlist:', err);
+      showAlert('Error', err instanceof Error ? err.message : 'Failed to check the waitlist', 'error');
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      await loadWaitlist();
+    } catch (err) {
+      console.error('Waitlist action failed:', err);
+      showAlert('Error', err instanceof Error ? err.message : 'Action failed', 'error');
+    }
+  };
+
+  const handleClose = (entry: WaitlistEntry) => {
+    showConfirm('Remove from Waitlist', `Remove ${entry.guest_name} from the waitlist?`, () =>
+      runAction(() => closeWaitlistEntry(entry.id))
+    );
+  };
+
+  const handleConverted = async (booking: Booking) => {
+    if (!converting) return;
+    const entry = converting;
+    setConverting(null);
+    await runAction(() => convertWaitlistEntry(entry.id, booking.id));
+  };
+
+  const describeRequest = (entry: WaitlistEntry) =>
+    entry.room_id ? roomName(entry.room_id) : entry.room_type ? `Any ${entry.room_type}` : 'Any room';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-emerald-50 to-slate-100 p-6 rounded-2xl shadow-lg">
+      {/* Header */}
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 mb-2 flex items-center gap-2">
+            <ListPlus className="text-emerald-600" /> Waitlist
+          </h1>
+          <p className="text-slate-600">Guests waiting for fully booked dates. They are matched when a booking frees a room.</p>
+        </div>
+        {canManage && (
+          <button
+            onClick={handleMatch}
+            disabled={matching}
+            className="px-4 py-2 bg-white border border-emerald-300 hover:bg-emerald-50 disabled:opacity-50 text-emerald-700 rounded-lg font-medium flex items-center gap-2 transition"
+          >
+            <RefreshCw size={16} className={matching ? 'animate-spin' : ''} />
+            Check Now
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <span className="text-red-800">Error: {error}</span>
+        </div>
+      )}
+
+      {/* Add */}
+      {canManage && (
+        <form onSubmit={handleAdd} className="bg-white rounded-lg shadow p-4 mb-6 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Guest Name *</label>
+            <input
+              type="text"
+              value={draft.guest_name}
+              onChange={(e) => setDraft({ ...draft, guest_name: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Phone *</label>
+            <input
+              type="tel"
+              value={draft.guest_phone}
+              onChange={(e) => setDraft({ ...draft, guest_phone: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Check-in *</label>
+            <input
+              type="date"
+              value={draft.check_in}
+              onChange={(e) => setDraft({ ...draft, check_in: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Check-out *</label>
+            <input
+              type="date"
+              value={draft.check_out}
+              onChange={(e) => setDraft({ ...draft, check_out: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Room</label>
+            <select
+              value={draft.room_id || ''}
+              onChange={(e) => setDraft({ ...draft, room_id: e.target.value, room_type: e.target.value ? '' : draft.room_type })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+            >
+              <option value="">Any room</option>
+              {rooms.map((room) => (
+                <option key={room.id} value={room.id}>
+                  {room.name} ({room.capacity} guests)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Room Type</label>
+            <select
+              value={draft.room_type || ''}
+              onChange={(e) => setDraft({ ...draft, room_type: e.target.value })}
+              disabled={!!draft.room_id}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500 disabled:bg-gray-100"
+            >
+              <option value="">Any type</option>
+              {roomTypes.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Party Size *</label>
+            <input
+              type="number"
+              min="1"
+              value={draft.party_size}
+              onChange={(e) => setDraft({ ...draft, party_size: parseInt(e.target.value) || 1 })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition"
+          >
+            {saving ? <Loader size={18} className="animate-spin" /> : <Plus size={18} />}
+            Add to Waitlist
+          </button>
+          <div className="md:col-span-4">
+            <input
+              type="text"
+              placeholder="Notes (optional)"
+              value={draft.notes || ''}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:border-emerald-500"
+            />
+          </div>
+        </form>
+      )}
+
+      {/* Entries */}
+      {loading ? (
+        <div className="flex justify-center items-center p-8">
+          <Loader size={32} className="animate-spin text-emerald-600" />
+          <span className="ml-2 text-gray-700">Loading waitlist...</span>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-emerald-50 border-b border-emerald-200">
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Guest</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Dates</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Wants</th>
+                <th className="px-4 py-3 text-center font-semibold text-gray-700">Party</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                <th className="px-4 py-3 text-right font-semibold text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-8 text-gray-500">
+                    Nobody is waiting
+                  </td>
+                </tr>
+              ) : (
+                entries.map((entry) => (
+                  <tr key={entry.id} className={`border-b border-gray-100 ${entry.status === 'matched' ? 'bg-emerald-50' : ''}`}>
+                    <td className="px-4 py-3">
+                      <p className="font-semibold text-gray-900">{entry.guest_name}</p>
+                      <p className="text-xs text-gray-500">{entry.guest_phone}</p>
+                      {entry.notes && <p className="text-xs text-gray-500 italic">{entry.notes}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {formatDateDisplay(entry.check_in)} - {formatDateDisplay(entry.check_out)}
+                      <p className="text-xs text-gray-500">{calculateNights(entry.check_in, entry.check_out)} night(s)</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{describeRequest(entry)}</td>
+                    <td className="px-4 py-3 text-center text-gray-700">{entry.party_size}</td>
+                    <td className="px-4 py-3">
+                      {entry.status === 'matched' ? (
+                        <>
+                          <span className="px-2 py-1 rounded text-xs font-bold bg-green-100 text-green-800">
+                            {roomName(entry.matched_room_id)} is free
+                          </span>
+                          {entry.matched_at && (
+                            <p className="text-xs text-gray-500 mt-1">since {new Date(entry.matched_at).toLocaleString()}</p>
+                          )}
+                        </>
+                      ) : (
+                        <span className="px-2 py-1 rounded text-xs font-bold bg-yellow-100 text-yellow-800">Waiting</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {canManage && (
+                        <div className="flex gap-2 justify-end">
+                          <button
+                            onClick={() => setConverting(entry)}
+                            className="px-3 py-1 rounded text-xs font-bold bg-emerald-100 text-emerald-700 hover:bg-emerald-200 flex items-center gap-1"
+                          >
+                            <CalendarPlus size={14} /> Book
+                          </button>
+                          {entry.status === 'matched' && (
+                            <button
+                              onClick={() => runAction(() => resetWaitlistEntry(entry.id))}
+                              className="px-3 py-1 rounded text-xs font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 flex items-center gap-1"
+                              title="The room was taken again; wait for the next one"
+                            >
+                              <RotateCcw size={14} /> Keep Waiting
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleClose(entry)}
+                            className="px-3 py-1 rounded text-xs font-bold bg-red-100 text-red-700 hover:bg-red-200 flex items-center gap-1"
+                          >
+                            <X size={14} /> Remove
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Convert to booking */}
+      {converting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <div className="bg-gradient-to-r from-emerald-500 to-teal-600 px-6 py-4 rounded-t-lg flex items-center justify-between">
+              <h2 className="text-xl font-bold text-white">Book {converting.guest_name}</h2>
+              <button onClick={() => setConverting(null)} className="text-white hover:text-emerald-100" title="Close">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-4 sm:p-6">
+              <BookingForm key={converting.id} waitlistEntry={converting} onBookingAdded={handleConverted} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import supabase from './supabaseClient';
+import { AuditAction, AuditEntity, AuditLogEntry } from '../types';
+
+export interface AuditFilters {
+  entity?: AuditEntity;
+  action?: AuditAction;
+  actor?: string;
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string; // yyyy-mm-dd, inclusive
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// Date filters are the resort's calendar days (Asia/Dhaka, which has no daylight saving)
+const RESORT_UTC_OFFSET = '+06:00';
+
+// One page of the activity feed, newest first, with the total for pagination
+export const fetchAuditLog = async (
+  filters: AuditFilters,
+  page: number
+): Promise<{ entries: AuditLogEntry[]; total: number }> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('occurred_at', { ascending: false })
+    .range((page - 1) * AUDIT_PAGE_SIZE, page * AUDIT_PAGE_SIZE - 1);
+
+  if (filters.entity) query = query.eq('entity', filters.entity);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actor) query = query.ilike('actor_email', `%${filters.actor}%`);
+  if (filters.from) query = query.gte('occurred_at', `${filters.from}T00:00:00${RESORT_UTC_OFFSET}`);
+  if (filters.to) query = query.lte('occurred_at', `${filters.to}T23:59:59.999${RESORT_UTC_OFFSET}`);
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+  return { entries: data || [], total: count || 0 };
+};
+
+// Everything that happened to a booking and its room lines, newest first
+export const fetchBookingHistory = async (bookingId: string): Promise<AuditLogEntry[]> => {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('occurred_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
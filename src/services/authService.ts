@@ -0,0 +1,88 @@
+import supabase from './supabaseClient';
+import { LoginHistoryEntry } from '../types';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Where password reset and invite emails land to choose a new password
+export const PASSWORD_RESET_PATH = '/reset-password';
+
+// Whether this page load came from a reset or invite email. Read as the app loads, before
+// the Supabase client takes the session out of the URL hash and clears it.
+let openedFromEmailLink = /(^#|&)type=(recovery|invite)(&|$)/.test(window.location.hash);
+
+/**
+ * Whether the current session may set a new password without the current one: only a
+ * session opened by a reset or invite link (or a PASSWORD_RECOVERY event), once.
+ */
+export const canSetPasswordWithoutCurrent = (): boolean => openedFromEmailLink;
+
+export const markPasswordRecoverySession = (): void => {
+  openedFromEmailLink = true;
+};
+
+/**
+ * Record the sign-in that just happened. /api/record-sign-in adds the IP address; when it
+ * cannot be reached the row is written from here without one.
+ */
+export const recordSignIn = async (): Promise<void> => {
+  const { data } = await supabase.auth.getSession();
+  try {
+    const response = await fetch('/api/record-sign-in', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${data.session?.access_token || ''}` },
+    });
+    if (response.ok) return;
+  } catch (err) {
+    console.warn('Sign-in recorder unreachable:', err);
+  }
+
+  const { error } = await supabase.from('login_history').insert([{ user_agent: navigator.userAgent }]);
+  if (error) throw error;
+};
+
+export const fetchLoginHistory = async (email: string, limit = 20): Promise<LoginHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('login_history')
+    .select('*')
+    .eq('email', email.toLowerCase())
+    .order('signed_in_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Change the signed-in user's password. The current password is checked first by signing
+ * in with it again, so an unattended session cannot be used to take over the account.
+ */
+export const changePassword = async (email: string, currentPassword: string, newPassword: string): Promise<void> => {
+  const { error: verifyError } = await supabase.auth.signInWithPassword({ email, password: currentPassword });
+  if (verifyError) throw new Error('Current password is incorrect');
+
+  const { error } = await supabase.auth.updateUser({ password: newPassword });
+  if (error) throw error;
+};
+
+// Set a new password for the session opened by a reset or invite link
+export const setNewPassword = async (newPassword: string): Promise<void> => {
+  if (!openedFromEmailLink) throw new Error('Open the link from your email again to set a new password');
+
+  const { error } = await supabase.auth.updateUser({ password: newPassword });
+  if (error) throw error;
+  openedFromEmailLink = false;
+};
+
+export const sendPasswordReset = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: `${window.location.origin}${PASSWORD_RESET_PATH}`,
+  });
+  if (error) throw error;
+};
+
+// Shared rules for every new-password form; returns the problem, or null when it is acceptable
+export const validateNewPassword = (password: string, confirmation: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  if (password !== confirmation) return 'Passwords do not match';
+  return null;
+};
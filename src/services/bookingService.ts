@@ -0,0 +1,237 @@
+import supabase from './supabaseClient';
+import { Booking, BookingRoom, BookingRpcErrorDetail, CreateBookingResult, PaymentMethod } from '../types';
+
+// advance_method is how the advance was paid; it is recorded on the first payments row, not on the booking
+export type NewBooking = Omit<
+  Booking,
+  | 'id'
+  | 'created_at'
+  | 'updated_at'
+  | 'extra_income'
+  | 'discount'
+  | 'rooms'
+  | 'booking_rooms'
+  | 'room_id'
+  | 'payments'
+  | 'deleted_at'
+  | 'deleted_by'
+> & { room_id: string | null; advance_method?: PaymentMethod };
+
+export interface CheckoutDetails {
+  extra_income: number;
+  discount: number;
+  method: PaymentMethod;
+  reference?: string;
+}
+
+export interface AdvanceDetails {
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+}
+
+export interface CancellationDetails {
+  refund_amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export type NewBookingRoom = Pick<
+  BookingRoom,
+  'room_id' | 'check_in_date' | 'check_out_date' | 'price_per_night' | 'vat' | 'rate_plan_id'
+>;
+
+/**
+ * Error returned by the booking RPCs. `code` is the Postgres SQLSTATE,
+ * so callers can use isRoomConflictError() on it like any Supabase error.
+ */
+export class BookingRpcError extends Error {
+  code: string;
+  hint?: string;
+
+  constructor({ code, message, hint }: BookingRpcErrorDetail) {
+    super(message);
+    this.name = 'BookingRpcError';
+    this.code = code;
+    this.hint = hint;
+  }
+}
+
+const unwrapBookingResult = (data: unknown, error: unknown, fallbackMessage: string): CreateBookingResult => {
+  if (error) throw error;
+
+  const result = data as CreateBookingResult;
+  if (!result.success || !result.booking_id) {
+    throw new BookingRpcError(result.error || { code: 'UNKNOWN', message: fallbackMessage });
+  }
+  return result;
+};
+
+// Unwrap a create_booking/update_booking result and load the saved booking with its room lines
+const resolveBookingResult = async (
+  data: unknown,
+  error: unknown,
+  fallbackMessage: string
+): Promise<Booking> => {
+  const result = unwrapBookingResult(data, error, fallbackMessage);
+
+  const { data: fullBooking, error: fetchError } = await supabase
+    .from('bookings')
+    .select('*, booking_rooms(*), payments(*)')
+    .eq('id', result.booking_id)
+    .single();
+
+  if (fetchError) throw fetchError;
+  return fullBooking;
+};
+
+/**
+ * Create a booking header, all of its room lines and the advance payment in one database transaction.
+ * Either everything is saved or nothing is; on failure a BookingRpcError is thrown.
+ * Resolves with the saved booking including its booking_rooms.
+ */
+export const createBooking = async (booking: NewBooking, rooms: NewBookingRoom[] = []): Promise<Booking> => {
+  const { data, error } = await supabase.rpc('create_booking', {
+    p_booking: booking,
+    p_rooms: rooms,
+  });
+
+  return resolveBookingResult(data, error, 'Failed to create booking');
+};
+
+/**
+ * Update a Confirmed booking and replace all of its room lines in one database transaction.
+ * Status, refunds and created_at are left untouched. Throws BookingRpcError on failure.
+ */
+export const updateBooking = async (
+  bookingId: string,
+  booking: NewBooking,
+  rooms: NewBookingRoom[] = []
+): Promise<Booking> => {
+  const { data, error } = await supabase.rpc('update_booking', {
+    p_booking_id: bookingId,
+    p_booking: booking,
+    p_rooms: rooms,
+  });
+
+  return resolveBookingResult(data, error, 'Failed to update booking');
+};
+
+/**
+ * Convert a hold (Tentative) into a Confirmed booking and record its advance, in one transaction.
+ * Fails with a room conflict (23P01) if an expired hold's rooms were booked in the meantime.
+ */
+export const confirmBooking = async (bookingId: string, advance: AdvanceDetails): Promise<void> => {
+  const { data, error } = await supabase.rpc('confirm_booking', {
+    p_booking_id: bookingId,
+    p_advance: advance.amount,
+    p_method: advance.method,
+    p_reference: advance.reference || null,
+  });
+
+  unwrapBookingResult(data, error, 'Failed to confirm booking');
+};
+
+// Confirmed -> Checked-in; the database rejects this before the check-in date
+export const checkInBooking = async (bookingId: string): Promise<void> => {
+  const { data, error } = await supabase.rpc('check_in_booking', { p_booking_id: bookingId });
+  unwrapBookingResult(data, error, 'Failed to check in booking');
+};
+
+/**
+ * Check out a checked-in booking: save extra income/discount and record the remaining balance
+ * as the final payment, in one transaction. Resolves with the amount collected.
+ */
+export const checkoutBooking = async (bookingId: string, details: CheckoutDetails): Promise<number> => {
+  const { data, error } = await supabase.rpc('checkout_booking', {
+    p_booking_id: bookingId,
+    p_extra_income: details.extra_income,
+    p_discount: details.discount,
+    p_method: details.method,
+    p_reference: details.reference || null,
+  });
+
+  return unwrapBookingResult(data, error, 'Failed to check out booking').amount_collected || 0;
+};
+
+/**
+ * Cancel a booking and record its refund in the payments ledger, in one transaction.
+ * The database rejects a refund larger than what the guest has paid.
+ */
+export const cancelBooking = async (bookingId: string, details: CancellationDetails): Promise<void> => {
+  const { data, error } = await supabase.rpc('cancel_booking', {
+    p_booking_id: bookingId,
+    p_refund_amount: details.refund_amount,
+    p_method: details.method,
+    p_reference: details.reference || null,
+    p_notes: details.notes || null,
+  });
+
+  unwrapBookingResult(data, error, 'Failed to cancel booking');
+};
+
+/**
+ * Mark a confirmed booking as a no-show, recording whatever refund the refund policy allows.
+ * Its rooms are freed and nothing more is owed on it.
+ */
+export const markNoShow = async (bookingId: string, details: CancellationDetails): Promise<void> => {
+  const { data, error } = await supabase.rpc('mark_no_show', {
+    p_booking_id: bookingId,
+    p_refund_amount: details.refund_amount,
+    p_method: details.method,
+    p_reference: details.reference || null,
+    p_notes: details.notes || null,
+  });
+
+  unwrapBookingResult(data, error, 'Failed to mark booking as a no-show');
+};
+
+// Move a booking to the Trash; it stops holding its rooms but keeps its payments and history
+export const softDeleteBooking = async (bookingId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', bookingId)
+    .select('id');
+
+  if (error) throw error;
+  // Nothing matched: already purged, or not permitted
+  if (!data || data.length === 0) throw new Error('Booking could not be moved to the Trash. Refresh and try again.');
+};
+
+/**
+ * Bring a booking back from the Trash. Its rooms are re-checked, so this fails with a
+ * room conflict (23P01) if they were booked in the meantime.
+ */
+export const restoreBooking = async (bookingId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .update({ deleted_at: null })
+    .eq('id', bookingId)
+    .select('id');
+
+  if (error) throw error;
+  // Nothing matched: already purged, or not permitted
+  if (!data || data.length === 0) throw new Error('Booking could not be restored. Refresh the Trash.');
+};
+
+/**
+ * Permanently delete a booking that is already in the Trash, with its room lines, in one
+ * database transaction. Fails if the booking was restored in the meantime.
+ */
+export const purgeBooking = async (bookingId: string): Promise<void> => {
+  const { data, error } = await supabase.rpc('purge_booking', { p_booking_id: bookingId });
+  unwrapBookingResult(data, error, 'Failed to delete booking');
+};
+
+export const fetchDeletedBookings = async (): Promise<Booking[]> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('*, booking_rooms(*)')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
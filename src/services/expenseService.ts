@@ -0,0 +1,52 @@
+import supabase from './supabaseClient';
+import { Expense } from '../types';
+
+// Move an expense to the Trash; it drops out of totals and reports until restored
+export const softDeleteExpense = async (expenseId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('expenses')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', expenseId)
+    .select('id');
+
+  if (error) throw error;
+  // Nothing matched: already purged, or not permitted
+  if (!data || data.length === 0) throw new Error('Expense could not be moved to the Trash. Refresh and try again.');
+};
+
+export const restoreExpense = async (expenseId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('expenses')
+    .update({ deleted_at: null })
+    .eq('id', expenseId)
+    .select('id');
+
+  if (error) throw error;
+  // Nothing matched: already purged, or not permitted
+  if (!data || data.length === 0) throw new Error('Expense could not be restored. Refresh the Trash.');
+};
+
+// Permanently delete an expense that is already in the Trash
+export const purgeExpense = async (expenseId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('expenses')
+    .delete()
+    .eq('id', expenseId)
+    .not('deleted_at', 'is', null)
+    .select('id');
+
+  if (error) throw error;
+  // Nothing matched: restored in the meantime, or not permitted
+  if (!data || data.length === 0) throw new Error('Expense could not be deleted. Refresh the Trash.');
+};
+
+export const fetchDeletedExpenses = async (): Promise<Expense[]> => {
+  const { data, error } = await supabase
+    .from('expenses')
+    .select('*')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,58 @@
+import supabase from './supabaseClient';
+import { Booking, Guest } from '../types';
+import { formatPhoneNumber } from '../utils/calculationUtils';
+
+export type GuestInput = Pick<Guest, 'name' | 'email' | 'notes'>;
+
+export type GuestWithBookings = Guest & { bookings: Booking[] };
+
+// Every guest with their linked bookings, for the directory's stay counts and spend
+export const fetchGuests = async (): Promise<GuestWithBookings[]> => {
+  const { data, error } = await supabase
+    .from('guests')
+    .select('*, bookings(*)')
+    .is('bookings.deleted_at', null)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Guests are unique by normalized phone, so any formatting the user types finds the same row
+export const findGuestByPhone = async (phone: string): Promise<Guest | null> => {
+  const { data, error } = await supabase
+    .from('guests')
+    .select('*')
+    .eq('phone', formatPhoneNumber(phone))
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateGuest = async (id: string, guest: GuestInput): Promise<void> => {
+  const { error } = await supabase
+    .from('guests')
+    .update({
+      name: guest.name,
+      email: guest.email || null,
+      notes: guest.notes || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// Bookings linked to the guest, with room lines and payments for the stay history
+export const fetchGuestBookings = async (guestId: string): Promise<Booking[]> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('*, booking_rooms(*), payments(*)')
+    .eq('guest_id', guestId)
+    .is('deleted_at', null)
+    .order('check_in', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,22 @@
+import supabase from './supabaseClient';
+import { HousekeepingStatus, Room } from '../types';
+
+export const fetchRoomsForHousekeeping = async (): Promise<Room[]> => {
+  const { data, error } = await supabase.from('rooms').select('*').order('name', { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+// Goes through set_room_housekeeping_status() so housekeepers need no rooms.manage
+export const setHousekeepingStatus = async (roomId: string, status: HousekeepingStatus): Promise<void> => {
+  const { error } = await supabase.rpc('set_room_housekeeping_status', { p_room_id: roomId, p_status: status });
+  if (error) throw error;
+};
+
+// Current housekeeping state of the given rooms, read fresh before a check-in
+export const fetchRoomsByIds = async (roomIds: string[]): Promise<Room[]> => {
+  if (roomIds.length === 0) return [];
+  const { data, error } = await supabase.from('rooms').select('*').in('id', roomIds);
+  if (error) throw error;
+  return data || [];
+};
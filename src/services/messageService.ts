@@ -0,0 +1,40 @@
+import supabase from './supabaseClient';
+import { BookingMessage } from '../types';
+
+export const fetchBookingMessages = async (bookingId: string): Promise<BookingMessage[]> => {
+  const { data, error } = await supabase
+    .from('message_log')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Save the message as queued before handing it to the provider, so nothing is sent unlogged
+export const queueMessage = async (bookingId: string, recipient: string, body: string): Promise<BookingMessage> => {
+  const { data, error } = await supabase
+    .from('message_log')
+    .insert([{ booking_id: bookingId, channel: 'whatsapp', recipient, body, status: 'queued' }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Used when the send endpoint could not be reached, so it never got to record the failure itself
+export const markMessageFailed = async (message: BookingMessage, reason: string): Promise<BookingMessage> => {
+  const { data, error } = await supabase
+    .from('message_log')
+    .update({ status: 'failed', last_error: reason, updated_at: new Date().toISOString() })
+    .eq('id', message.id)
+    .in('status', ['queued', 'failed'])
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  // The endpoint picked it up after all; its outcome stands
+  return data || message;
+};
@@ -0,0 +1,25 @@
+import supabase from './supabaseClient';
+import { MessageTemplate } from '../types';
+
+export type MessageTemplateInput = Pick<MessageTemplate, 'kind' | 'name' | 'body'>;
+
+export const fetchMessageTemplates = async (): Promise<MessageTemplate[]> => {
+  const { data, error } = await supabase.from('message_templates').select('*').order('kind');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// One template per kind, so saving replaces whatever is stored for that kind
+export const saveMessageTemplate = async (template: MessageTemplateInput): Promise<void> => {
+  const { error } = await supabase
+    .from('message_templates')
+    .upsert([{ ...template, updated_at: new Date().toISOString() }], { onConflict: 'kind' });
+
+  if (error) throw error;
+};
+
+export const deleteMessageTemplate = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('message_templates').delete().eq('id', id);
+  if (error) throw error;
+};
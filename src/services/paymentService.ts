@@ -0,0 +1,39 @@
+import supabase from './supabaseClient';
+import { Payment } from '../types';
+
+export type PaymentInput = Pick<Payment, 'booking_id' | 'kind' | 'amount' | 'method'> &
+  Partial<Pick<Payment, 'paid_at' | 'reference' | 'notes'>>;
+
+export const fetchPayments = async (bookingId: string): Promise<Payment[]> => {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('paid_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Record an installment (or refund) against a booking.
+ * The booking's advance/balance columns are refreshed by the database from the ledger.
+ * The staff user is filled in by the database from the session.
+ */
+export const recordPayment = async (payment: PaymentInput): Promise<Payment> => {
+  const { data, error } = await supabase
+    .from('payments')
+    .insert([
+      {
+        ...payment,
+        paid_at: payment.paid_at || new Date().toISOString(),
+        reference: payment.reference || null,
+        notes: payment.notes || null,
+      },
+    ])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
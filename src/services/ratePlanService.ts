@@ -0,0 +1,55 @@
+import supabase from './supabaseClient';
+import { RatePlan, RateSeason } from '../types';
+
+export type RatePlanInput = Pick<
+  RatePlan,
+  'name' | 'room_id' | 'room_type' | 'base_rate' | 'weekend_uplift_percent' | 'min_stay' | 'is_active'
+>;
+
+export type RateSeasonInput = Pick<RateSeason, 'rate_plan_id' | 'name' | 'start_date' | 'end_date' | 'nightly_rate' | 'min_stay'>;
+
+// Plans with their seasons, most specific first (room plans, then room types, then house-wide)
+export const fetchRatePlans = async (): Promise<RatePlan[]> => {
+  const { data, error } = await supabase
+    .from('rate_plans')
+    .select('*, seasons:rate_plan_seasons(*)')
+    .order('room_id', { ascending: true, nullsFirst: false })
+    .order('room_type', { ascending: true, nullsFirst: false })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveRatePlan = async (plan: RatePlanInput, id?: string): Promise<void> => {
+  // A plan is for one room or one room type; send null explicitly so switching clears the other
+  const row = {
+    ...plan,
+    room_id: plan.room_id || null,
+    room_type: plan.room_id ? null : plan.room_type || null,
+  };
+
+  const { error } = id
+    ? await supabase
+        .from('rate_plans')
+        .update({ ...row, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('rate_plans').insert([row]);
+
+  if (error) throw error;
+};
+
+export const deleteRatePlan = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('rate_plans').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const saveRateSeason = async (season: RateSeasonInput): Promise<void> => {
+  const { error } = await supabase.from('rate_plan_seasons').insert([{ ...season, min_stay: season.min_stay || null }]);
+  if (error) throw error;
+};
+
+export const deleteRateSeason = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('rate_plan_seasons').delete().eq('id', id);
+  if (error) throw error;
+};
@@ -0,0 +1,41 @@
+import supabase from './supabaseClient';
+import { RefundPolicy } from '../types';
+
+export type RefundPolicyInput = Pick<
+  RefundPolicy,
+  'policy_name' | 'days_before_checkin' | 'refund_percentage' | 'description' | 'is_custom'
+>;
+
+export const fetchRefundPolicies = async (): Promise<RefundPolicy[]> => {
+  const { data, error } = await supabase
+    .from('refund_policies')
+    .select('*')
+    .order('days_before_checkin', { ascending: false, nullsFirst: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveRefundPolicy = async (policy: RefundPolicyInput, id?: string): Promise<void> => {
+  // Custom policies store NULL days/percentage; send null explicitly so switching a tier to custom clears them
+  const row = {
+    ...policy,
+    days_before_checkin: policy.is_custom ? null : policy.days_before_checkin,
+    refund_percentage: policy.is_custom ? null : policy.refund_percentage,
+    description: policy.description ?? null,
+  };
+
+  const { error } = id
+    ? await supabase
+        .from('refund_policies')
+        .update({ ...row, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('refund_policies').insert([row]);
+
+  if (error) throw error;
+};
+
+export const deleteRefundPolicy = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('refund_policies').delete().eq('id', id);
+  if (error) throw error;
+};
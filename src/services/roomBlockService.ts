@@ -0,0 +1,74 @@
+import supabase from './supabaseClient';
+import { Expense, RoomBlock } from '../types';
+
+export type NewRoomBlock = Pick<RoomBlock, 'room_id' | 'start_date' | 'end_date' | 'reason' | 'expense_id'>;
+
+// Blocks still in force on or after the given day (all of them when omitted), earliest first
+export const fetchRoomBlocks = async (fromDate?: string): Promise<RoomBlock[]> => {
+  let query = supabase.from('room_blocks').select('*').order('start_date', { ascending: true });
+  if (fromDate) query = query.gt('end_date', fromDate);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Blocks covering any night of [from, to)
+export const fetchRoomBlocksBetween = async (from: string, to: string): Promise<RoomBlock[]> => {
+  const { data, error } = await supabase
+    .from('room_blocks')
+    .select('*')
+    .lt('start_date', to)
+    .gt('end_date', from);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Take a room out of service. The database refuses a block over active stays or another
+ * block of the same room with a 23P01 error, like a double booking.
+ */
+export const addRoomBlock = async (block: NewRoomBlock): Promise<RoomBlock> => {
+  const { data, error } = await supabase
+    .from('room_blocks')
+    .insert([{ ...block, reason: block.reason.trim(), expense_id: block.expense_id || null }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateRoomBlock = async (blockId: string, block: NewRoomBlock): Promise<void> => {
+  const { error } = await supabase
+    .from('room_blocks')
+    .update({
+      ...block,
+      reason: block.reason.trim(),
+      expense_id: block.expense_id || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', blockId);
+
+  if (error) throw error;
+};
+
+export const deleteRoomBlock = async (blockId: string): Promise<void> => {
+  const { error } = await supabase.from('room_blocks').delete().eq('id', blockId);
+  if (error) throw error;
+};
+
+// Recent Maintenance expenses a block can be linked to
+export const fetchMaintenanceExpenses = async (): Promise<Expense[]> => {
+  const { data, error } = await supabase
+    .from('expenses')
+    .select('*')
+    .eq('category', 'Maintenance')
+    .is('deleted_at', null)
+    .order('expense_date', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return data || [];
+};
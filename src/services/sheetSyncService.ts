@@ -0,0 +1,44 @@
+import supabase from './supabaseClient';
+import { SheetSyncOutboxEntry } from '../types';
+
+const callSheetSync = async (body: Record<string, unknown>): Promise<Response> => {
+  const { data } = await supabase.auth.getSession();
+  const response = await fetch('/api/sync-to-sheet', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${data.session?.access_token || ''}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error || `Sheet sync returned ${response.status}`);
+  }
+  return response;
+};
+
+// Changes are queued and written by the server; this only hurries along what is already due
+export const replaySheetSync = async (): Promise<{ replayed: number; failed: number }> => {
+  const response = await callSheetSync({ action: 'replay' });
+  return response.json();
+};
+
+export const resyncSheet = async (): Promise<{ rows: number }> => {
+  const response = await callSheetSync({ action: 'resync' });
+  return response.json();
+};
+
+// Entries still waiting for the sheet, newest first
+export const fetchSheetSyncBacklog = async (): Promise<SheetSyncOutboxEntry[]> => {
+  const { data, error } = await supabase
+    .from('sheet_sync_outbox')
+    .select('*')
+    .in('status', ['pending', 'processing', 'failed'])
+    .order('queued_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,64 @@
+import supabase from './supabaseClient';
+import { StaffMember, StaffRole } from '../types';
+import { PASSWORD_RESET_PATH } from './authService';
+
+export type StaffInput = Pick<StaffMember, 'email' | 'name' | 'role'>;
+
+// The signed-in user's staff row; null when they are not (or no longer) on the staff list
+export const fetchCurrentStaff = async (email: string): Promise<StaffMember | null> => {
+  const { data, error } = await supabase
+    .from('staff')
+    .select('*')
+    .eq('email', email.toLowerCase())
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchStaff = async (): Promise<StaffMember[]> => {
+  const { data, error } = await supabase
+    .from('staff')
+    .select('*')
+    .order('is_active', { ascending: false })
+    .order('email', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Add a staff member and email them a Supabase invite. Goes through /api/invite-staff
+ * because sending invites needs the service role key.
+ */
+export const inviteStaff = async (staff: StaffInput): Promise<{ invited: boolean }> => {
+  const { data } = await supabase.auth.getSession();
+  const response = await fetch('/api/invite-staff', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${data.session?.access_token || ''}`,
+    },
+    // Invitees land on the reset page to choose their first password
+    body: JSON.stringify({ ...staff, redirect_to: `${window.location.origin}${PASSWORD_RESET_PATH}` }),
+  });
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error || `Invite failed (${response.status})`);
+  }
+  return payload;
+};
+
+export const updateStaff = async (
+  id: string,
+  changes: Partial<{ name: string; role: StaffRole; is_active: boolean }>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('staff')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,33 @@
+import supabase from './supabaseClient';
+import { TaxRate } from '../types';
+
+export type TaxRateInput = Pick<TaxRate, 'name' | 'kind' | 'rate' | 'mode' | 'effective_from' | 'effective_to' | 'is_active'>;
+
+export const fetchTaxRates = async (): Promise<TaxRate[]> => {
+  const { data, error } = await supabase
+    .from('tax_rates')
+    .select('*')
+    .order('kind', { ascending: false })
+    .order('effective_from', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveTaxRate = async (rate: TaxRateInput, id?: string): Promise<void> => {
+  const row = { ...rate, effective_to: rate.effective_to || null };
+
+  const { error } = id
+    ? await supabase
+        .from('tax_rates')
+        .update({ ...row, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('tax_rates').insert([row]);
+
+  if (error) throw error;
+};
+
+export const deleteTaxRate = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('tax_rates').delete().eq('id', id);
+  if (error) throw error;
+};
@@ -0,0 +1,85 @@
+import supabase from './supabaseClient';
+import { WaitlistEntry } from '../types';
+import { formatPhoneNumber } from '../utils/calculationUtils';
+
+export type NewWaitlistEntry = Pick<
+  WaitlistEntry,
+  'guest_name' | 'guest_phone' | 'guest_email' | 'check_in' | 'check_out' | 'room_id' | 'room_type' | 'party_size' | 'notes'
+>;
+
+// Entries still waiting or matched, soonest stay first
+export const fetchOpenWaitlist = async (): Promise<WaitlistEntry[]> => {
+  const { data, error } = await supabase
+    .from('waitlist')
+    .select('*')
+    .in('status', ['waiting', 'matched'])
+    .order('check_in', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchMatchedWaitlistCount = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from('waitlist')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'matched');
+
+  if (error) throw error;
+  return count || 0;
+};
+
+/**
+ * Add a guest to the waitlist. The database matches the entry as it is saved, so it comes
+ * back already matched when a suitable room is free.
+ */
+export const addToWaitlist = async (entry: NewWaitlistEntry): Promise<WaitlistEntry> => {
+  const { data: inserted, error: insertError } = await supabase
+    .from('waitlist')
+    .insert([
+      {
+        ...entry,
+        guest_phone: formatPhoneNumber(entry.guest_phone),
+        guest_email: entry.guest_email || null,
+        room_id: entry.room_id || null,
+        room_type: entry.room_type || null,
+        notes: entry.notes || null,
+      },
+    ])
+    .select('id')
+    .single();
+
+  if (insertError) throw insertError;
+
+  const { data, error } = await supabase.from('waitlist').select('*').eq('id', inserted.id).single();
+  if (error) throw error;
+  return data;
+};
+
+const setWaitlistStatus = async (id: string, changes: Partial<WaitlistEntry>): Promise<void> => {
+  const { error } = await supabase
+    .from('waitlist')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const closeWaitlistEntry = (id: string) => setWaitlistStatus(id, { status: 'closed' });
+
+// A match that no longer fits (the room was booked again) goes back to waiting for the next one
+export const resetWaitlistEntry = (id: string) =>
+  setWaitlistStatus(id, { status: 'waiting', matched_room_id: null, matched_at: null });
+
+export const convertWaitlistEntry = (id: string, bookingId: string) =>
+  setWaitlistStatus(id, { status: 'converted', booking_id: bookingId });
+
+/**
+ * Look for free rooms for every waiting entry now. Bookings that free rooms already do
+ * this on their own (see match_waiting_entries() in the waitlist migration); resolves with how many matched.
+ */
+export const matchWaitlist = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('match_waitlist');
+  if (error) throw error;
+  return data || 0;
+};
@@ -1,157 +1,91 @@
-import { Booking, BookingRoom, Room } from '../types';
+import { Booking, BookingMessage, MessageTemplate, MessageTemplateKind, RefundPolicy, Room } from '../types';
+import supabase from './supabaseClient';
+import { markMessageFailed, queueMessage } from './messageService';
+import { DEFAULT_REFUND_POLICIES } from '../utils/calculationUtils';
+import { DEFAULT_MESSAGE_TEMPLATES, buildTemplateValues, getMessageTemplate, renderTemplate } from '../utils/templateUtils';
+
+/**
+ * Render a guest message for a booking from its template (the booking confirmation by default).
+ * Pass the templates from useMessageTemplates; the built-in templates are used otherwise.
+ */
+export const generateWhatsAppMessage = (
+  booking: Booking,
+  rooms: Room[],
+  refundPolicies: RefundPolicy[] = DEFAULT_REFUND_POLICIES,
+  templates: MessageTemplate[] = DEFAULT_MESSAGE_TEMPLATES,
+  kind: MessageTemplateKind = 'booking_confirmation'
+): string => {
+  const template = getMessageTemplate(templates, kind);
+  return renderTemplate(template.body, buildTemplateValues(booking, rooms, refundPolicies));
+};
 
-export const generateWhatsAppMessage = (booking: Booking, rooms: Room[]): string => {
-  const checkInDate = new Date(booking.check_in).toLocaleDateString('en-GB', {
-    day: '2-digit',
-    month: 'long',
-    year: 'numeric'
-  });
-  
-  const checkOutDate = new Date(booking.check_out).toLocaleDateString('en-GB', {
-    day: '2-digit',
-    month: 'long',
-    year: 'numeric'
-  });
+export interface WhatsAppSendResult {
+  success: boolean;
+  message: string;
+  log?: BookingMessage;
+}
 
-  const totalAmount = booking.price + booking.vat_amount;
-  const payableOnArrival = booking.checkout_payable;
+// Hand a logged message to /api/send-whatsapp, which sends it (with retries) and records the outcome
+const deliverMessage = async (log: BookingMessage): Promise<WhatsAppSendResult> => {
+  const { data: sessionData } = await supabase.auth.getSession();
 
-  // Build room details section
-  let roomDetailsSection = '';
-  
-  if (booking.rooms && booking.rooms.length > 0) {
-    // Multi-room booking
-    roomDetailsSection = '*ROOM BOOKINGS*\n';
-    booking.rooms.forEach((bookingRoom: BookingRoom, idx: number) => {
-      const room = rooms.find(r => r.id === bookingRoom.room_id);
-      const roomName = room?.name || `Room ${idx + 1}`;
-      const roomCheckIn = new Date(bookingRoom.check_in_date).toLocaleDateString('en-GB', {
-        day: '2-digit',
-        month: 'short',
-        year: 'numeric'
-      });
-      const roomCheckOut = new Date(bookingRoom.check_out_date).toLocaleDateString('en-GB', {
-        day: '2-digit',
-        month: 'short',
-        year: 'numeric'
-      });
-      const nights = bookingRoom.number_of_nights;
-      const pricePerNight = bookingRoom.price_per_night;
-      const totalRoomPrice = bookingRoom.total_price;
-      
-      roomDetailsSection += `\n${idx + 1}. ${roomName}\n   Check-In: ${roomCheckIn}\n   Check-Out: ${roomCheckOut}\n   Duration: ${nights} night(s)\n   Price/Night: BDT ${pricePerNight.toFixed(2)}\n   Total: BDT ${totalRoomPrice.toFixed(2)}`;
+  let response: Response;
+  try {
+    response = await fetch('/api/send-whatsapp', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${sessionData.session?.access_token || ''}`,
+      },
+      body: JSON.stringify({ message_id: log.id }),
     });
-    roomDetailsSection += '\n\n';
-  } else if (booking.room_id) {
-    // Single-room booking
-    const room = rooms.find(r => r.id === booking.room_id);
-    roomDetailsSection = `*STAY DETAILS*\nRoom: ${room?.name || 'Standard Room'}\n\n`;
+  } catch (error) {
+    console.error('❌ Message service unreachable:', error);
+    const failed = await markMessageFailed(log, 'Message service unreachable');
+    return { success: false, message: 'Message service unreachable. The message was saved and can be retried.', log: failed };
   }
 
-  const message = `Dear ${booking.guest_name},
-
-Greetings from Bonsai Eco Village 🌿  
-We are pleased to confirm your booking. Please review the details below for your reference:
-
----
-
-*GUEST INFORMATION*
-Name: ${booking.guest_name}  
-Contact No: ${booking.guest_phone}  
-Email: ${booking.guest_email || 'N/A'}  
-
----
-
-${roomDetailsSection}
-
-*STAY DETAILS*
-Check-In Date: ${checkInDate}  
-Check-Out Date: ${checkOutDate}  
-Check-In Time: ${booking.check_in_time || '2:00 PM'}  
-Check-Out Time: ${booking.check_out_time || '12:00 PM'}  
-
-Number of Adults: ${booking.num_adults || booking.guest_count || 1}  
-Booking Reference: ${booking.booking_no}  
-
----
-
-*PAYMENT DETAILS*
-• Base Amount: BDT ${booking.price.toFixed(2)}  
-• VAT (2.5%): BDT ${booking.vat_amount.toFixed(2)}  
-• Total Amount: BDT ${totalAmount.toFixed(2)}  
-• Advance Paid: BDT ${booking.advance.toFixed(2)}  
-• Remaining Payable on Arrival: BDT ${payableOnArrival.toFixed(2)}  
-
----
-
-*CANCELLATION POLICY*
-1. A minimum 15% cancellation charge applies if cancelled 7 days before check-in.  
-2. 50% of total amount charged if cancelled between 7 days to 72 hours before check-in.  
-3. 100% charge if cancelled within 72 hours prior to check-in.  
-
----
-
-*SPECIAL REMARKS*
-${booking.remarks || 'No special remarks'}
-
----
-
-Thank you for choosing Bonsai Eco Village 🌱  
-We look forward to welcoming you and ensuring you have a comfortable and memorable stay with us.
-
-For any assistance or special requests, please feel free to contact us anytime.
-
-Warm regards,  
-Bonsai Eco Village Team 🌿`;
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    const reason = payload?.error || `Message service returned ${response.status}`;
+    const failed = await markMessageFailed(log, reason);
+    return { success: false, message: reason, log: failed };
+  }
 
-  return message;
+  const updated = payload as BookingMessage;
+  if (updated.status === 'sending') {
+    return { success: false, message: 'This message is already being sent', log: updated };
+  }
+  return updated.status === 'sent'
+    ? { success: true, message: `WhatsApp message sent to ${updated.recipient}`, log: updated }
+    : { success: false, message: updated.last_error || 'Failed to send message', log: updated };
 };
 
+/**
+ * Send a WhatsApp message to a booking's guest through the configured provider.
+ * The message is logged against the booking first, so failed sends stay visible and can be retried.
+ */
 export const sendWhatsAppMessage = async (
-  phoneNumber: string,
-  message: string,
-  apiKey?: string
-): Promise<{ success: boolean; message: string }> => {
+  booking: Pick<Booking, 'id' | 'guest_phone'>,
+  message: string
+): Promise<WhatsAppSendResult> => {
   try {
-    // Format phone number - ensure it has country code
-    let formattedPhone = phoneNumber.replace(/\D/g, '');
-    if (!formattedPhone.startsWith('88')) {
-      formattedPhone = '88' + formattedPhone;
-    }
-
-    // Note: This requires WhatsApp Business API integration
-    // You can use services like:
-    // 1. Twilio WhatsApp API
-    // 2. WhatsApp Business API
-    // 3. Green API
-    // 4. WhatsApp Cloud API (Meta)
-
-    // For now, returning a placeholder response
-    // In production, integrate with your chosen service
-    
-    console.log(`📱 WhatsApp Message to: +${formattedPhone}`);
-    console.log(`Message:\n${message}`);
-
-    // Example: If using Twilio
-    // const response = await fetch('https://api.twilio.com/2010-04-01/Accounts/{ACCOUNT_SID}/Messages.json', {
-    //   method: 'POST',
-    //   headers: {
-    //     'Authorization': `Basic ${btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`)}`,
-    //     'Content-Type': 'application/x-www-form-urlencoded',
-    //   },
-    //   body: new URLSearchParams({
-    //     From: `whatsapp:${TWILIO_PHONE}`,
-    //     To: `whatsapp:+${formattedPhone}`,
-    //     Body: message,
-    //   }),
-    // });
-
+    const log = await queueMessage(booking.id, booking.guest_phone, message);
+    return await deliverMessage(log);
+  } catch (error) {
+    console.error('❌ Failed to send WhatsApp message:', error);
     return {
-      success: true,
-      message: `WhatsApp message sent to +${formattedPhone}. Please configure WhatsApp API in settings.`
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to send message'
     };
+  }
+};
+
+export const retryWhatsAppMessage = async (log: BookingMessage): Promise<WhatsAppSendResult> => {
+  try {
+    return await deliverMessage(log);
   } catch (error) {
-    console.error('❌ Failed to send WhatsApp message:', error);
+    console.error('❌ Failed to retry WhatsApp message:', error);
     return {
       success: false,
       message: error instanceof Error ? error.message : 'Failed to send message'
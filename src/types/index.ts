@@ -9,15 +9,20 @@ export interface BookingRoom {
   price_per_night: number;
   total_price: number;
   vat: number;
+  rate_plan_id?: string | null; // Plan that priced this room line
   created_at: string;
   updated_at: string;
 }
 
+// See src/utils/bookingStatus.ts for the transitions between these
+export type BookingStatus = 'Tentative' | 'Confirmed' | 'Checked-in' | 'Checked-out' | 'No-show' | 'Cancelled';
+
 export interface Booking {
   id: string;
   guest_name: string;
   guest_phone: string;
   guest_email?: string;
+  guest_id?: string; // Linked guests row, matched by normalized phone
   booking_no: string;
   room_id?: string; // Deprecated for multi-room bookings, kept for backward compatibility
   check_in: string;
@@ -25,9 +30,11 @@ export interface Booking {
   check_in_time: string;
   check_out_time: string;
   price: number;
-  advance: number;
+  advance: number; // Net paid so far, derived from the payments ledger
   vat_applicable: boolean;
   vat_amount: number;
+  service_charge_amount?: number;
+  tax_lines?: TaxLine[]; // Rates applied when the booking was saved, so later rate changes don't alter it
   checkout_payable: number;
   refund_amount: number;
   pending_amount: number;
@@ -39,12 +46,96 @@ export interface Booking {
   notes?: string;
   guest_count?: number;
   num_adults?: number;
-  status: "Confirmed" | "Checked-out" | "Cancelled" | "Paid";
+  status: BookingStatus;
+  hold_expires_at?: string | null; // Tentative holds stop blocking their rooms after this
+  checked_in_at?: string | null; // Set by check_in_booking
+  checked_out_at?: string | null; // Set by checkout_booking
   created_at: string;
   updated_at: string;
   total_rooms?: number; // Number of rooms in this booking (1 for single, >1 for multi-room)
   rooms?: BookingRoom[]; // Array of room bookings in multi-room bookings
   booking_rooms?: BookingRoom[]; // Same as rooms, from Supabase query result
+  payments?: Payment[]; // Ledger entries, when fetched with payments(*)
+  rate_plan_id?: string | null; // Plan that produced the quoted price
+  rate_overridden?: boolean; // Price was changed by hand after quoting
+  deleted_at?: string | null; // Set while the booking is in the Trash
+  deleted_by?: string | null;
+}
+
+export interface Guest {
+  id: string;
+  phone: string; // Normalized with formatPhoneNumber, unique
+  name: string;
+  email?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PaymentKind = 'payment' | 'refund';
+
+export type PaymentMethod = 'Cash' | 'bKash' | 'Nagad' | 'Card' | 'Bank Transfer' | 'Other';
+
+export interface Payment {
+  id: string;
+  booking_id: string;
+  kind: PaymentKind;
+  amount: number; // Always positive; kind says which way the money went
+  method: PaymentMethod;
+  paid_at: string;
+  reference?: string;
+  notes?: string;
+  staff_user_id?: string;
+  staff_email?: string;
+  created_at: string;
+}
+
+export type MessageStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface BookingMessage {
+  id: string;
+  booking_id: string;
+  channel: 'whatsapp';
+  recipient: string;
+  body: string;
+  provider?: string; // cloud | twilio | mock, once a send was attempted
+  status: MessageStatus;
+  provider_message_id?: string;
+  attempts: number;
+  last_error?: string;
+  staff_email?: string;
+  sent_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MessageTemplateKind =
+  | 'booking_confirmation'
+  | 'pre_arrival_reminder'
+  | 'cancellation_notice'
+  | 'checkout_thank_you';
+
+export interface MessageTemplate {
+  id: string; // 'default-<kind>' for the built-in templates
+  kind: MessageTemplateKind; // One stored template per kind
+  name: string;
+  body: string; // Text with {{placeholders}}, see TEMPLATE_PLACEHOLDERS
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SheetSyncOutboxEntry {
+  id: string;
+  entity: 'booking' | 'expense';
+  record_id: string;
+  status: 'pending' | 'processing' | 'done' | 'failed';
+  attempts: number;
+  last_error?: string;
+  next_attempt_at: string;
+  claimed_at?: string;
+  processed_at?: string;
+  queued_at: string;
+  created_at: string;
 }
 
 export interface Expense {
@@ -57,6 +148,8 @@ export interface Expense {
   created_by?: string;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null; // Set while the expense is in the Trash
+  deleted_by?: string | null;
 }
 
 export interface RefundPolicy {
@@ -70,6 +163,33 @@ export interface RefundPolicy {
   updated_at: string;
 }
 
+export type TaxKind = 'vat' | 'service_charge';
+
+// exclusive: tax is added on top of the price; inclusive: the entered price already contains the tax
+export type TaxMode = 'exclusive' | 'inclusive';
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  kind: TaxKind;
+  rate: number; // Percentage, e.g. 2.5
+  mode: TaxMode;
+  effective_from: string;
+  effective_to?: string | null; // NULL = open-ended
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaxLine {
+  tax_rate_id: string;
+  name: string;
+  kind: TaxKind;
+  rate: number;
+  mode: TaxMode;
+  amount: number;
+}
+
 export interface RevenueSummary {
   id: string;
   month_year: string;
@@ -83,23 +203,172 @@ export interface RevenueSummary {
   updated_at: string;
 }
 
+// See src/utils/housekeeping.ts
+export type HousekeepingStatus = 'Clean' | 'Dirty' | 'Inspected' | 'Out of service';
+
 export interface Room {
   id: string;
   name: string;
   capacity: number;
   type?: string;
+  housekeeping_status?: HousekeepingStatus; // Turns Dirty when a booking in the room checks out
+  housekeeping_updated_at?: string | null;
+  housekeeping_updated_by?: string | null;
   created_at?: string;
 }
 
+export interface RatePlan {
+  id: string;
+  name: string;
+  room_id?: string | null; // Plan for one room...
+  room_type?: string | null; // ...or every room of a type; neither = house default
+  base_rate: number; // Per night
+  weekend_uplift_percent: number; // Added on Friday and Saturday nights
+  min_stay: number;
+  is_active: boolean;
+  seasons?: RateSeason[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RateSeason {
+  id: string;
+  rate_plan_id: string;
+  name: string;
+  start_date: string;
+  end_date: string; // Inclusive: last night charged at this rate
+  nightly_rate: number;
+  min_stay?: number | null;
+  created_at: string;
+}
+
+export interface NightlyRate {
+  date: string; // The night, YYYY-MM-DD
+  rate: number;
+  season_name?: string;
+  is_weekend: boolean;
+}
+
+export interface RateQuote {
+  plan: RatePlan;
+  nights: NightlyRate[];
+  total: number;
+  min_stay: number; // Longest minimum stay of the plan and any season the stay touches
+}
+
 export interface User {
   id: string;
   email: string;
   user_metadata?: Record<string, any>;
 }
 
-export interface ConflictCheckResult {
+export interface LoginHistoryEntry {
+  id: string;
+  user_id: string;
+  email: string;
+  signed_in_at: string;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export type AuditEntity = 'booking' | 'booking_room' | 'expense' | 'room';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export interface AuditLogEntry {
+  id: string;
+  occurred_at: string;
+  actor_email: string;
+  actor_user_id?: string;
+  entity: AuditEntity;
+  entity_id: string;
+  booking_id?: string;
+  action: AuditAction;
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+export type StaffRole = 'owner' | 'manager' | 'front_desk' | 'accountant' | 'housekeeping';
+
+export interface StaffMember {
+  id: string;
+  email: string;
+  name?: string;
+  role: StaffRole;
+  is_active: boolean;
+  invited_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoomOccupancy {
+  room_id: string;
+  booking: Booking;
+  check_in: string; // Room-level dates (booking_rooms dates for multi-room bookings)
+  check_out: string;
+}
+
+export interface RoomConflict extends RoomOccupancy {
+  overlapping_nights: string[]; // YYYY-MM-DD of each night both stays need the room
+}
+
+// A room taken out of service for repairs
+export interface RoomBlock {
+  id: string;
+  room_id: string;
+  start_date: string;
+  end_date: string; // Back in service on this day, like a booking's check_out
+  reason: string;
+  expense_id?: string | null; // Maintenance expense behind the repair
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BlockConflict {
+  block: RoomBlock;
+  overlapping_nights: string[];
+}
+
+export interface AvailabilityResult {
   hasConflict: boolean;
-  conflictingBooking?: Booking;
+  conflicts: RoomConflict[];
+  blocked: BlockConflict[]; // Requested nights that fall on a maintenance block
 }
 
-export type DateRangeType = 'week' | 'month' | 'custom';
\ No newline at end of file
+export interface BookingRpcErrorDetail {
+  code: string; // Postgres SQLSTATE, e.g. 23P01 for a room conflict
+  message: string;
+  hint?: string;
+}
+
+export interface CreateBookingResult {
+  success: boolean;
+  booking_id?: string;
+  amount_collected?: number; // checkout_booking only
+  error?: BookingRpcErrorDetail;
+}
+
+export type DateRangeType = 'week' | 'month' | 'custom';
+export type WaitlistStatus = 'waiting' | 'matched' | 'converted' | 'closed';
+
+export interface WaitlistEntry {
+  id: string;
+  guest_name: string;
+  guest_phone: string;
+  guest_email?: string;
+  check_in: string;
+  check_out: string;
+  room_id?: string | null; // A specific room...
+  room_type?: string | null; // ...or any room of a type; neither = any room
+  party_size: number;
+  notes?: string;
+  status: WaitlistStatus;
+  matched_room_id?: string | null; // Room found free when a booking released it
+  matched_at?: string | null;
+  booking_id?: string | null; // Set once converted
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
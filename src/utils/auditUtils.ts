@@ -0,0 +1,59 @@
+import { AuditAction, AuditEntity, AuditLogEntry } from '../types';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  booking: 'Booking',
+  booking_room: 'Booking Room',
+  expense: 'Expense',
+  room: 'Room',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Created',
+  update: 'Changed',
+  delete: 'Deleted',
+};
+
+export interface AuditFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Bookkeeping columns that would only add noise to a diff
+const HIDDEN_FIELDS = ['id', 'created_at', 'updated_at'];
+
+/**
+ * The fields an entry touched. Updates list their changed fields; a created row lists its
+ * values (from is undefined) and a deleted row what it held (to is undefined).
+ */
+export const getAuditChanges = (entry: AuditLogEntry): AuditFieldChange[] => {
+  if (entry.action === 'update') {
+    return Object.entries(entry.changes || {})
+      .map(([field, change]) => ({ field, from: change.from, to: change.to }))
+      .sort((a, b) => a.field.localeCompare(b.field));
+  }
+
+  const row = (entry.action === 'insert' ? entry.after : entry.before) || {};
+  return Object.entries(row)
+    .filter(([field, value]) => !HIDDEN_FIELDS.includes(field) && value !== null && value !== '')
+    .map(([field, value]) =>
+      entry.action === 'insert' ? { field, from: undefined, to: value } : { field, from: value, to: undefined }
+    )
+    .sort((a, b) => a.field.localeCompare(b.field));
+};
+
+export const formatAuditField = (field: string): string =>
+  field.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// A one-line label for an entry, e.g. "Booking BK-1042" or "Room Deluxe 2"
+export const describeAuditRecord = (entry: AuditLogEntry): string => {
+  const row = entry.after || entry.before || {};
+  const name = row.booking_no || row.name || row.category || row.guest_name;
+  return `${AUDIT_ENTITY_LABELS[entry.entity]} ${name || entry.entity_id.slice(0, 8)}`;
+};
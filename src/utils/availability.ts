@@ -0,0 +1,222 @@
+import { Booking, Room, RoomBlock, RoomConflict, BlockConflict, RoomOccupancy, AvailabilityResult } from '../types';
+import { isExpiredHold } from './bookingStatus';
+
+export interface RoomDateRange {
+  room_id: string;
+  check_in: string;
+  check_out: string;
+}
+
+// room_id -> every active stay in that room, sorted by check-in
+export type OccupancyIndex = Map<string, RoomOccupancy[]>;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Cancelled, no-show and checked-out bookings no longer hold a room
+const NON_OCCUPYING_STATUSES: Booking['status'][] = ['Checked-out', 'No-show', 'Cancelled'];
+
+export const isOccupyingStatus = (status: Booking['status']): boolean => {
+  return !NON_OCCUPYING_STATUSES.includes(status);
+};
+
+// Dates are stored as YYYY-MM-DD; compare them as whole UTC days so times and timezones never shift a night
+const toDayNumber = (date: string): number => {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+};
+
+const fromDayNumber = (day: number): string => {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+};
+
+/**
+ * List the nights (by their date) shared by two [check_in, check_out) ranges.
+ * Back-to-back stays share no nights: a guest can check in on the day another checks out.
+ */
+export const getOverlappingNights = (a: RoomDateRange, b: RoomDateRange): string[] => {
+  const start = Math.max(toDayNumber(a.check_in), toDayNumber(b.check_in));
+  const end = Math.min(toDayNumber(a.check_out), toDayNumber(b.check_out));
+  const nights: string[] = [];
+  for (let day = start; day < end; day++) {
+    nights.push(fromDayNumber(day));
+  }
+  return nights;
+};
+
+/**
+ * The rooms a booking holds, each with its own dates.
+ * Multi-room bookings contribute one stay per booking_rooms line (with that line's own dates);
+ * single-room bookings contribute their room_id with the header dates.
+ */
+export const getBookingStays = (booking: Booking): RoomOccupancy[] => {
+  const bookingRooms = booking.booking_rooms || [];
+  const stays: RoomOccupancy[] = bookingRooms.map((bookingRoom) => ({
+    room_id: bookingRoom.room_id,
+    booking,
+    check_in: bookingRoom.check_in_date,
+    check_out: bookingRoom.check_out_date,
+  }));
+
+  // Single-room bookings (backward compatibility) - skip if the same room is already listed in booking_rooms
+  if (booking.room_id && !bookingRooms.some((br) => br.room_id === booking.room_id)) {
+    stays.push({
+      room_id: booking.room_id,
+      booking,
+      check_in: booking.check_in,
+      check_out: booking.check_out,
+    });
+  }
+
+  return stays;
+};
+
+/**
+ * Build a per-room occupancy index from bookings fetched with `booking_rooms(*)`.
+ * Expired holds are left out.
+ * Pass excludeBookingId when editing a booking so it does not conflict with itself.
+ */
+export const buildOccupancyIndex = (bookings: Booking[], excludeBookingId?: string): OccupancyIndex => {
+  const index: OccupancyIndex = new Map();
+
+  for (const booking of bookings) {
+    if (!isOccupyingStatus(booking.status) || isExpiredHold(booking) || booking.id === excludeBookingId) continue;
+
+    for (const stay of getBookingStays(booking)) {
+      const stays = index.get(stay.room_id) || [];
+      stays.push(stay);
+      index.set(stay.room_id, stays);
+    }
+  }
+
+  index.forEach((stays) => stays.sort((a, b) => toDayNumber(a.check_in) - toDayNumber(b.check_in)));
+
+  return index;
+};
+
+const blockRange = (block: RoomBlock): RoomDateRange => ({
+  room_id: block.room_id,
+  check_in: block.start_date,
+  check_out: block.end_date,
+});
+
+/**
+ * Check requested room/date ranges against the index and any maintenance blocks.
+ * Returns every conflicting stay and block (not just the first) with the nights that overlap.
+ */
+export const checkAvailability = (
+  index: OccupancyIndex,
+  ranges: RoomDateRange[],
+  blocks: RoomBlock[] = []
+): AvailabilityResult => {
+  const conflicts: RoomConflict[] = [];
+  const blocked: BlockConflict[] = [];
+
+  for (const range of ranges) {
+    for (const stay of index.get(range.room_id) || []) {
+      const overlappingNights = getOverlappingNights(range, stay);
+      if (overlappingNights.length > 0) {
+        conflicts.push({ ...stay, overlapping_nights: overlappingNights });
+      }
+    }
+    for (const block of blocks) {
+      if (block.room_id !== range.room_id) continue;
+      const overlappingNights = getOverlappingNights(range, blockRange(block));
+      if (overlappingNights.length > 0) {
+        blocked.push({ block, overlapping_nights: overlappingNights });
+      }
+    }
+  }
+
+  return { hasConflict: conflicts.length > 0 || blocked.length > 0, conflicts, blocked };
+};
+
+// Whether a maintenance block covers any night of [check_in, check_out) in the room
+export const isRoomBlocked = (blocks: RoomBlock[], roomId: string, check_in: string, check_out: string): boolean => {
+  return blocks.some(
+    (block) => block.room_id === roomId && getOverlappingNights({ room_id: roomId, check_in, check_out }, blockRange(block)).length > 0
+  );
+};
+
+/**
+ * Return the rooms that are free for the whole [check_in, check_out) range.
+ */
+export const getAvailableRooms = (
+  index: OccupancyIndex,
+  rooms: Room[],
+  check_in: string,
+  check_out: string,
+  blocks: RoomBlock[] = []
+): Room[] => {
+  return rooms.filter(
+    (room) => !checkAvailability(index, [{ room_id: room.id, check_in, check_out }], blocks).hasConflict
+  );
+};
+
+const describeNights = (nights: string[]): string => {
+  const range = nights.length === 1 ? nights[0] : `${nights[0]} to ${nights[nights.length - 1]}`;
+  return `${nights.length} night(s), ${range}`;
+};
+
+/**
+ * Human-readable summary of conflicts for alerts, one line per conflicting stay or block.
+ */
+export const describeConflicts = (conflicts: RoomConflict[], rooms: Room[], blocked: BlockConflict[] = []): string => {
+  const roomName = (roomId: string) => rooms.find((r) => r.id === roomId)?.name || 'Room';
+  return [
+    ...conflicts.map(
+      (conflict) =>
+        `${roomName(conflict.room_id)}: ${conflict.booking.booking_no} (${conflict.booking.guest_name}) - ${describeNights(conflict.overlapping_nights)}`
+    ),
+    ...blocked.map(
+      ({ block, overlapping_nights }) =>
+        `${roomName(block.room_id)}: out of service (${block.reason}) - ${describeNights(overlapping_nights)}`
+    ),
+  ].join('\n');
+};
+
+export interface OccupancyStats {
+  sellableNights: number; // Room-nights in the period, less those blocked for maintenance
+  occupiedNights: number;
+  blockedNights: number;
+  rate: number; // Occupied share of sellable room-nights, 0-100
+}
+
+/**
+ * Occupancy over the nights [from, to): stays of confirmed, checked-in and checked-out
+ * bookings against every room's nights, with blocked nights taken out of the inventory.
+ */
+export const calculateOccupancy = (
+  bookings: Booking[],
+  rooms: Room[],
+  blocks: RoomBlock[],
+  from: string,
+  to: string
+): OccupancyStats => {
+  const period = { room_id: '', check_in: from, check_out: to };
+  const roomIds = new Set(rooms.map((r) => r.id));
+  const totalNights = rooms.length * Math.max(toDayNumber(to) - toDayNumber(from), 0);
+
+  const blockedNights = blocks
+    .filter((block) => roomIds.has(block.room_id))
+    .reduce((sum, block) => sum + getOverlappingNights(period, blockRange(block)).length, 0);
+
+  const occupiedNights = bookings
+    .filter((b) => ['Confirmed', 'Checked-in', 'Checked-out'].includes(b.status))
+    .flatMap(getBookingStays)
+    .filter((stay) => roomIds.has(stay.room_id))
+    .reduce((sum, stay) => sum + getOverlappingNights(period, stay).length, 0);
+
+  const sellableNights = totalNights - blockedNights;
+  return {
+    sellableNights,
+    occupiedNights,
+    blockedNights,
+    rate: sellableNights > 0 ? Math.round((occupiedNights / sellableNights) * 1000) / 10 : 0,
+  };
+};
+
+// SQLSTATE the database raises when a write would double-book a room (see supabase/migrations)
+export const ROOM_CONFLICT_ERROR_CODE = '23P01';
+
+export const isRoomConflictError = (err: unknown): boolean => {
+  return (err as { code?: string } | null)?.code === ROOM_CONFLICT_ERROR_CODE;
+};
@@ -0,0 +1,84 @@
+import { Booking, BookingStatus } from '../types';
+import { formatDateDisplay, getResortToday } from './bookingUtils';
+
+export type BookingTransition = 'confirm' | 'check_in' | 'check_out' | 'no_show' | 'cancel';
+
+interface TransitionRule {
+  from: BookingStatus[];
+  to: BookingStatus;
+  label: string;
+}
+
+export const BOOKING_STATUSES: BookingStatus[] = ['Tentative', 'Confirmed', 'Checked-in', 'Checked-out', 'No-show', 'Cancelled'];
+
+// Mirrors booking_status_transition_allowed() in the booking_status_lifecycle migration
+export const BOOKING_TRANSITIONS: Record<BookingTransition, TransitionRule> = {
+  confirm: { from: ['Tentative'], to: 'Confirmed', label: 'Confirm' },
+  check_in: { from: ['Confirmed'], to: 'Checked-in', label: 'Check In' },
+  check_out: { from: ['Checked-in'], to: 'Checked-out', label: 'Check Out' },
+  no_show: { from: ['Confirmed'], to: 'No-show', label: 'No-show' },
+  cancel: { from: ['Tentative', 'Confirmed'], to: 'Cancelled', label: 'Cancel & Refund' },
+};
+
+// Payments can still be taken until the guest has left, cancelled or not arrived
+export const isOpenStatus = (status: BookingStatus): boolean =>
+  status === 'Tentative' || status === 'Confirmed' || status === 'Checked-in';
+
+// Holds block their rooms for this long unless staff pick another expiry
+export const DEFAULT_HOLD_HOURS = 24;
+
+// Value for a datetime-local input, in the browser's time zone
+export const getDefaultHoldExpiry = (now: Date = new Date()): string => {
+  const expiry = new Date(now.getTime() + DEFAULT_HOLD_HOURS * 60 * 60 * 1000);
+  return new Date(expiry.getTime() - expiry.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+// An expired hold no longer blocks its rooms, even before the release job cancels it
+export const isExpiredHold = (booking: Pick<Booking, 'status' | 'hold_expires_at'>, now: Date = new Date()): boolean =>
+  booking.status === 'Tentative' && !!booking.hold_expires_at && Date.parse(booking.hold_expires_at) <= now.getTime();
+
+export const getStatusBadgeClass = (status: BookingStatus): string => {
+  switch (status) {
+    case 'Tentative':
+      return 'bg-orange-100 text-orange-800';
+    case 'Confirmed':
+      return 'bg-blue-100 text-blue-800';
+    case 'Checked-in':
+      return 'bg-green-100 text-green-800';
+    case 'Checked-out':
+      return 'bg-purple-100 text-purple-800';
+    case 'No-show':
+      return 'bg-gray-200 text-gray-800';
+    default:
+      return 'bg-red-100 text-red-800';
+  }
+};
+
+/**
+ * Why a booking cannot make the transition today, or null when it can.
+ * The booking RPCs apply the same rules, so this only decides which actions to offer.
+ */
+export const getTransitionBlocker = (
+  booking: Booking,
+  transition: BookingTransition,
+  today: string = getResortToday()
+): string | null => {
+  const rule = BOOKING_TRANSITIONS[transition];
+  if (!rule.from.includes(booking.status)) {
+    return `A ${booking.status} booking cannot become ${rule.to}`;
+  }
+
+  const checkIn = booking.check_in.slice(0, 10);
+  if (transition === 'check_in' && today < checkIn) {
+    return `The guest cannot check in before ${formatDateDisplay(checkIn)}`;
+  }
+  if (transition === 'no_show' && today < checkIn) {
+    return `The guest can only be marked as a no-show from ${formatDateDisplay(checkIn)}`;
+  }
+  return null;
+};
+
+export const getAllowedTransitions = (booking: Booking, today?: string): BookingTransition[] =>
+  (Object.keys(BOOKING_TRANSITIONS) as BookingTransition[]).filter(
+    (transition) => getTransitionBlocker(booking, transition, today) === null
+  );
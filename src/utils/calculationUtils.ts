@@ -1,9 +1,14 @@
-import { Booking, RefundPolicy } from '../types';
+import { Booking, RefundPolicy, TaxLine, TaxRate } from '../types';
+import { DEFAULT_TAX_RATES, calculateTaxes, getEffectiveTaxRates, mergeTaxLines } from './taxUtils';
 
-// VAT Calculation (2.5%)
-export const calculateVAT = (price: number, isApplicable: boolean): number => {
+// VAT Calculation using the rates in force (built-in 2.5% until configured)
+export const calculateVAT = (
+  price: number,
+  isApplicable: boolean,
+  taxRates: TaxRate[] = getEffectiveTaxRates(DEFAULT_TAX_RATES)
+): number => {
   if (!isApplicable) return 0;
-  return Math.ceil(price * 0.025 * 100) / 100; // Round to 2 decimals
+  return calculateTaxes(price, taxRates, { vatApplicable: true, serviceChargeApplicable: false }).vat_amount;
 };
 
 // Total Price = Price + VAT
@@ -23,13 +28,18 @@ export const calculateCheckoutPayable = (
 
 // Calculate multi-room booking totals
 // roomBookings: Array of {room_id, check_in_date, check_out_date, price_per_night, vat}
+// Each room is taxed at the rates in force on its own check-in date.
 export const calculateMultiRoomTotal = (
   roomBookings: any[],
   vatApplicable: boolean,
-  vatAdjustment: number = 0
-): { total_price: number; vat_amount: number } => {
+  vatAdjustment: number = 0,
+  taxRates: TaxRate[] = DEFAULT_TAX_RATES,
+  serviceChargeApplicable: boolean = true
+): { total_price: number; vat_amount: number; service_charge_amount: number; base_price: number; tax_lines: TaxLine[] } => {
   let totalPrice = 0;
   let totalVAT = 0;
+  let totalServiceCharge = 0;
+  let taxLines: TaxLine[] = [];
 
   for (const rb of roomBookings) {
     const pricePerNight = parseFloat(rb.price_per_night) || 0;
@@ -38,29 +48,97 @@ export const calculateMultiRoomTotal = (
     const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
     
     const roomTotal = pricePerNight * nights;
-    totalPrice += roomTotal;
+    const taxes = calculateTaxes(roomTotal, getEffectiveTaxRates(taxRates, rb.check_in_date), {
+      vatApplicable,
+      serviceChargeApplicable,
+    });
 
-    if (vatApplicable) {
-      const roomVAT = Math.ceil(roomTotal * 0.025 * 100) / 100;
-      totalVAT += roomVAT;
-    }
+    totalPrice += taxes.base_amount;
+    totalVAT += taxes.vat_amount;
+    totalServiceCharge += taxes.service_charge_amount;
+    taxLines = taxLines.concat(taxes.lines);
   }
 
   totalVAT = Math.ceil(totalVAT * 100) / 100 + vatAdjustment;
-  const finalTotal = Math.ceil((totalPrice + totalVAT) * 100) / 100;
+  totalServiceCharge = Math.round(totalServiceCharge * 100) / 100;
+  const finalTotal = Math.ceil((totalPrice + totalVAT + totalServiceCharge) * 100) / 100;
 
   return {
     total_price: finalTotal,
     vat_amount: totalVAT,
+    service_charge_amount: totalServiceCharge,
+    base_price: Math.round(totalPrice * 100) / 100,
+    tax_lines: mergeTaxLines(taxLines),
   };
 };
 
+// Built-in tiers, used until refund_policies rows are loaded (and if the table is empty)
+export const DEFAULT_REFUND_POLICIES: RefundPolicy[] = [
+  {
+    id: 'default-premium',
+    policy_name: 'Premium Cancellation',
+    days_before_checkin: 7,
+    refund_percentage: 85,
+    description: 'Allows property to rebook the room',
+    is_custom: false,
+    created_at: '',
+    updated_at: '',
+  },
+  {
+    id: 'default-standard',
+    policy_name: 'Standard Cancellation',
+    days_before_checkin: 4,
+    refund_percentage: 50,
+    description: 'Limited time to rebook; partial recovery',
+    is_custom: false,
+    created_at: '',
+    updated_at: '',
+  },
+  {
+    id: 'default-late',
+    policy_name: 'Late Cancellation',
+    days_before_checkin: 0,
+    refund_percentage: 0,
+    description: 'No time to rebook; operational costs incurred',
+    is_custom: false,
+    created_at: '',
+    updated_at: '',
+  },
+];
+
+// Non-custom tiers ordered from the earliest cancellation window to the latest.
+// A tier applies when the guest cancels at least days_before_checkin days before check-in.
+export const getRefundTiers = (policies: RefundPolicy[]): RefundPolicy[] => {
+  const tiers = policies
+    .filter((p) => !p.is_custom && p.days_before_checkin != null && p.refund_percentage != null)
+    .sort((a, b) => (b.days_before_checkin as number) - (a.days_before_checkin as number));
+  return tiers.length > 0 ? tiers : DEFAULT_REFUND_POLICIES;
+};
+
+// e.g. "7 or more days before check-in", "4 to 6 days before check-in"
+export const getRefundTierWindow = (tiers: RefundPolicy[], index: number): string => {
+  const days = tiers[index].days_before_checkin as number;
+  const upper = index > 0 ? (tiers[index - 1].days_before_checkin as number) : null;
+
+  if (upper === null) return `${days} or more days before check-in`;
+  if (days <= 0) return `less than ${upper} days before check-in`;
+  return `${days} to ${upper - 1} days before check-in`;
+};
+
+// e.g. "85% refund - Cancelled 7 or more days before check-in"
+export const describeRefundTier = (tiers: RefundPolicy[], index: number): string => {
+  const percentage = tiers[index].refund_percentage as number;
+  const charge = percentage <= 0 ? '100% charge' : `${percentage}% refund`;
+  return `${charge} - Cancelled ${getRefundTierWindow(tiers, index)}`;
+};
+
 // Calculate refund based on cancellation policy
 export const calculateRefund = (
   bookingPrice: number,
   checkInDate: string,
   advancePaid: number,
-  customRefund?: number
+  customRefund?: number,
+  policies: RefundPolicy[] = DEFAULT_REFUND_POLICIES
 ): { refundAmount: number; policy: string } => {
   // If custom refund is provided, use it
   if (customRefund !== undefined && customRefund !== null) {
@@ -79,51 +157,41 @@ export const calculateRefund = (
     (checkIn.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
   );
 
-  let refundPercentage = 0;
-  let policy = '';
-
-  if (daysUntilCheckIn <= 0) {
-    // Cancelled on or after check-in date
-    refundPercentage = 0;
-    policy = '100% charge - Cancelled within 72 hours to check-in date';
-  } else if (daysUntilCheckIn <= 3) {
-    // Cancelled within 72 hours
-    refundPercentage = 0;
-    policy = '100% charge - Cancelled within 72 hours to check-in date';
-  } else if (daysUntilCheckIn < 7) {
-    // Cancelled between 3-7 days
-    refundPercentage = 50;
-    policy = '50% refund - Cancelled between 7 days to 72 hours';
-  } else {
-    // Cancelled 7+ days before
-    refundPercentage = 85;
-    policy = '85% refund - Cancelled 7 days before check-in';
+  // Cancelling on or after the check-in date never earns a refund
+  const tiers = getRefundTiers(policies);
+  const tierIndex = daysUntilCheckIn <= 0
+    ? -1
+    : tiers.findIndex((t) => daysUntilCheckIn >= (t.days_before_checkin as number));
+
+  if (tierIndex === -1) {
+    return { refundAmount: 0, policy: '100% charge - Cancelled on or after check-in date' };
   }
 
+  const refundPercentage = tiers[tierIndex].refund_percentage as number;
   const refundAmount = Math.round(
     (advancePaid * refundPercentage) / 100 * 100
   ) / 100;
 
-  return { refundAmount, policy };
+  return { refundAmount, policy: describeRefundTier(tiers, tierIndex) };
 };
 
 // Get refund policy description
-export const getRefundPolicyText = (): string => {
+export const getRefundPolicyText = (policies: RefundPolicy[] = DEFAULT_REFUND_POLICIES): string => {
+  const tiers = getRefundTiers(policies);
+  const sections = tiers
+    .map((tier, index) => {
+      const percentage = tier.refund_percentage as number;
+      const refund = percentage <= 0 ? '0% (100% charge applies)' : `${percentage}% of advance paid`;
+      const reason = tier.description ? `\n   - Reason: ${tier.description}` : '';
+      return `${index + 1}. ${tier.policy_name.toUpperCase()} (${getRefundTierWindow(tiers, index)})\n   - Refund: ${refund}${reason}`;
+    })
+    .join('\n\n');
+
   return `
 CANCELLATION & REFUND POLICY
 ============================
 
-1. PREMIUM CANCELLATION (7+ Days Before Check-In)
-   - Refund: 85% of advance paid
-   - Reason: Allows property to rebook the room
-
-2. STANDARD CANCELLATION (7 Days to 72 Hours Before Check-In)
-   - Refund: 50% of advance paid
-   - Reason: Limited time to rebook; partial recovery
-
-3. LATE CANCELLATION (Within 72 Hours to Check-In)
-   - Refund: 0% (100% charge applies)
-   - Reason: No time to rebook; operational costs incurred
+${sections}
 
 SPECIAL CASES:
 - No-show: Full charge applies
@@ -0,0 +1,40 @@
+import { Booking } from '../types';
+
+export interface GuestStaySummary {
+  upcoming: Booking[]; // Not yet checked out, soonest first
+  past: Booking[]; // Checked out, no-show or cancelled, most recent first
+  totalStays: number; // Completed stays (cancellations excluded)
+  totalSpend: number; // Net paid across all bookings
+}
+
+const isPastStay = (booking: Booking, today: string): boolean => {
+  return (
+    booking.status === 'Checked-out' ||
+    booking.status === 'No-show' ||
+    booking.status === 'Cancelled' ||
+    booking.check_out.slice(0, 10) < today
+  );
+};
+
+/**
+ * Split a guest's bookings into upcoming and past stays and total what they have paid.
+ * Spend uses revenue, which the payments ledger keeps at payments minus refunds.
+ */
+export const summarizeGuestStays = (
+  bookings: Booking[],
+  today: string = new Date().toISOString().split('T')[0]
+): GuestStaySummary => {
+  const upcoming = bookings
+    .filter((b) => !isPastStay(b, today))
+    .sort((a, b) => a.check_in.localeCompare(b.check_in));
+  const past = bookings
+    .filter((b) => isPastStay(b, today))
+    .sort((a, b) => b.check_in.localeCompare(a.check_in));
+
+  return {
+    upcoming,
+    past,
+    totalStays: bookings.filter((b) => b.status === 'Checked-out').length,
+    totalSpend: Math.round(bookings.reduce((sum, b) => sum + (b.revenue || 0), 0) * 100) / 100,
+  };
+};
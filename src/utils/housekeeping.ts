@@ -0,0 +1,38 @@
+import { HousekeepingStatus, Room } from '../types';
+
+// In the order a room moves through them: checked out -> cleaned -> checked by a supervisor
+export const HOUSEKEEPING_STATUSES: HousekeepingStatus[] = ['Dirty', 'Clean', 'Inspected', 'Out of service'];
+
+// Rooms saved before housekeeping status existed count as Clean, the column's default
+export const getHousekeepingStatus = (room: Pick<Room, 'housekeeping_status'> | undefined): HousekeepingStatus =>
+  room?.housekeeping_status || 'Clean';
+
+// An inspected room has been cleaned and checked, so it is as ready as a clean one
+export const isRoomReady = (room: Pick<Room, 'housekeeping_status'> | undefined): boolean => {
+  const status = getHousekeepingStatus(room);
+  return status === 'Clean' || status === 'Inspected';
+};
+
+export const getHousekeepingBadgeClass = (status: HousekeepingStatus): string => {
+  switch (status) {
+    case 'Clean':
+      return 'bg-green-100 text-green-800';
+    case 'Inspected':
+      return 'bg-blue-100 text-blue-800';
+    case 'Dirty':
+      return 'bg-amber-100 text-amber-800';
+    default:
+      return 'bg-gray-200 text-gray-700';
+  }
+};
+
+/**
+ * One line per room that is not ready for a guest, e.g. "Brishti Bilash is Dirty".
+ * Empty when every room is Clean or Inspected.
+ */
+export const describeUnreadyRooms = (rooms: Room[]): string => {
+  return rooms
+    .filter((room) => !isRoomReady(room))
+    .map((room) => `${room.name} is ${getHousekeepingStatus(room)}`)
+    .join('\n');
+};
@@ -1,76 +1,139 @@
-import { Booking } from '../types';
+import { Booking, RefundPolicy, TaxKind, TaxLine } from '../types';
+import { DEFAULT_REFUND_POLICIES, describeRefundTier, getRefundTiers } from './calculationUtils';
+import { getBookingGrossTotal, getTaxLabel } from './taxUtils';
+import { getBalanceDue, sortPayments, summarizePayments } from './paymentUtils';
+import { calculateNights } from './bookingUtils';
 import html2pdf from 'html2pdf.js';
 import logo from '../assets/bonsai.png';
 
+interface StayLine {
+  room: string;
+  check_in: string;
+  check_out: string;
+  nights: number;
+  rate: number;
+  amount: number;
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const formatInvoiceDate = (date: string | Date): string =>
+  new Date(date).toLocaleDateString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+
+/**
+ * One line per room the booking held, from booking_rooms with each room's own dates and
+ * nightly rate. Single-room bookings have no room lines, so their one line is the room
+ * charge spread over the header dates.
+ */
+const getStayLines = (booking: Booking, roomName: string | undefined, roomCharge: number): StayLine[] => {
+  const bookingRooms = [...(booking.booking_rooms || [])].sort(
+    (a, b) => a.check_in_date.localeCompare(b.check_in_date) || (a.room_name || '').localeCompare(b.room_name || '')
+  );
+
+  if (bookingRooms.length === 0) {
+    const nights = calculateNights(booking.check_in, booking.check_out);
+    return [
+      {
+        room: roomName || 'Room',
+        check_in: booking.check_in,
+        check_out: booking.check_out,
+        nights,
+        rate: nights > 0 ? round(roomCharge / nights) : 0,
+        amount: roomCharge,
+      },
+    ];
+  }
+
+  return bookingRooms.map((br) => {
+    const nights = calculateNights(br.check_in_date, br.check_out_date);
+    const rate = Number(br.price_per_night) || 0;
+    return {
+      room: br.room_name || 'Room',
+      check_in: br.check_in_date,
+      check_out: br.check_out_date,
+      nights,
+      rate,
+      amount: round(rate * nights),
+    };
+  });
+};
+
 /**
  * Generate and download an invoice for a booking using Tailwind CSS
  * DRY Principle: Centralized invoice generation logic
  */
-export const generateInvoicePDF = (booking: Booking, roomName?: string) => {
+export const generateInvoicePDF = (
+  booking: Booking,
+  roomName?: string,
+  refundPolicies: RefundPolicy[] = DEFAULT_REFUND_POLICIES
+) => {
   // Validate booking is checked out
   if (booking.status !== 'Checked-out') {
     console.error('Only checked-out bookings can have invoices generated');
     return;
   }
 
-  // Calculate totals
-  const baseAmount = booking.price;
+  // Stay lines are shown as sold, so inclusive taxes are part of them rather than added on top
+  const sumTaxLines = (kind: TaxKind, mode: TaxLine['mode']) =>
+    (booking.tax_lines || []).filter((l) => l.kind === kind && l.mode === mode).reduce((sum, l) => sum + l.amount, 0);
+  const vatIncluded = round(sumTaxLines('vat', 'inclusive'));
+  const serviceChargeIncluded = round(sumTaxLines('service_charge', 'inclusive'));
   const vatAmount = booking.vat_amount || 0;
+  const serviceCharge = booking.service_charge_amount || 0;
+  const vatAdded = round(vatAmount - vatIncluded);
+  const serviceChargeAdded = round(serviceCharge - serviceChargeIncluded);
+
   const extraIncome = booking.extra_income || 0;
   const discount = booking.discount || 0;
-  const subtotal = baseAmount + vatAmount;
-  const totalAmount = subtotal + extraIncome - discount;
-  const advancePaid = booking.advance || 0;
-  const remainingPayment = totalAmount - advancePaid;
-
-  // Format dates
-  const checkInDate = new Date(booking.check_in).toLocaleDateString('en-GB', {
-    day: '2-digit',
-    month: 'short',
-    year: 'numeric',
-  });
-
-  const checkOutDate = new Date(booking.check_out).toLocaleDateString('en-GB', {
-    day: '2-digit',
-    month: 'short',
-    year: 'numeric',
-  });
-
-  const invoiceDate = new Date().toLocaleDateString('en-GB', {
-    day: '2-digit',
-    month: 'short',
-    year: 'numeric',
-  });
-
-  // Calculate nights
-  const checkInObj = new Date(booking.check_in);
-  const checkOutObj = new Date(booking.check_out);
-  const nights = Math.ceil(
-    (checkOutObj.getTime() - checkInObj.getTime()) / (1000 * 60 * 60 * 24)
-  );
-
-  const pricePerNight = nights > 0 ? (baseAmount / nights).toFixed(2) : '0.00';
-
-  // Build itemized rows HTML
-  let itemizedRows = `
+  const subtotal = getBookingGrossTotal(booking);
+  const totalAmount = round(subtotal + extraIncome - discount);
+
+  // Payments received, from the ledger when it was fetched with the booking
+  const payments = booking.payments ? sortPayments(booking.payments) : null;
+  const netPaid = payments ? summarizePayments(payments).net : booking.advance || 0;
+  const balanceDue = payments ? getBalanceDue(booking, payments) : Math.max(round(totalAmount - netPaid), 0);
+
+  const checkInDate = formatInvoiceDate(booking.check_in);
+  const checkOutDate = formatInvoiceDate(booking.check_out);
+  const invoiceDate = formatInvoiceDate(new Date());
+  const nights = calculateNights(booking.check_in, booking.check_out);
+
+  // Build itemized rows HTML: one per room, each with its own dates, nights and rate
+  let itemizedRows = getStayLines(booking, roomName, round(booking.price + vatIncluded + serviceChargeIncluded))
+    .map(
+      (line) => `
     <tr class="border-b">
-      <td class="py-3 px-4">${roomName || 'Room'} — ${nights} nights @ ৳${pricePerNight}/night</td>
-      <td class="py-3 px-4 text-right">${nights}</td>
-      <td class="py-3 px-4 text-right">৳${pricePerNight}</td>
-      <td class="py-3 px-4 text-right font-semibold text-green-600">৳${baseAmount.toFixed(2)}</td>
+      <td class="py-3 px-4">${line.room}<div class="text-xs text-gray-500">${formatInvoiceDate(line.check_in)} – ${formatInvoiceDate(line.check_out)}</div></td>
+      <td class="py-3 px-4 text-right">${line.nights}</td>
+      <td class="py-3 px-4 text-right">৳${line.rate.toFixed(2)}</td>
+      <td class="py-3 px-4 text-right font-semibold text-green-600">৳${line.amount.toFixed(2)}</td>
     </tr>
-  `;
-
-  if (vatAmount > 0) {
-    itemizedRows += `
+  `
+    )
+    .join('');
+
+  const taxRow = (label: string, added: number, included: number) => {
+    if (added <= 0 && included <= 0) return '';
+    const amount =
+      added > 0
+        ? `<span class="font-semibold text-green-600">৳${added.toFixed(2)}</span>`
+        : `<span class="text-gray-500">incl. ৳${included.toFixed(2)}</span>`;
+    return `
     <tr class="border-b bg-gray-50">
-      <td class="py-3 px-4">VAT</td>
+      <td class="py-3 px-4">${label}</td>
       <td class="py-3 px-4 text-right">1</td>
       <td class="py-3 px-4 text-right">-</td>
-      <td class="py-3 px-4 text-right font-semibold text-green-600">৳${vatAmount.toFixed(2)}</td>
+      <td class="py-3 px-4 text-right">${amount}</td>
     </tr>
     `;
-  }
+  };
+
+  itemizedRows += taxRow(getTaxLabel(booking, 'vat'), vatAdded, vatIncluded);
+  itemizedRows += taxRow(getTaxLabel(booking, 'service_charge'), serviceChargeAdded, serviceChargeIncluded);
 
   if (extraIncome > 0) {
     itemizedRows += `
@@ -94,46 +157,32 @@ export const generateInvoicePDF = (booking: Booking, roomName?: string) => {
     `;
   }
 
-  // Build summary rows
-  let summaryRows = `
-    <div class="flex justify-between py-2 text-sm">
-      <span class="text-gray-600">Subtotal (Base + VAT)</span>
-      <span class="font-medium">৳${subtotal.toFixed(2)}</span>
-    </div>
-  `;
-
-  if (extraIncome > 0) {
-    summaryRows += `
-    <div class="flex justify-between py-2 text-sm">
-      <span class="text-gray-600">Additional Costs</span>
-      <span class="font-medium">৳${extraIncome.toFixed(2)}</span>
-    </div>
-    `;
-  }
-
-  if (discount > 0) {
-    summaryRows += `
-    <div class="flex justify-between py-2 text-sm">
-      <span class="text-gray-600">Discount</span>
-      <span class="font-medium text-red-600">-৳${discount.toFixed(2)}</span>
-    </div>
-    `;
-  }
+  // Each payment and refund, or the net amount paid when the ledger was not loaded
+  const paymentRows = payments
+    ? payments
+        .map(
+          (payment) => `
+      <tr class="summary-row">
+        <td colspan="3" class="text-right text-gray-600 font-medium">
+          ${payment.kind === 'refund' ? 'Refund' : 'Payment'} (${payment.method}, ${formatInvoiceDate(payment.paid_at)})
+        </td>
+        <td class="amount-column${payment.kind === 'refund' ? ' text-red-600' : ''}">
+          ${payment.kind === 'refund' ? '-' : ''}৳${Number(payment.amount).toFixed(2)}
+        </td>
+      </tr>`
+        )
+        .join('')
+    : `
+      <tr class="summary-row">
+        <td colspan="3" class="text-right text-gray-600 font-medium">Paid</td>
+        <td class="amount-column">৳${netPaid.toFixed(2)}</td>
+      </tr>`;
 
-  summaryRows += `
-    <div class="flex justify-between py-4 mt-4 border-t-2 border-green-500 text-lg font-bold text-green-600">
-      <span>TOTAL AMOUNT</span>
-      <span>৳${totalAmount.toFixed(2)}</span>
-    </div>
-    <div class="flex justify-between py-2 text-sm">
-      <span class="text-gray-600">Advance Paid</span>
-      <span class="font-medium">৳${advancePaid.toFixed(2)}</span>
-    </div>
-    <div class="flex justify-between py-2 text-sm font-medium">
-      <span class="text-gray-700">Amount Paid</span>
-      <span>৳${totalAmount.toFixed(2)}</span>
-    </div>
-  `;
+  // Cancellation policy, from the same tiers used for refunds and confirmation messages
+  const refundTiers = getRefundTiers(refundPolicies);
+  const policyItems = refundTiers
+    .map((_, idx) => `<li>${describeRefundTier(refundTiers, idx)}</li>`)
+    .join('');
 
   // Full HTML with Tailwind CDN
 const invoiceHTML = `
@@ -304,39 +353,30 @@ td {
         </td>
       </tr>
 
+      <!-- Payments -->
+      ${paymentRows}
+
       <tr class="summary-row">
-        <td colspan="3" class="text-right text-gray-600 font-medium">Advance Paid</td>
-        <td class="amount-column">৳${advancePaid.toFixed(2)}</td>
+        <td colspan="3" class="text-right text-gray-600 font-medium">Total Paid</td>
+        <td class="amount-column">৳${netPaid.toFixed(2)}</td>
       </tr>
 
-      <tr class="summary-row due-highlight">
-        <td colspan="3" class="text-right border-t border-gray-400 pt-3">Amount Due</td>
+      <tr class="summary-row ${balanceDue > 0 ? 'due-highlight' : 'total-highlight'}">
+        <td colspan="3" class="text-right border-t border-gray-400 pt-3">Balance Due</td>
         <td class="amount-column border-t border-gray-400 pt-3">
-          ৳${Math.max(0, totalAmount - advancePaid).toFixed(2)}
-        </td>
-      </tr>
-
-      <!-- Proper spacing row -->
-      <tr>
-        <td colspan="4" style="height:14px;border:none;"></td>
-      </tr>
-
-      <!-- Fully Paid Row -->
-      <tr class="summary-row total-highlight">
-        <td colspan="3"
-            class="text-right pt-4 pb-4 border-t-2 border-green-400 font-semibold"
-            style="background:#ecfdf5;">
-          Total Paid Amount
-        </td>
-        <td class="amount-column pt-4 pb-4 border-t-2 border-green-400 font-semibold"
-            style="background:#ecfdf5;">
-          ৳ ${totalAmount.toFixed(2)}
+          ৳${balanceDue.toFixed(2)}
         </td>
       </tr>
 
     </tbody>
   </table>
 
+  <!-- Cancellation Policy -->
+  <div class="mt-8 text-xs text-gray-500">
+    <div class="uppercase font-medium mb-1">Cancellation &amp; Refund Policy</div>
+    <ul style="margin:0;padding-left:16px;">${policyItems}</ul>
+  </div>
+
   <!-- Footer (Always bottom) -->
   <div class="footer mb-2">
     Thank you for visiting Bonsai Eco Village.<br><br>
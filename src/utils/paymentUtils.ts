@@ -0,0 +1,38 @@
+import { Booking, Payment, PaymentMethod } from '../types';
+import { getBookingGrossTotal } from './taxUtils';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['Cash', 'bKash', 'Nagad', 'Card', 'Bank Transfer', 'Other'];
+
+export interface PaymentSummary {
+  paid: number;
+  refunded: number;
+  net: number; // paid - refunded
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const summarizePayments = (payments: Payment[]): PaymentSummary => {
+  const paid = payments.filter((p) => p.kind === 'payment').reduce((sum, p) => sum + Number(p.amount), 0);
+  const refunded = payments.filter((p) => p.kind === 'refund').reduce((sum, p) => sum + Number(p.amount), 0);
+  return { paid: round(paid), refunded: round(refunded), net: round(paid - refunded) };
+};
+
+/**
+ * What the guest still owes: stay total + extras - discount - net paid.
+ * Mirrors derive_booking_balance in the database; cancelled and no-show bookings owe nothing.
+ */
+export const getBalanceDue = (
+  booking: Pick<Booking, 'price' | 'vat_amount' | 'service_charge_amount' | 'extra_income' | 'discount' | 'status'>,
+  payments: Payment[],
+  extraIncome: number = booking.extra_income || 0,
+  discount: number = booking.discount || 0
+): number => {
+  if (booking.status === 'Cancelled' || booking.status === 'No-show') return 0;
+  const due = getBookingGrossTotal(booking) + extraIncome - discount - summarizePayments(payments).net;
+  return Math.max(round(due), 0);
+};
+
+// Oldest first, so the history reads like a statement
+export const sortPayments = (payments: Payment[]): Payment[] => {
+  return [...payments].sort((a, b) => a.paid_at.localeCompare(b.paid_at));
+};
@@ -0,0 +1,66 @@
+import { StaffRole } from '../types';
+
+export type Permission =
+  | 'bookings.view'
+  | 'bookings.manage'
+  | 'bookings.delete'
+  | 'payments.manage'
+  | 'guests.view'
+  | 'expenses.view'
+  | 'expenses.manage'
+  | 'rooms.manage'
+  | 'settings.manage'
+  | 'staff.manage'
+  | 'activity.view'
+  | 'housekeeping.manage';
+
+export const STAFF_ROLES: { role: StaffRole; label: string; description: string }[] = [
+  { role: 'owner', label: 'Owner', description: 'Everything, including staff accounts' },
+  { role: 'manager', label: 'Manager', description: 'Bookings, rooms, settings and expenses' },
+  { role: 'front_desk', label: 'Front Desk', description: 'Bookings, payments, guests and messages' },
+  { role: 'accountant', label: 'Accountant', description: 'Reads bookings, records payments, manages expenses' },
+  { role: 'housekeeping', label: 'Housekeeping', description: 'Updates room cleaning status on the housekeeping board' },
+];
+
+// Mirrors has_permission() in the migrations (latest definition wins), which is what row-level security enforces
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: [
+    'bookings.view',
+    'bookings.manage',
+    'bookings.delete',
+    'payments.manage',
+    'guests.view',
+    'expenses.view',
+    'expenses.manage',
+    'rooms.manage',
+    'settings.manage',
+    'staff.manage',
+    'activity.view',
+    'housekeeping.manage',
+  ],
+  manager: [
+    'bookings.view',
+    'bookings.manage',
+    'bookings.delete',
+    'payments.manage',
+    'guests.view',
+    'expenses.view',
+    'expenses.manage',
+    'rooms.manage',
+    'settings.manage',
+    'activity.view',
+    'housekeeping.manage',
+  ],
+  front_desk: ['bookings.view', 'bookings.manage', 'payments.manage', 'guests.view', 'housekeeping.manage'],
+  accountant: ['bookings.view', 'payments.manage', 'expenses.view', 'expenses.manage'],
+  housekeeping: ['housekeeping.manage'],
+};
+
+export const hasPermission = (role: StaffRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// Where a role lands after signing in: the bookings dashboard, or the board for housekeepers
+export const getHomePath = (role: StaffRole | null | undefined): string =>
+  hasPermission(role, 'bookings.view') ? '/bookings' : '/housekeeping';
+
+export const getRoleLabel = (role: StaffRole): string => STAFF_ROLES.find((r) => r.role === role)?.label || role;
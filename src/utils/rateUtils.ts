@@ -0,0 +1,71 @@
+import { NightlyRate, RatePlan, RateQuote, Room } from '../types';
+import { addDays } from './bookingUtils';
+
+// Friday and Saturday nights are the weekend here
+const WEEKEND_DAYS = [5, 6];
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const isWeekendNight = (date: string): boolean => {
+  return WEEKEND_DAYS.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+};
+
+/**
+ * The active plan that prices a room: a plan for that room wins over a plan for its
+ * room type, which wins over a house-wide plan (no room or type).
+ */
+export const findRatePlan = (plans: RatePlan[], room: Room | undefined): RatePlan | null => {
+  if (!room) return null;
+  const active = plans.filter((p) => p.is_active);
+  return (
+    active.find((p) => p.room_id === room.id) ||
+    (room.type ? active.find((p) => !p.room_id && p.room_type === room.type) : undefined) ||
+    active.find((p) => !p.room_id && !p.room_type) ||
+    null
+  );
+};
+
+/**
+ * Price every night of [check_in, check_out) with a plan.
+ * A night inside a season uses the season's rate (the latest-starting season if they overlap);
+ * weekend nights add the plan's uplift on top.
+ */
+export const quoteStay = (plan: RatePlan, check_in: string, check_out: string): RateQuote => {
+  const nights: NightlyRate[] = [];
+  const seasons = [...(plan.seasons || [])].sort((a, b) => b.start_date.localeCompare(a.start_date));
+  let minStay = plan.min_stay || 1;
+
+  for (let date = check_in.slice(0, 10); date < check_out.slice(0, 10); date = addDays(date, 1)) {
+    const season = seasons.find((s) => s.start_date.slice(0, 10) <= date && date <= s.end_date.slice(0, 10));
+    const weekend = isWeekendNight(date);
+    const baseRate = season ? season.nightly_rate : plan.base_rate;
+    const rate = weekend ? baseRate * (1 + (plan.weekend_uplift_percent || 0) / 100) : baseRate;
+
+    if (season?.min_stay) minStay = Math.max(minStay, season.min_stay);
+    nights.push({ date, rate: round(rate), season_name: season?.name, is_weekend: weekend });
+  }
+
+  return {
+    plan,
+    nights,
+    total: round(nights.reduce((sum, n) => sum + n.rate, 0)),
+    min_stay: minStay,
+  };
+};
+
+// Quote a room for a stay, or null when no plan applies or the dates are incomplete
+export const quoteRoomStay = (
+  plans: RatePlan[],
+  room: Room | undefined,
+  check_in: string,
+  check_out: string
+): RateQuote | null => {
+  if (!check_in || !check_out || check_in >= check_out) return null;
+  const plan = findRatePlan(plans, room);
+  return plan ? quoteStay(plan, check_in, check_out) : null;
+};
+
+// Multi-room lines carry one price per night, so a quote becomes its average nightly rate
+export const getAverageNightlyRate = (quote: RateQuote): number => {
+  return quote.nights.length > 0 ? round(quote.total / quote.nights.length) : 0;
+};
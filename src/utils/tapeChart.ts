@@ -0,0 +1,172 @@
+import { Booking, RoomOccupancy, TaxRate } from '../types';
+import { NewBooking, NewBookingRoom } from '../services/bookingService';
+import { RoomDateRange, getOverlappingNights } from './availability';
+import { calculateNights } from './bookingUtils';
+import { calculateMultiRoomTotal } from './calculationUtils';
+import { calculateTaxes, getEffectiveTaxRates, taxRatesFromSnapshot } from './taxUtils';
+
+// Where a bar was dropped: the room row and the new [check_in, check_out) range
+export interface StayMove {
+  room_id: string;
+  check_in: string;
+  check_out: string;
+}
+
+export interface PlannedMove {
+  booking: NewBooking; // Ready for updateBooking()
+  rooms: NewBookingRoom[];
+  ranges: RoomDateRange[]; // Every room/date range the booking will hold after the move
+  repriced: boolean; // true when the number of nights changed
+  repriceBlocked: string | null; // Why the new nights cannot be priced; the move must not be saved
+}
+
+// update_booking only accepts Confirmed bookings, so only those can be dragged
+export const isMovableBooking = (booking: Booking): boolean => booking.status === 'Confirmed';
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const sumVAT = (booking: Booking): number =>
+  (booking.tax_lines || []).filter((l) => l.kind === 'vat').reduce((sum, l) => sum + l.amount, 0);
+
+/**
+ * Rates the booking was sold with; bookings saved before the tax snapshot fall back to the built-in rate.
+ * A multi-room booking that straddles a rate change has two lines of that kind: those rates keep the
+ * dates they are configured for, so each room line is re-priced at the rate in force on its own check-in.
+ * Null when such a rate is no longer configured, since its dates (and so its room lines) are unknown.
+ */
+const snapshotRates = (booking: Booking, taxRates: TaxRate[]): TaxRate[] | null => {
+  const lines = booking.tax_lines || [];
+  if (lines.length === 0) return getEffectiveTaxRates([], booking.check_in);
+
+  const rates: TaxRate[] = [];
+  for (const rate of taxRatesFromSnapshot(lines)) {
+    const straddled = lines.filter((l) => l.kind === rate.kind).length > 1;
+    if (!straddled) {
+      rates.push(rate);
+      continue;
+    }
+    const configured = taxRates.find((r) => r.id === rate.id);
+    if (!configured) return null;
+    rates.push({ ...rate, effective_from: configured.effective_from, effective_to: configured.effective_to });
+  }
+  return rates;
+};
+
+const REPRICE_BLOCKED =
+  'This booking was priced across a tax rate change and one of those rates has since been deleted, ' +
+  'so its new total cannot be worked out here. Edit the booking to change its nights.';
+
+/**
+ * Work out how a booking looks after one of its stays is dragged or resized.
+ * Single-room bookings move their header; multi-room bookings move the matching booking_rooms line
+ * and the header spans all lines. Moves that keep the number of nights keep every amount; resizing
+ * re-prices at the same nightly rate and the booking's own tax snapshot, keeping any manual VAT adjustment.
+ */
+export const planStayMove = (
+  booking: Booking,
+  stay: RoomOccupancy,
+  move: StayMove,
+  taxRates: TaxRate[]
+): PlannedMove => {
+  const {
+    id: _id,
+    created_at: _createdAt,
+    updated_at: _updatedAt,
+    extra_income: _extraIncome,
+    discount: _discount,
+    rooms: _rooms,
+    booking_rooms: bookingRooms = [],
+    payments: _payments,
+    ...header
+  } = booking;
+
+  const oldNights = calculateNights(stay.check_in, stay.check_out);
+  const newNights = calculateNights(move.check_in, move.check_out);
+  const repriced = oldNights !== newNights;
+  const serviceChargeApplicable = (booking.service_charge_amount || 0) > 0;
+  const lineIndex = bookingRooms.findIndex(
+    (br) => br.room_id === stay.room_id && br.check_in_date.slice(0, 10) === stay.check_in.slice(0, 10)
+  );
+
+  if (lineIndex === -1) {
+    // Single-room booking: the stay is the header itself
+    let amounts = {};
+    const rates = repriced ? snapshotRates(booking, taxRates) : null;
+    if (rates) {
+      const inclusiveTax = (booking.tax_lines || []).filter((l) => l.mode === 'inclusive').reduce((sum, l) => sum + l.amount, 0);
+      const nightlyGross = (booking.price + inclusiveTax) / oldNights;
+      const taxes = calculateTaxes(round(nightlyGross * newNights), rates, {
+        vatApplicable: booking.vat_applicable,
+        serviceChargeApplicable,
+      });
+      // Same rounding as BookingForm: exclusive VAT is rounded up to whole taka
+      const inclusiveVAT = taxes.lines.some((l) => l.kind === 'vat' && l.mode === 'inclusive');
+      const oldVAT = inclusiveVAT ? sumVAT(booking) : Math.ceil(sumVAT(booking));
+      const vatAdjustment = booking.vat_applicable ? round(booking.vat_amount - oldVAT) : 0;
+      amounts = {
+        price: taxes.base_amount,
+        vat_amount: round((inclusiveVAT ? taxes.vat_amount : Math.ceil(taxes.vat_amount)) + vatAdjustment),
+        service_charge_amount: taxes.service_charge_amount,
+        tax_lines: taxes.lines,
+      };
+    }
+
+    const ranges = [{ room_id: move.room_id, check_in: move.check_in, check_out: move.check_out }];
+    return {
+      booking: { ...header, ...amounts, room_id: move.room_id, check_in: move.check_in, check_out: move.check_out },
+      rooms: [],
+      ranges,
+      repriced,
+      repriceBlocked: repriced && !rates ? REPRICE_BLOCKED : null,
+    };
+  }
+
+  const rooms: NewBookingRoom[] = bookingRooms.map((br, idx) => ({
+    room_id: idx === lineIndex ? move.room_id : br.room_id,
+    check_in_date: idx === lineIndex ? move.check_in : br.check_in_date.slice(0, 10),
+    check_out_date: idx === lineIndex ? move.check_out : br.check_out_date.slice(0, 10),
+    price_per_night: br.price_per_night,
+    vat: br.vat || 0,
+    rate_plan_id: br.rate_plan_id,
+  }));
+
+  let amounts = {};
+  const rates = repriced ? snapshotRates(booking, taxRates) : null;
+  if (rates) {
+    const vatAdjustment = booking.vat_applicable ? round(booking.vat_amount - sumVAT(booking)) : 0;
+    const totals = calculateMultiRoomTotal(rooms, booking.vat_applicable, vatAdjustment, rates, serviceChargeApplicable);
+    amounts = {
+      price: totals.base_price,
+      vat_amount: totals.vat_amount,
+      service_charge_amount: totals.service_charge_amount,
+      tax_lines: totals.tax_lines,
+    };
+  }
+
+  const checkIns = rooms.map((r) => r.check_in_date).sort();
+  const checkOuts = rooms.map((r) => r.check_out_date).sort();
+
+  return {
+    booking: {
+      ...header,
+      ...amounts,
+      room_id: null,
+      check_in: checkIns[0],
+      check_out: checkOuts[checkOuts.length - 1],
+    },
+    rooms,
+    ranges: rooms.map((r) => ({ room_id: r.room_id, check_in: r.check_in_date, check_out: r.check_out_date })),
+    repriced,
+    repriceBlocked: repriced && !rates ? REPRICE_BLOCKED : null,
+  };
+};
+
+/**
+ * A multi-room booking cannot hold the same room twice on the same night.
+ * The occupancy index excludes the booking being moved, so check its own lines here.
+ */
+export const hasSelfOverlap = (ranges: RoomDateRange[]): boolean => {
+  return ranges.some((a, i) =>
+    ranges.some((b, j) => j > i && a.room_id === b.room_id && getOverlappingNights(a, b).length > 0)
+  );
+};
@@ -0,0 +1,141 @@
+import { Booking, TaxKind, TaxLine, TaxRate } from '../types';
+
+// Built-in rates, used until tax_rates rows are loaded (and if the table is empty)
+export const DEFAULT_TAX_RATES: TaxRate[] = [
+  {
+    id: 'default-vat',
+    name: 'VAT',
+    kind: 'vat',
+    rate: 2.5,
+    mode: 'exclusive',
+    effective_from: '2000-01-01',
+    effective_to: null,
+    is_active: true,
+    created_at: '',
+    updated_at: '',
+  },
+];
+
+export interface TaxOptions {
+  vatApplicable: boolean;
+  serviceChargeApplicable?: boolean;
+}
+
+export interface TaxBreakdown {
+  base_amount: number; // Net of any inclusive taxes
+  vat_amount: number;
+  service_charge_amount: number;
+  lines: TaxLine[];
+}
+
+// Taxes have always been rounded up to 2 decimals; the epsilon keeps float noise (25.000000001) from adding a paisa
+const roundUp = (amount: number): number => Math.ceil(amount * 100 - 1e-9) / 100;
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Rates in force on a date (YYYY-MM-DD, defaults to today).
+ * Falls back to the built-in rates only when no rates are configured at all.
+ */
+export const getEffectiveTaxRates = (rates: TaxRate[], onDate?: string): TaxRate[] => {
+  const date = (onDate || new Date().toISOString()).slice(0, 10);
+  const source = rates.length > 0 ? rates : DEFAULT_TAX_RATES;
+  return source.filter(
+    (r) =>
+      r.is_active &&
+      r.effective_from.slice(0, 10) <= date &&
+      (!r.effective_to || r.effective_to.slice(0, 10) >= date)
+  );
+};
+
+/**
+ * Apply tax rates to an amount.
+ * Exclusive rates are added on top; inclusive rates are carved out of the amount, so
+ * base_amount + all tax lines always equals the amount the guest pays.
+ */
+export const calculateTaxes = (
+  amount: number,
+  rates: TaxRate[],
+  { vatApplicable, serviceChargeApplicable = true }: TaxOptions
+): TaxBreakdown => {
+  const applicable = rates.filter((r) => (r.kind === 'vat' ? vatApplicable : serviceChargeApplicable));
+  const inclusiveRate = applicable
+    .filter((r) => r.mode === 'inclusive')
+    .reduce((sum, r) => sum + r.rate, 0);
+  const netAmount = inclusiveRate > 0 ? amount / (1 + inclusiveRate / 100) : amount;
+
+  const lines: TaxLine[] = applicable.map((r) => ({
+    tax_rate_id: r.id,
+    name: r.name,
+    kind: r.kind,
+    rate: r.rate,
+    mode: r.mode,
+    amount: roundUp((netAmount * r.rate) / 100),
+  }));
+
+  const inclusiveTax = lines.filter((l) => l.mode === 'inclusive').reduce((sum, l) => sum + l.amount, 0);
+
+  return {
+    base_amount: round(amount - inclusiveTax),
+    vat_amount: round(lines.filter((l) => l.kind === 'vat').reduce((sum, l) => sum + l.amount, 0)),
+    service_charge_amount: round(
+      lines.filter((l) => l.kind === 'service_charge').reduce((sum, l) => sum + l.amount, 0)
+    ),
+    lines,
+  };
+};
+
+// Combine per-room tax lines into one line per rate
+export const mergeTaxLines = (lines: TaxLine[]): TaxLine[] => {
+  const merged = new Map<string, TaxLine>();
+  for (const line of lines) {
+    const existing = merged.get(line.tax_rate_id);
+    merged.set(line.tax_rate_id, existing ? { ...existing, amount: round(existing.amount + line.amount) } : { ...line });
+  }
+  return Array.from(merged.values());
+};
+
+// e.g. "VAT (2.5%)" or "VAT (15% incl.)"
+const formatRates = (items: { name: string; rate: number; mode: string }[]): string => {
+  return items.map((i) => `${i.name} (${i.rate}%${i.mode === 'inclusive' ? ' incl.' : ''})`).join(' + ');
+};
+
+/**
+ * Label for a booking's VAT or service charge, from the rates snapshotted onto it.
+ * Older bookings without a snapshot get the plain name.
+ */
+export const getTaxLabel = (booking: Pick<Booking, 'tax_lines'>, kind: TaxKind): string => {
+  const lines = (booking.tax_lines || []).filter((l) => l.kind === kind);
+  if (lines.length === 0) return kind === 'vat' ? 'VAT' : 'Service Charge';
+  return formatRates(lines);
+};
+
+// Label for the rates that would apply to a new booking, e.g. for the "Apply VAT" checkbox
+export const describeTaxRates = (rates: TaxRate[], kind: TaxKind): string => {
+  return formatRates(rates.filter((r) => r.kind === kind));
+};
+
+/**
+ * Turn a booking's tax snapshot back into rates, so a booking can be re-priced at the
+ * rates it was sold with rather than whatever is configured today.
+ */
+export const taxRatesFromSnapshot = (lines: TaxLine[]): TaxRate[] => {
+  return lines.map((l) => ({
+    id: l.tax_rate_id,
+    name: l.name,
+    kind: l.kind,
+    rate: l.rate,
+    mode: l.mode,
+    effective_from: '2000-01-01',
+    effective_to: null,
+    is_active: true,
+    created_at: '',
+    updated_at: '',
+  }));
+};
+
+// Everything the guest owes for the stay before extras/discounts: base + VAT + service charge
+export const getBookingGrossTotal = (
+  booking: Pick<Booking, 'price' | 'vat_amount' | 'service_charge_amount'>
+): number => {
+  return round((booking.price || 0) + (booking.vat_amount || 0) + (booking.service_charge_amount || 0));
+};
@@ -0,0 +1,266 @@
+import { Booking, BookingRoom, MessageTemplate, MessageTemplateKind, RefundPolicy, Room } from '../types';
+import { calculateNights, formatDateDisplay } from './bookingUtils';
+import { DEFAULT_REFUND_POLICIES, describeRefundTier, getRefundTiers } from './calculationUtils';
+import { getBookingGrossTotal, getTaxLabel } from './taxUtils';
+
+export const PROPERTY_NAME = 'Bonsai Eco Village';
+
+export type TemplatePlaceholder =
+  | 'property_name'
+  | 'guest_name'
+  | 'guest_phone'
+  | 'guest_email'
+  | 'booking_no'
+  | 'check_in_date'
+  | 'check_out_date'
+  | 'check_in_time'
+  | 'check_out_time'
+  | 'nights'
+  | 'adults'
+  | 'rooms'
+  | 'base_amount'
+  | 'vat_label'
+  | 'vat_amount'
+  | 'service_charge_line'
+  | 'total_amount'
+  | 'advance_paid'
+  | 'balance'
+  | 'refund_amount'
+  | 'cancellation_policy'
+  | 'remarks';
+
+// Every placeholder a template may use, with the help text shown in the editor
+export const TEMPLATE_PLACEHOLDERS: Record<TemplatePlaceholder, string> = {
+  property_name: 'Resort name',
+  guest_name: 'Guest name',
+  guest_phone: 'Guest phone number',
+  guest_email: 'Guest email, or N/A',
+  booking_no: 'Booking reference',
+  check_in_date: 'Check-in date, e.g. 05 November 2026',
+  check_out_date: 'Check-out date',
+  check_in_time: 'Check-in time',
+  check_out_time: 'Check-out time',
+  nights: 'Number of nights',
+  adults: 'Number of adults',
+  rooms: 'Room names, or one block per room for multi-room bookings',
+  base_amount: 'Room charges before tax',
+  vat_label: 'VAT label with rate, e.g. VAT (2.5%)',
+  vat_amount: 'VAT amount',
+  service_charge_line: 'Service charge line, blank when there is none',
+  total_amount: 'Total including taxes',
+  advance_paid: 'Paid so far',
+  balance: 'Balance still due',
+  refund_amount: 'Amount refunded',
+  cancellation_policy: 'Numbered refund tiers',
+  remarks: 'Special remarks, or No special remarks',
+};
+
+export const MESSAGE_TEMPLATE_KINDS: { kind: MessageTemplateKind; label: string }[] = [
+  { kind: 'booking_confirmation', label: 'Booking Confirmation' },
+  { kind: 'pre_arrival_reminder', label: 'Pre-arrival Reminder' },
+  { kind: 'cancellation_notice', label: 'Cancellation / Refund Notice' },
+  { kind: 'checkout_thank_you', label: 'Thank You After Checkout' },
+];
+
+const builtIn = (kind: MessageTemplateKind, body: string): MessageTemplate => ({
+  id: `default-${kind}`,
+  kind,
+  name: MESSAGE_TEMPLATE_KINDS.find((k) => k.kind === kind)?.label || kind,
+  body,
+  created_at: '',
+  updated_at: '',
+});
+
+// Used for any kind that has no stored template yet
+export const DEFAULT_MESSAGE_TEMPLATES: MessageTemplate[] = [
+  builtIn(
+    'booking_confirmation',
+    `Dear {{guest_name}},
+
+Greetings from {{property_name}} 🌿
+We are pleased to confirm your booking. Please review the details below for your reference:
+
+---
+
+*GUEST INFORMATION*
+Name: {{guest_name}}
+Contact No: {{guest_phone}}
+Email: {{guest_email}}
+
+---
+
+*ROOMS*
+{{rooms}}
+
+*STAY DETAILS*
+Check-In Date: {{check_in_date}}
+Check-Out Date: {{check_out_date}}
+Check-In Time: {{check_in_time}}
+Check-Out Time: {{check_out_time}}
+
+Number of Adults: {{adults}}
+Booking Reference: {{booking_no}}
+
+---
+
+*PAYMENT DETAILS*
+• Base Amount: BDT {{base_amount}}
+• {{vat_label}}: BDT {{vat_amount}}
+{{service_charge_line}}• Total Amount: BDT {{total_amount}}
+• Advance Paid: BDT {{advance_paid}}
+• Remaining Payable on Arrival: BDT {{balance}}
+
+---
+
+*CANCELLATION POLICY*
+{{cancellation_policy}}
+
+---
+
+*SPECIAL REMARKS*
+{{remarks}}
+
+---
+
+Thank you for choosing {{property_name}} 🌱
+We look forward to welcoming you and ensuring you have a comfortable and memorable stay with us.
+
+For any assistance or special requests, please feel free to contact us anytime.
+
+Warm regards,
+{{property_name}} Team 🌿`
+  ),
+  builtIn(
+    'pre_arrival_reminder',
+    `Dear {{guest_name}},
+
+This is a friendly reminder of your upcoming stay at {{property_name}} 🌿
+
+Booking Reference: {{booking_no}}
+Check-In: {{check_in_date}} from {{check_in_time}}
+Check-Out: {{check_out_date}} by {{check_out_time}}
+Rooms: {{rooms}}
+
+Balance payable on arrival: BDT {{balance}}
+
+If your plans have changed, please let us know as soon as possible.
+
+See you soon,
+{{property_name}} Team 🌿`
+  ),
+  builtIn(
+    'cancellation_notice',
+    `Dear {{guest_name}},
+
+Your booking {{booking_no}} ({{check_in_date}} - {{check_out_date}}) at {{property_name}} has been cancelled.
+
+Advance paid: BDT {{advance_paid}}
+Refund: BDT {{refund_amount}}
+
+*CANCELLATION POLICY*
+{{cancellation_policy}}
+
+We hope to welcome you another time.
+
+Warm regards,
+{{property_name}} Team 🌿`
+  ),
+  builtIn(
+    'checkout_thank_you',
+    `Dear {{guest_name}},
+
+Thank you for staying with us at {{property_name}} 🌱 We hope you enjoyed your {{nights}} night(s) with us.
+
+We would love to hear about your stay, and we look forward to welcoming you again.
+
+Warm regards,
+{{property_name}} Team 🌿`
+  ),
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+const money = (amount: number | undefined): string => (amount || 0).toFixed(2);
+
+const longDate = (date: string): string =>
+  new Date(date).toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' });
+
+// The stored template for a kind, or the built-in one
+export const getMessageTemplate = (templates: MessageTemplate[], kind: MessageTemplateKind): MessageTemplate => {
+  return (
+    templates.find((t) => t.kind === kind) ||
+    DEFAULT_MESSAGE_TEMPLATES.find((t) => t.kind === kind) ||
+    DEFAULT_MESSAGE_TEMPLATES[0]
+  );
+};
+
+const describeRooms = (booking: Booking, rooms: Room[]): string => {
+  const lines: BookingRoom[] = booking.booking_rooms?.length ? booking.booking_rooms : booking.rooms || [];
+
+  if (lines.length > 0) {
+    return lines
+      .map((line, idx) => {
+        const roomName = rooms.find((r) => r.id === line.room_id)?.name || line.room_name || `Room ${idx + 1}`;
+        const nights = line.number_of_nights || calculateNights(line.check_in_date, line.check_out_date);
+        const total = line.total_price || line.price_per_night * nights;
+        return `${idx + 1}. ${roomName}\n   Check-In: ${formatDateDisplay(line.check_in_date)}\n   Check-Out: ${formatDateDisplay(line.check_out_date)}\n   Duration: ${nights} night(s)\n   Price/Night: BDT ${money(line.price_per_night)}\n   Total: BDT ${money(total)}`;
+      })
+      .join('\n');
+  }
+
+  return rooms.find((r) => r.id === booking.room_id)?.name || 'Standard Room';
+};
+
+// Values for every placeholder, worked out from a booking
+export const buildTemplateValues = (
+  booking: Booking,
+  rooms: Room[],
+  refundPolicies: RefundPolicy[] = DEFAULT_REFUND_POLICIES
+): Record<TemplatePlaceholder, string> => {
+  const refundTiers = getRefundTiers(refundPolicies);
+
+  return {
+    property_name: PROPERTY_NAME,
+    guest_name: booking.guest_name,
+    guest_phone: booking.guest_phone,
+    guest_email: booking.guest_email || 'N/A',
+    booking_no: booking.booking_no,
+    check_in_date: longDate(booking.check_in),
+    check_out_date: longDate(booking.check_out),
+    check_in_time: booking.check_in_time || '2:00 PM',
+    check_out_time: booking.check_out_time || '12:00 PM',
+    nights: String(calculateNights(booking.check_in, booking.check_out)),
+    adults: String(booking.num_adults || booking.guest_count || 1),
+    rooms: describeRooms(booking, rooms),
+    base_amount: money(booking.price),
+    vat_label: getTaxLabel(booking, 'vat'),
+    vat_amount: money(booking.vat_amount),
+    service_charge_line:
+      (booking.service_charge_amount || 0) > 0
+        ? `• ${getTaxLabel(booking, 'service_charge')}: BDT ${money(booking.service_charge_amount)}  \n`
+        : '',
+    total_amount: money(getBookingGrossTotal(booking)),
+    advance_paid: money(booking.advance),
+    balance: money(booking.checkout_payable),
+    refund_amount: money(booking.refund_amount),
+    cancellation_policy: refundTiers
+      .map((_, idx) => `${idx + 1}. ${describeRefundTier(refundTiers, idx)} (of advance paid).  `)
+      .join('\n'),
+    remarks: booking.remarks || 'No special remarks',
+  };
+};
+
+// Fill in {{placeholders}}; unknown ones are left as typed so they stand out
+export const renderTemplate = (body: string, values: Record<TemplatePlaceholder, string>): string => {
+  return body.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    name in values ? values[name as TemplatePlaceholder] : match
+  );
+};
+
+export const findUnknownPlaceholders = (body: string): string[] => {
+  const unknown = new Set<string>();
+  for (const match of Array.from(body.matchAll(PLACEHOLDER_PATTERN))) {
+    if (!(match[1] in TEMPLATE_PLACEHOLDERS)) unknown.add(match[1]);
+  }
+  return Array.from(unknown);
+};
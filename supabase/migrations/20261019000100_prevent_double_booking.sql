@@ -0,0 +1,157 @@
+-- Prevent double-booking a room at the database level.
+--
+-- A room can be held either by a single-room booking (bookings.room_id + header dates)
+-- or by a booking_rooms line (its own check_in_date/check_out_date), so a plain exclusion
+-- constraint on one table cannot cover it. Instead both tables get a trigger that takes a
+-- per-room advisory lock and rejects any overlapping active stay. The lock serialises
+-- concurrent inserts for the same room, so two staff submitting at once cannot both pass.
+--
+-- Conflicts are raised with SQLSTATE 23P01 (exclusion_violation); the client maps that
+-- code to a "Room Conflict" message.
+
+create or replace function public.is_occupying_status(p_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_status not in ('Checked-out', 'Cancelled');
+$$;
+
+create or replace function public.assert_room_available(
+  p_room_id uuid,
+  p_check_in date,
+  p_check_out date,
+  p_booking_id uuid
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_conflict record;
+begin
+  perform pg_advisory_xact_lock(hashtext('room:' || p_room_id::text));
+
+  select b.booking_no, b.guest_name, b.check_in, b.check_out
+    into v_conflict
+    from public.bookings b
+   where b.id is distinct from p_booking_id
+     and public.is_occupying_status(b.status)
+     and (
+       -- single-room bookings
+       (
+         b.room_id = p_room_id
+         and b.check_in < p_check_out
+         and b.check_out > p_check_in
+         and not exists (
+           select 1 from public.booking_rooms x
+            where x.booking_id = b.id and x.room_id = p_room_id
+         )
+       )
+       -- multi-room bookings
+       or exists (
+         select 1 from public.booking_rooms br
+          where br.booking_id = b.id
+            and br.room_id = p_room_id
+            and br.check_in_date < p_check_out
+            and br.check_out_date > p_check_in
+       )
+     )
+   limit 1;
+
+  if found then
+    raise exception using
+      errcode = '23P01',
+      message = format(
+        'Room is already booked by %s (%s) from %s to %s',
+        v_conflict.guest_name, v_conflict.booking_no, v_conflict.check_in, v_conflict.check_out
+      ),
+      hint = 'Refresh availability and choose other dates or rooms.';
+  end if;
+end;
+$$;
+
+create or replace function public.check_booking_room_availability()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_line record;
+begin
+  if not public.is_occupying_status(new.status) then
+    return new;
+  end if;
+
+  if new.room_id is not null then
+    perform public.assert_room_available(new.room_id, new.check_in, new.check_out, new.id);
+  end if;
+
+  -- Re-activating or moving a multi-room booking re-checks each of its room lines
+  if tg_op = 'UPDATE' then
+    for v_line in
+      select room_id, check_in_date, check_out_date
+        from public.booking_rooms
+       where booking_id = new.id
+    loop
+      perform public.assert_room_available(v_line.room_id, v_line.check_in_date, v_line.check_out_date, new.id);
+    end loop;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- assert_room_available skips the booking's own lines, so a booking holding the same room
+-- twice on one night is caught by a trigger of its own
+create or replace function public.check_booking_rooms_self_overlap()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from public.booking_rooms br
+     where br.booking_id = new.booking_id
+       and br.id is distinct from new.id
+       and br.room_id = new.room_id
+       and br.check_in_date < new.check_out_date
+       and br.check_out_date > new.check_in_date
+  ) then
+    raise exception using
+      errcode = '23P01',
+      message = 'This booking already holds the room on some of these nights',
+      hint = 'Remove the duplicate room line or change its dates.';
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.check_booking_rooms_line_availability()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_status text;
+begin
+  select status into v_status from public.bookings where id = new.booking_id;
+
+  if v_status is not null and public.is_occupying_status(v_status) then
+    perform public.assert_room_available(new.room_id, new.check_in_date, new.check_out_date, new.booking_id);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_prevent_double_booking on public.bookings;
+create trigger bookings_prevent_double_booking
+  before insert or update of room_id, check_in, check_out, status on public.bookings
+  for each row execute function public.check_booking_room_availability();
+
+drop trigger if exists booking_rooms_prevent_double_booking on public.booking_rooms;
+create trigger booking_rooms_prevent_double_booking
+  before insert or update of room_id, check_in_date, check_out_date on public.booking_rooms
+  for each row execute function public.check_booking_rooms_line_availability();
+
+drop trigger if exists booking_rooms_prevent_self_overlap on public.booking_rooms;
+create trigger booking_rooms_prevent_self_overlap
+  before insert or update of booking_id, room_id, check_in_date, check_out_date on public.booking_rooms
+  for each row execute function public.check_booking_rooms_self_overlap();
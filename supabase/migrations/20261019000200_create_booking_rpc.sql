@@ -0,0 +1,67 @@
+-- Atomic booking creation.
+--
+-- create_booking inserts the bookings header and all of its booking_rooms lines in one
+-- transaction. If any insert fails (including a double-booking rejected by the
+-- prevent_double_booking triggers) everything is rolled back and a structured error is
+-- returned instead of leaving a header row with no rooms behind.
+--
+-- Called from the client as:
+--   supabase.rpc('create_booking', { p_booking: {...}, p_rooms: [{...}, ...] })
+--
+-- Returns:
+--   { "success": true,  "booking_id": "<uuid>" }
+--   { "success": false, "error": { "code": "<sqlstate>", "message": "...", "hint": "..." } }
+
+create or replace function public.create_booking(
+  p_booking jsonb,
+  p_rooms jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_input public.bookings;
+  v_booking_id uuid;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    v_input := jsonb_populate_record(null::public.bookings, p_booking);
+
+    insert into public.bookings (
+      guest_name, guest_phone, guest_email, booking_no, room_id,
+      check_in, check_out, check_in_time, check_out_time,
+      price, advance, vat_applicable, vat_amount, checkout_payable,
+      remarks, num_adults, guest_count, status,
+      revenue, pending_amount, refund_amount, total_rooms
+    )
+    values (
+      v_input.guest_name, v_input.guest_phone, v_input.guest_email, v_input.booking_no, v_input.room_id,
+      v_input.check_in, v_input.check_out, v_input.check_in_time, v_input.check_out_time,
+      v_input.price, v_input.advance, v_input.vat_applicable, v_input.vat_amount, v_input.checkout_payable,
+      v_input.remarks, v_input.num_adults, v_input.guest_count, coalesce(v_input.status, 'Confirmed'),
+      v_input.revenue, v_input.pending_amount, coalesce(v_input.refund_amount, 0),
+      coalesce(v_input.total_rooms, greatest(jsonb_array_length(p_rooms), 1))
+    )
+    returning id into v_booking_id;
+
+    insert into public.booking_rooms (
+      booking_id, room_id, check_in_date, check_out_date, price_per_night, vat
+    )
+    select v_booking_id, r.room_id, r.check_in_date, r.check_out_date, r.price_per_night, coalesce(r.vat, 0)
+      from jsonb_populate_recordset(null::public.booking_rooms, p_rooms) r;
+  exception
+    when others then
+      -- Leaving the inner block rolls back both inserts
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', v_booking_id);
+end;
+$$;
+
+grant execute on function public.create_booking(jsonb, jsonb) to authenticated;
@@ -0,0 +1,87 @@
+-- Atomic booking edits.
+--
+-- update_booking rewrites a Confirmed booking's header and replaces all of its
+-- booking_rooms lines in one transaction. The prevent_double_booking triggers exclude
+-- the booking being edited, so it never conflicts with its own previous dates.
+--
+-- Called from the client as:
+--   supabase.rpc('update_booking', { p_booking_id: '<uuid>', p_booking: {...}, p_rooms: [...] })
+--
+-- Returns the same shape as create_booking:
+--   { "success": true,  "booking_id": "<uuid>" }
+--   { "success": false, "error": { "code": "<sqlstate>", "message": "...", "hint": "..." } }
+
+create or replace function public.update_booking(
+  p_booking_id uuid,
+  p_booking jsonb,
+  p_rooms jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_input public.bookings;
+  v_status text;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status into v_status from public.bookings where id = p_booking_id for update;
+
+    if v_status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_status <> 'Confirmed' then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only confirmed bookings can be edited (this booking is %s)', v_status);
+    end if;
+
+    v_input := jsonb_populate_record(null::public.bookings, p_booking);
+
+    -- Drop the old room lines first so the header's own triggers do not re-check stale dates
+    delete from public.booking_rooms where booking_id = p_booking_id;
+
+    update public.bookings
+       set guest_name = v_input.guest_name,
+           guest_phone = v_input.guest_phone,
+           guest_email = v_input.guest_email,
+           booking_no = v_input.booking_no,
+           room_id = v_input.room_id,
+           check_in = v_input.check_in,
+           check_out = v_input.check_out,
+           check_in_time = v_input.check_in_time,
+           check_out_time = v_input.check_out_time,
+           price = v_input.price,
+           advance = v_input.advance,
+           vat_applicable = v_input.vat_applicable,
+           vat_amount = v_input.vat_amount,
+           checkout_payable = v_input.checkout_payable,
+           remarks = v_input.remarks,
+           num_adults = v_input.num_adults,
+           guest_count = v_input.guest_count,
+           revenue = v_input.revenue,
+           pending_amount = v_input.pending_amount,
+           total_rooms = coalesce(v_input.total_rooms, greatest(jsonb_array_length(p_rooms), 1)),
+           updated_at = now()
+     where id = p_booking_id;
+
+    insert into public.booking_rooms (
+      booking_id, room_id, check_in_date, check_out_date, price_per_night, vat
+    )
+    select p_booking_id, r.room_id, r.check_in_date, r.check_out_date, r.price_per_night, coalesce(r.vat, 0)
+      from jsonb_populate_recordset(null::public.booking_rooms, p_rooms) r;
+  exception
+    when others then
+      -- Leaving the inner block rolls back the header update and the room lines together
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
+
+grant execute on function public.update_booking(uuid, jsonb, jsonb) to authenticated;
@@ -0,0 +1,34 @@
+-- Configurable cancellation & refund policies.
+--
+-- Each non-custom row is a tier: cancelling at least days_before_checkin days before
+-- check-in refunds refund_percentage of the advance. The tier with the largest
+-- days_before_checkin that the cancellation still meets wins. Rows with is_custom = true
+-- describe negotiated refunds and carry no days/percentage.
+
+create table if not exists public.refund_policies (
+  id uuid primary key default gen_random_uuid(),
+  policy_name text not null,
+  days_before_checkin integer check (days_before_checkin is null or days_before_checkin >= 0),
+  refund_percentage numeric(5, 2) check (refund_percentage is null or refund_percentage between 0 and 100),
+  description text,
+  is_custom boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint refund_policies_tier_complete check (
+    is_custom or (days_before_checkin is not null and refund_percentage is not null)
+  )
+);
+
+create unique index if not exists refund_policies_days_unique
+  on public.refund_policies (days_before_checkin)
+  where not is_custom;
+
+-- Seed the tiers that used to be hard-coded in calculateRefund
+insert into public.refund_policies (policy_name, days_before_checkin, refund_percentage, description, is_custom)
+select * from (values
+  ('Premium Cancellation', 7, 85, 'Allows property to rebook the room', false),
+  ('Standard Cancellation', 4, 50, 'Limited time to rebook; partial recovery', false),
+  ('Late Cancellation', 0, 0, 'No time to rebook; operational costs incurred', false),
+  ('Custom Refund', null, null, 'Negotiated with the guest by management', true)
+) as seed(policy_name, days_before_checkin, refund_percentage, description, is_custom)
+where not exists (select 1 from public.refund_policies);
@@ -0,0 +1,166 @@
+-- Configurable tax engine.
+--
+-- tax_rates holds named VAT and service-charge rates with effective date ranges and an
+-- inclusive/exclusive mode. The client applies the rates in force on a booking's check-in
+-- date and snapshots them onto the booking (tax_lines), so editing a rate later never
+-- changes amounts on existing bookings, invoices or statistics.
+
+create table if not exists public.tax_rates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  kind text not null check (kind in ('vat', 'service_charge')),
+  rate numeric(6, 3) not null check (rate >= 0 and rate <= 100),
+  mode text not null default 'exclusive' check (mode in ('exclusive', 'inclusive')),
+  effective_from date not null default current_date,
+  effective_to date,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint tax_rates_effective_range check (effective_to is null or effective_to >= effective_from)
+);
+
+-- Seed the 2.5% VAT that used to be hard-coded, effective for all existing bookings
+insert into public.tax_rates (name, kind, rate, mode, effective_from)
+select 'VAT', 'vat', 2.5, 'exclusive', date '2000-01-01'
+where not exists (select 1 from public.tax_rates);
+
+alter table public.bookings
+  add column if not exists service_charge_amount numeric(12, 2) not null default 0,
+  add column if not exists tax_lines jsonb not null default '[]'::jsonb;
+
+-- Snapshot existing VAT so old bookings keep their label
+update public.bookings
+   set tax_lines = jsonb_build_array(jsonb_build_object(
+         'tax_rate_id', null, 'name', 'VAT', 'kind', 'vat', 'rate', 2.5, 'mode', 'exclusive', 'amount', vat_amount
+       ))
+ where vat_amount > 0 and tax_lines = '[]'::jsonb;
+
+-- Re-create the booking RPCs so they persist the new columns
+
+create or replace function public.create_booking(
+  p_booking jsonb,
+  p_rooms jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_input public.bookings;
+  v_booking_id uuid;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    v_input := jsonb_populate_record(null::public.bookings, p_booking);
+
+    insert into public.bookings (
+      guest_name, guest_phone, guest_email, booking_no, room_id,
+      check_in, check_out, check_in_time, check_out_time,
+      price, advance, vat_applicable, vat_amount, service_charge_amount, tax_lines, checkout_payable,
+      remarks, num_adults, guest_count, status,
+      revenue, pending_amount, refund_amount, total_rooms
+    )
+    values (
+      v_input.guest_name, v_input.guest_phone, v_input.guest_email, v_input.booking_no, v_input.room_id,
+      v_input.check_in, v_input.check_out, v_input.check_in_time, v_input.check_out_time,
+      v_input.price, v_input.advance, v_input.vat_applicable, v_input.vat_amount,
+      coalesce(v_input.service_charge_amount, 0), coalesce(v_input.tax_lines, '[]'::jsonb), v_input.checkout_payable,
+      v_input.remarks, v_input.num_adults, v_input.guest_count, coalesce(v_input.status, 'Confirmed'),
+      v_input.revenue, v_input.pending_amount, coalesce(v_input.refund_amount, 0),
+      coalesce(v_input.total_rooms, greatest(jsonb_array_length(p_rooms), 1))
+    )
+    returning id into v_booking_id;
+
+    insert into public.booking_rooms (
+      booking_id, room_id, check_in_date, check_out_date, price_per_night, vat
+    )
+    select v_booking_id, r.room_id, r.check_in_date, r.check_out_date, r.price_per_night, coalesce(r.vat, 0)
+      from jsonb_populate_recordset(null::public.booking_rooms, p_rooms) r;
+  exception
+    when others then
+      -- Leaving the inner block rolls back both inserts
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', v_booking_id);
+end;
+$$;
+
+create or replace function public.update_booking(
+  p_booking_id uuid,
+  p_booking jsonb,
+  p_rooms jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_input public.bookings;
+  v_status text;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status into v_status from public.bookings where id = p_booking_id for update;
+
+    if v_status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_status <> 'Confirmed' then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only confirmed bookings can be edited (this booking is %s)', v_status);
+    end if;
+
+    v_input := jsonb_populate_record(null::public.bookings, p_booking);
+
+    -- Drop the old room lines first so the header's own triggers do not re-check stale dates
+    delete from public.booking_rooms where booking_id = p_booking_id;
+
+    update public.bookings
+       set guest_name = v_input.guest_name,
+           guest_phone = v_input.guest_phone,
+           guest_email = v_input.guest_email,
+           booking_no = v_input.booking_no,
+           room_id = v_input.room_id,
+           check_in = v_input.check_in,
+           check_out = v_input.check_out,
+           check_in_time = v_input.check_in_time,
+           check_out_time = v_input.check_out_time,
+           price = v_input.price,
+           advance = v_input.advance,
+           vat_applicable = v_input.vat_applicable,
+           vat_amount = v_input.vat_amount,
+           service_charge_amount = coalesce(v_input.service_charge_amount, 0),
+           tax_lines = coalesce(v_input.tax_lines, '[]'::jsonb),
+           checkout_payable = v_input.checkout_payable,
+           remarks = v_input.remarks,
+           num_adults = v_input.num_adults,
+           guest_count = v_input.guest_count,
+           revenue = v_input.revenue,
+           pending_amount = v_input.pending_amount,
+           total_rooms = coalesce(v_input.total_rooms, greatest(jsonb_array_length(p_rooms), 1)),
+           updated_at = now()
+     where id = p_booking_id;
+
+    insert into public.booking_rooms (
+      booking_id, room_id, check_in_date, check_out_date, price_per_night, vat
+    )
+    select p_booking_id, r.room_id, r.check_in_date, r.check_out_date, r.price_per_night, coalesce(r.vat, 0)
+      from jsonb_populate_recordset(null::public.booking_rooms, p_rooms) r;
+  exception
+    when others then
+      -- Leaving the inner block rolls back the header update and the room lines together
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
@@ -0,0 +1,295 @@
+-- Payments ledger.
+--
+-- Every payment and refund is recorded as its own row in payments (amount, method, date,
+-- reference and the staff user who took it). The bookings money columns are no longer
+-- written by the client: a trigger derives them from the ledger on every booking write,
+-- and every ledger write refreshes its booking.
+--
+--   advance / revenue  = payments - refunds (what the guest has paid so far)
+--   refund_amount      = refunds
+--   checkout_payable   = balance still due (0 for cancelled bookings)
+--   pending_amount     = same as checkout_payable
+--
+-- Checkout and cancellation go through checkout_booking / cancel_booking so the status
+-- change and its ledger entry are saved together.
+
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+  kind text not null default 'payment' check (kind in ('payment', 'refund')),
+  amount numeric(12, 2) not null check (amount > 0),
+  method text not null default 'Cash',
+  paid_at timestamptz not null default now(),
+  reference text,
+  notes text,
+  staff_user_id uuid default auth.uid(),
+  staff_email text default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists payments_booking_id_idx on public.payments (booking_id, paid_at);
+
+-- Backfill the ledger from the old scalars before the triggers take over.
+-- revenue already has refunds taken off, so the original payments are revenue + refund_amount.
+insert into public.payments (booking_id, kind, amount, method, paid_at, reference, staff_user_id, staff_email)
+select b.id, 'payment', coalesce(b.revenue, 0) + coalesce(b.refund_amount, 0), 'Other', b.created_at,
+       'Migrated from booking totals', null, null
+  from public.bookings b
+ where coalesce(b.revenue, 0) + coalesce(b.refund_amount, 0) > 0
+   and not exists (select 1 from public.payments p where p.booking_id = b.id);
+
+insert into public.payments (booking_id, kind, amount, method, paid_at, reference, staff_user_id, staff_email)
+select b.id, 'refund', b.refund_amount, 'Other', coalesce(b.updated_at, b.created_at),
+       'Migrated from booking totals', null, null
+  from public.bookings b
+ where coalesce(b.refund_amount, 0) > 0
+   and not exists (select 1 from public.payments p where p.booking_id = b.id and p.kind = 'refund');
+
+create or replace function public.derive_booking_balance()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_paid numeric;
+  v_refunded numeric;
+  v_net numeric;
+begin
+  -- A brand-new booking has no ledger yet; create_booking records its advance right after
+  if tg_op = 'INSERT' then
+    return new;
+  end if;
+
+  select coalesce(sum(amount) filter (where kind = 'payment'), 0),
+         coalesce(sum(amount) filter (where kind = 'refund'), 0)
+    into v_paid, v_refunded
+    from public.payments
+   where booking_id = new.id;
+
+  v_net := v_paid - v_refunded;
+
+  new.advance := v_net;
+  new.revenue := v_net;
+  new.refund_amount := v_refunded;
+  new.checkout_payable := case
+    when new.status = 'Cancelled' then 0
+    else greatest(
+      coalesce(new.price, 0) + coalesce(new.vat_amount, 0) + coalesce(new.service_charge_amount, 0)
+        + coalesce(new.extra_income, 0) - coalesce(new.discount, 0) - v_net,
+      0
+    )
+  end;
+  new.pending_amount := new.checkout_payable;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_derive_balance on public.bookings;
+create trigger bookings_derive_balance
+  before insert or update on public.bookings
+  for each row execute function public.derive_booking_balance();
+
+create or replace function public.payments_refresh_booking()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Touching the booking re-runs derive_booking_balance
+  if tg_op in ('INSERT', 'UPDATE') then
+    update public.bookings set updated_at = now() where id = new.booking_id;
+  end if;
+  if tg_op in ('UPDATE', 'DELETE') and old.booking_id is distinct from new.booking_id then
+    update public.bookings set updated_at = now() where id = old.booking_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists payments_refresh_booking on public.payments;
+create trigger payments_refresh_booking
+  after insert or update or delete on public.payments
+  for each row execute function public.payments_refresh_booking();
+
+-- Bring every existing booking in line with its backfilled ledger
+update public.bookings set updated_at = updated_at;
+
+-- create_booking now records the advance as the booking's first payment.
+-- p_booking may carry advance_method (not a bookings column); it defaults to Cash.
+
+create or replace function public.create_booking(
+  p_booking jsonb,
+  p_rooms jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_input public.bookings;
+  v_booking_id uuid;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    v_input := jsonb_populate_record(null::public.bookings, p_booking);
+
+    insert into public.bookings (
+      guest_name, guest_phone, guest_email, booking_no, room_id,
+      check_in, check_out, check_in_time, check_out_time,
+      price, advance, vat_applicable, vat_amount, service_charge_amount, tax_lines, checkout_payable,
+      remarks, num_adults, guest_count, status,
+      revenue, pending_amount, refund_amount, total_rooms
+    )
+    values (
+      v_input.guest_name, v_input.guest_phone, v_input.guest_email, v_input.booking_no, v_input.room_id,
+      v_input.check_in, v_input.check_out, v_input.check_in_time, v_input.check_out_time,
+      v_input.price, 0, v_input.vat_applicable, v_input.vat_amount,
+      coalesce(v_input.service_charge_amount, 0), coalesce(v_input.tax_lines, '[]'::jsonb), 0,
+      v_input.remarks, v_input.num_adults, v_input.guest_count, coalesce(v_input.status, 'Confirmed'),
+      0, 0, 0,
+      coalesce(v_input.total_rooms, greatest(jsonb_array_length(p_rooms), 1))
+    )
+    returning id into v_booking_id;
+
+    insert into public.booking_rooms (
+      booking_id, room_id, check_in_date, check_out_date, price_per_night, vat
+    )
+    select v_booking_id, r.room_id, r.check_in_date, r.check_out_date, r.price_per_night, coalesce(r.vat, 0)
+      from jsonb_populate_recordset(null::public.booking_rooms, p_rooms) r;
+
+    if coalesce(v_input.advance, 0) > 0 then
+      insert into public.payments (booking_id, kind, amount, method, reference)
+      values (v_booking_id, 'payment', v_input.advance, coalesce(nullif(p_booking ->> 'advance_method', ''), 'Cash'), 'Advance');
+    else
+      -- No ledger entry to trigger the refresh, so derive the balance directly
+      update public.bookings set updated_at = now() where id = v_booking_id;
+    end if;
+  exception
+    when others then
+      -- Leaving the inner block rolls back the booking, its rooms and the advance payment
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', v_booking_id);
+end;
+$$;
+
+-- Check out a booking: save extras/discount, mark it Checked-out and record the
+-- remaining balance as the final payment.
+--   { "success": true, "booking_id": "<uuid>", "amount_collected": <number> }
+
+create or replace function public.checkout_booking(
+  p_booking_id uuid,
+  p_extra_income numeric default 0,
+  p_discount numeric default 0,
+  p_method text default 'Cash',
+  p_reference text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_status text;
+  v_due numeric;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status into v_status from public.bookings where id = p_booking_id for update;
+
+    if v_status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_status not in ('Confirmed', 'Paid') then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only confirmed bookings can be checked out (this booking is %s)', v_status);
+    end if;
+
+    update public.bookings
+       set extra_income = coalesce(p_extra_income, 0),
+           discount = coalesce(p_discount, 0),
+           status = 'Checked-out',
+           updated_at = now()
+     where id = p_booking_id
+     returning checkout_payable into v_due;
+
+    if v_due > 0 then
+      insert into public.payments (booking_id, kind, amount, method, reference, notes)
+      values (p_booking_id, 'payment', v_due, coalesce(nullif(p_method, ''), 'Cash'), p_reference, 'Checkout');
+    end if;
+  exception
+    when others then
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id, 'amount_collected', coalesce(v_due, 0));
+end;
+$$;
+
+-- Cancel a booking and record the refund (if any) in the ledger.
+-- The refund cannot exceed what the guest has paid.
+
+create or replace function public.cancel_booking(
+  p_booking_id uuid,
+  p_refund_amount numeric default 0,
+  p_method text default 'Cash',
+  p_reference text default null,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_status text;
+  v_paid numeric;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status, advance into v_status, v_paid from public.bookings where id = p_booking_id for update;
+
+    if v_status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_status not in ('Confirmed', 'Paid') then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only confirmed bookings can be cancelled (this booking is %s)', v_status);
+    elsif coalesce(p_refund_amount, 0) > coalesce(v_paid, 0) then
+      raise exception using
+        errcode = '22023',
+        message = format('Refund of %s is more than the %s paid', p_refund_amount, coalesce(v_paid, 0));
+    end if;
+
+    if coalesce(p_refund_amount, 0) > 0 then
+      insert into public.payments (booking_id, kind, amount, method, reference, notes)
+      values (p_booking_id, 'refund', p_refund_amount, coalesce(nullif(p_method, ''), 'Cash'), p_reference, p_notes);
+    end if;
+
+    update public.bookings
+       set status = 'Cancelled',
+           vat_amount = 0,
+           service_charge_amount = 0,
+           updated_at = now()
+     where id = p_booking_id;
+  exception
+    when others then
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
+
+grant execute on function public.checkout_booking(uuid, numeric, numeric, text, text) to authenticated;
+grant execute on function public.cancel_booking(uuid, numeric, text, text, text) to authenticated;
@@ -0,0 +1,85 @@
+-- Guest directory.
+--
+-- guests holds one row per person, keyed by phone number normalized the same way as
+-- formatPhoneNumber() in the client (+880XXXXXXXXXX). Bookings keep their copied
+-- guest_name/guest_phone/guest_email for history and gain a guest_id link, which a
+-- trigger fills in on every insert or contact change, so every booking path stays linked.
+
+create or replace function public.normalize_phone(p_phone text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  v_digits text := regexp_replace(coalesce(p_phone, ''), '\D', '', 'g');
+begin
+  if v_digits like '880%' then
+    return '+' || v_digits;
+  elsif v_digits like '0%' then
+    return '+880' || substr(v_digits, 2);
+  elsif length(v_digits) = 10 then
+    return '+880' || v_digits;
+  end if;
+  return nullif(trim(p_phone), '');
+end;
+$$;
+
+create table if not exists public.guests (
+  id uuid primary key default gen_random_uuid(),
+  phone text not null unique,
+  name text not null,
+  email text,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.bookings
+  add column if not exists guest_id uuid references public.guests (id) on delete set null;
+
+create index if not exists bookings_guest_id_idx on public.bookings (guest_id);
+
+-- One guest per normalized phone, named after their most recent booking
+insert into public.guests (phone, name, email, created_at)
+select distinct on (public.normalize_phone(b.guest_phone))
+       public.normalize_phone(b.guest_phone), b.guest_name, nullif(b.guest_email, ''), b.created_at
+  from public.bookings b
+ where public.normalize_phone(b.guest_phone) is not null
+ order by public.normalize_phone(b.guest_phone), b.created_at desc
+on conflict (phone) do nothing;
+
+update public.bookings b
+   set guest_id = g.id
+  from public.guests g
+ where g.phone = public.normalize_phone(b.guest_phone)
+   and b.guest_id is distinct from g.id;
+
+create or replace function public.link_booking_guest()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_phone text := public.normalize_phone(new.guest_phone);
+begin
+  if v_phone is null then
+    new.guest_id := null;
+    return new;
+  end if;
+
+  -- Latest booking details win, but never blank out an email the guest gave before
+  insert into public.guests (phone, name, email)
+  values (v_phone, new.guest_name, nullif(new.guest_email, ''))
+  on conflict (phone) do update
+    set name = excluded.name,
+        email = coalesce(excluded.email, public.guests.email),
+        updated_at = now()
+  returning id into new.guest_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_link_guest on public.bookings;
+create trigger bookings_link_guest
+  before insert or update of guest_name, guest_phone, guest_email on public.bookings
+  for each row execute function public.link_booking_guest();
@@ -0,0 +1,183 @@
+-- Rate plans.
+--
+-- A rate plan prices a room (room_id), every room of a type (room_type), or - with
+-- neither set - every room without a more specific plan. Each night is charged at the
+-- plan's base_rate, or a season's nightly_rate when the night falls in one of its
+-- rate_plan_seasons, plus weekend_uplift_percent on Friday and Saturday nights.
+-- min_stay (on the plan or a season the stay touches) is enforced by the booking form.
+--
+-- Bookings and booking_rooms record the plan that produced their price, and
+-- rate_overridden marks a booking whose price was changed by hand after quoting.
+
+create table if not exists public.rate_plans (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  room_id uuid references public.rooms (id) on delete cascade,
+  room_type text,
+  base_rate numeric(12, 2) not null check (base_rate >= 0),
+  weekend_uplift_percent numeric(6, 2) not null default 0,
+  min_stay integer not null default 1 check (min_stay >= 1),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.rate_plan_seasons (
+  id uuid primary key default gen_random_uuid(),
+  rate_plan_id uuid not null references public.rate_plans (id) on delete cascade,
+  name text not null,
+  start_date date not null,
+  end_date date not null, -- Inclusive: the last night charged at this rate
+  nightly_rate numeric(12, 2) not null check (nightly_rate >= 0),
+  min_stay integer check (min_stay is null or min_stay >= 1),
+  created_at timestamptz not null default now(),
+  constraint rate_plan_seasons_range check (end_date >= start_date)
+);
+
+create index if not exists rate_plan_seasons_plan_idx on public.rate_plan_seasons (rate_plan_id, start_date);
+
+alter table public.bookings
+  add column if not exists rate_plan_id uuid references public.rate_plans (id) on delete set null,
+  add column if not exists rate_overridden boolean not null default false;
+
+alter table public.booking_rooms
+  add column if not exists rate_plan_id uuid references public.rate_plans (id) on delete set null;
+
+-- Re-create the booking RPCs so they persist the plan columns
+
+create or replace function public.create_booking(
+  p_booking jsonb,
+  p_rooms jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_input public.bookings;
+  v_booking_id uuid;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    v_input := jsonb_populate_record(null::public.bookings, p_booking);
+
+    insert into public.bookings (
+      guest_name, guest_phone, guest_email, booking_no, room_id,
+      check_in, check_out, check_in_time, check_out_time,
+      price, advance, vat_applicable, vat_amount, service_charge_amount, tax_lines, checkout_payable,
+      remarks, num_adults, guest_count, status,
+      revenue, pending_amount, refund_amount, total_rooms,
+      rate_plan_id, rate_overridden
+    )
+    values (
+      v_input.guest_name, v_input.guest_phone, v_input.guest_email, v_input.booking_no, v_input.room_id,
+      v_input.check_in, v_input.check_out, v_input.check_in_time, v_input.check_out_time,
+      v_input.price, 0, v_input.vat_applicable, v_input.vat_amount,
+      coalesce(v_input.service_charge_amount, 0), coalesce(v_input.tax_lines, '[]'::jsonb), 0,
+      v_input.remarks, v_input.num_adults, v_input.guest_count, coalesce(v_input.status, 'Confirmed'),
+      0, 0, 0,
+      coalesce(v_input.total_rooms, greatest(jsonb_array_length(p_rooms), 1)),
+      v_input.rate_plan_id, coalesce(v_input.rate_overridden, false)
+    )
+    returning id into v_booking_id;
+
+    insert into public.booking_rooms (
+      booking_id, room_id, check_in_date, check_out_date, price_per_night, vat, rate_plan_id
+    )
+    select v_booking_id, r.room_id, r.check_in_date, r.check_out_date, r.price_per_night, coalesce(r.vat, 0), r.rate_plan_id
+      from jsonb_populate_recordset(null::public.booking_rooms, p_rooms) r;
+
+    if coalesce(v_input.advance, 0) > 0 then
+      insert into public.payments (booking_id, kind, amount, method, reference)
+      values (v_booking_id, 'payment', v_input.advance, coalesce(nullif(p_booking ->> 'advance_method', ''), 'Cash'), 'Advance');
+    else
+      -- No ledger entry to trigger the refresh, so derive the balance directly
+      update public.bookings set updated_at = now() where id = v_booking_id;
+    end if;
+  exception
+    when others then
+      -- Leaving the inner block rolls back the booking, its rooms and the advance payment
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', v_booking_id);
+end;
+$$;
+
+create or replace function public.update_booking(
+  p_booking_id uuid,
+  p_booking jsonb,
+  p_rooms jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_input public.bookings;
+  v_status text;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status into v_status from public.bookings where id = p_booking_id for update;
+
+    if v_status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_status <> 'Confirmed' then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only confirmed bookings can be edited (this booking is %s)', v_status);
+    end if;
+
+    v_input := jsonb_populate_record(null::public.bookings, p_booking);
+
+    -- Drop the old room lines first so the header's own triggers do not re-check stale dates
+    delete from public.booking_rooms where booking_id = p_booking_id;
+
+    -- Money columns (advance, revenue, balances) are derived from the payments ledger by trigger
+    update public.bookings
+       set guest_name = v_input.guest_name,
+           guest_phone = v_input.guest_phone,
+           guest_email = v_input.guest_email,
+           booking_no = v_input.booking_no,
+           room_id = v_input.room_id,
+           check_in = v_input.check_in,
+           check_out = v_input.check_out,
+           check_in_time = v_input.check_in_time,
+           check_out_time = v_input.check_out_time,
+           price = v_input.price,
+           vat_applicable = v_input.vat_applicable,
+           vat_amount = v_input.vat_amount,
+           service_charge_amount = coalesce(v_input.service_charge_amount, 0),
+           tax_lines = coalesce(v_input.tax_lines, '[]'::jsonb),
+           remarks = v_input.remarks,
+           num_adults = v_input.num_adults,
+           guest_count = v_input.guest_count,
+           total_rooms = coalesce(v_input.total_rooms, greatest(jsonb_array_length(p_rooms), 1)),
+           rate_plan_id = v_input.rate_plan_id,
+           rate_overridden = coalesce(v_input.rate_overridden, false),
+           updated_at = now()
+     where id = p_booking_id;
+
+    insert into public.booking_rooms (
+      booking_id, room_id, check_in_date, check_out_date, price_per_night, vat, rate_plan_id
+    )
+    select p_booking_id, r.room_id, r.check_in_date, r.check_out_date, r.price_per_night, coalesce(r.vat, 0), r.rate_plan_id
+      from jsonb_populate_recordset(null::public.booking_rooms, p_rooms) r;
+  exception
+    when others then
+      -- Leaving the inner block rolls back the header update and the room lines together
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
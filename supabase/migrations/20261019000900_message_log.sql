@@ -0,0 +1,32 @@
+-- Outbound message log.
+--
+-- Every WhatsApp message sent for a booking is recorded here before it is handed to the
+-- provider, so staff can see what was sent, whether it went out and why it failed.
+-- The client queues a row; /api/send-whatsapp sends it through the configured provider
+-- (WhatsApp Cloud API, Twilio or the mock used in development), retrying transient
+-- failures, and records the outcome on the same row.
+--
+--   queued  - saved, not yet accepted by the provider
+--   sending - claimed by /api/send-whatsapp, which is handing it to the provider; only one
+--             caller can move a row here, so a message is never sent twice
+--   sent    - accepted by the provider (provider_message_id is its id)
+--   failed  - the provider refused it or every attempt failed (see last_error)
+
+create table if not exists public.message_log (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+  channel text not null default 'whatsapp',
+  recipient text not null,
+  body text not null,
+  provider text,
+  status text not null default 'queued' check (status in ('queued', 'sending', 'sent', 'failed')),
+  provider_message_id text,
+  attempts integer not null default 0,
+  last_error text,
+  staff_email text default (auth.jwt() ->> 'email'),
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists message_log_booking_id_idx on public.message_log (booking_id, created_at);
@@ -0,0 +1,16 @@
+-- Editable guest message templates.
+--
+-- One row per kind of message. body is plain text with {{placeholders}} that the app fills
+-- in from the booking (see TEMPLATE_PLACEHOLDERS in src/utils/templateUtils.ts). A kind
+-- without a row uses the built-in template shipped with the app, so deleting a row resets it.
+
+create table if not exists public.message_templates (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null unique check (
+    kind in ('booking_confirmation', 'pre_arrival_reminder', 'cancellation_notice', 'checkout_thank_you')
+  ),
+  name text not null,
+  body text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
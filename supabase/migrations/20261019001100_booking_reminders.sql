@@ -0,0 +1,15 @@
+-- Scheduled reminders.
+--
+-- /api/cron/send-reminders runs daily and messages guests a few days before check-in
+-- (pre_arrival_reminder) and after check-out (checkout_thank_you). Before queueing a
+-- reminder it claims (booking_id, kind) here; the primary key makes the claim succeed
+-- only once, so a guest never gets the same reminder twice even if runs overlap or repeat.
+-- A reminder that failed to send stays in message_log and is retried from there by staff.
+
+create table if not exists public.booking_reminders (
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+  kind text not null check (kind in ('pre_arrival_reminder', 'checkout_thank_you')),
+  message_id uuid references public.message_log (id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (booking_id, kind)
+);
@@ -0,0 +1,27 @@
+-- Google Sheet sync outbox.
+--
+-- /api/sync-to-sheet writes bookings into the configured Google Sheet, one row per booking
+-- keyed by booking id. Every sync that does not reach the sheet (Sheets API down, function
+-- unreachable, quota exceeded) is recorded here and replayed later with backoff, by the
+-- next successful sync, by the daily cron and by the "Replay" button.
+--
+--   pending - waiting for its next attempt at next_attempt_at
+--   done    - written to the sheet
+--   failed  - gave up after too many attempts; a full resync will still correct the sheet
+--
+-- booking_id has no foreign key: a deleted booking still needs its sheet row removed.
+
+create table if not exists public.sheet_sync_outbox (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null,
+  status text not null default 'pending' check (status in ('pending', 'done', 'failed')),
+  attempts integer not null default 0,
+  last_error text,
+  next_attempt_at timestamptz not null default now(),
+  processed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sheet_sync_outbox_due_idx
+  on public.sheet_sync_outbox (next_attempt_at)
+  where status = 'pending';
@@ -0,0 +1,136 @@
+-- Server-side Google Sheet sync.
+--
+-- The sheet used to be synced by the browser (useSyncToSheets), so nothing was mirrored
+-- while no admin had the app open and every open tab synced the same change again.
+-- Triggers on bookings, booking_rooms and expenses now queue the changed record in
+-- sheet_sync_outbox in the same transaction as the change, deletes included.
+--
+-- Dedup: a record has at most one pending entry. A change to a record that is already
+-- queued only bumps queued_at, and /api/sync-to-sheet marks an entry done only if
+-- queued_at did not move while it was writing, so the latest state always reaches the sheet.
+--
+-- Claiming: the webhook fires on every insert, so several replays run at once. Each one
+-- takes its entries with claim_sheet_sync_entries(), which moves them to processing under
+-- a row lock, so no two replays write the same record at the same time. A processing entry
+-- left behind by a replay that died is claimed again after ten minutes.
+--
+-- Delivery: add a Database Webhook (Supabase dashboard > Database > Webhooks) on INSERT
+-- into public.sheet_sync_outbox, POST to https://<app>/api/sync-to-sheet with the header
+-- "Authorization: Bearer <CRON_SECRET>". The daily cron replays anything the webhook missed.
+
+alter table public.sheet_sync_outbox rename column booking_id to record_id;
+
+alter table public.sheet_sync_outbox
+  add column if not exists entity text not null default 'booking' check (entity in ('booking', 'expense')),
+  add column if not exists queued_at timestamptz not null default now();
+
+update public.sheet_sync_outbox set queued_at = created_at;
+
+-- Collapse entries queued by browser tabs before the unique index goes on
+delete from public.sheet_sync_outbox o
+using public.sheet_sync_outbox n
+where o.status = 'pending'
+  and n.status = 'pending'
+  and o.entity = n.entity
+  and o.record_id = n.record_id
+  and (o.created_at, o.id) < (n.created_at, n.id);
+
+alter table public.sheet_sync_outbox
+  add column if not exists claimed_at timestamptz;
+
+alter table public.sheet_sync_outbox drop constraint if exists sheet_sync_outbox_status_check;
+alter table public.sheet_sync_outbox
+  add constraint sheet_sync_outbox_status_check
+  check (status in ('pending', 'processing', 'done', 'failed'));
+
+-- One live entry per record: changes made while it is being written bump its queued_at
+create unique index if not exists sheet_sync_outbox_live_record_idx
+  on public.sheet_sync_outbox (entity, record_id)
+  where status in ('pending', 'processing');
+
+create or replace function public.enqueue_sheet_sync(p_entity text, p_record_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  insert into public.sheet_sync_outbox (entity, record_id)
+  values (p_entity, p_record_id)
+  on conflict (entity, record_id) where status in ('pending', 'processing')
+  do update set queued_at = now();
+end;
+$$;
+
+-- Take up to p_limit due entries for one replay: pending ones whose attempt is due, and
+-- processing ones whose replay stopped answering
+create or replace function public.claim_sheet_sync_entries(p_limit integer)
+returns setof public.sheet_sync_outbox
+language sql
+as $$
+  with due as (
+    select id
+      from public.sheet_sync_outbox
+     where (status = 'pending' and next_attempt_at <= now())
+        or (status = 'processing' and claimed_at < now() - interval '10 minutes')
+     order by created_at
+     limit p_limit
+     for update skip locked
+  )
+  update public.sheet_sync_outbox o
+     set status = 'processing',
+         claimed_at = now()
+    from due
+   where o.id = due.id
+  returning o.*;
+$$;
+
+create or replace function public.queue_sheet_sync()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_table_name = 'expenses' then
+    perform public.enqueue_sheet_sync('expense', case when tg_op = 'DELETE' then old.id else new.id end);
+  elsif tg_table_name = 'booking_rooms' then
+    -- The sheet has one row per booking, so room lines resync their booking
+    if tg_op <> 'INSERT' then
+      perform public.enqueue_sheet_sync('booking', old.booking_id);
+    end if;
+    if tg_op <> 'DELETE' then
+      perform public.enqueue_sheet_sync('booking', new.booking_id);
+    end if;
+  else
+    perform public.enqueue_sheet_sync('booking', case when tg_op = 'DELETE' then old.id else new.id end);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists bookings_queue_sheet_sync on public.bookings;
+create trigger bookings_queue_sheet_sync
+  after insert or update or delete on public.bookings
+  for each row execute function public.queue_sheet_sync();
+
+drop trigger if exists booking_rooms_queue_sheet_sync on public.booking_rooms;
+create trigger booking_rooms_queue_sheet_sync
+  after insert or update or delete on public.booking_rooms
+  for each row execute function public.queue_sheet_sync();
+
+drop trigger if exists expenses_queue_sheet_sync on public.expenses;
+create trigger expenses_queue_sheet_sync
+  after insert or update or delete on public.expenses
+  for each row execute function public.queue_sheet_sync();
+
+grant execute on function public.claim_sheet_sync_entries(integer) to authenticated;
+
+-- The admin sync panel follows the outbox live
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'sheet_sync_outbox'
+  ) then
+    alter publication supabase_realtime add table public.sheet_sync_outbox;
+  end if;
+end;
+$$;
@@ -0,0 +1,179 @@
+-- Staff accounts and roles.
+--
+-- Access used to be limited to one shared login (VITE_ADMIN_EMAIL). Every staff member now
+-- signs in with their own account, listed here by email with one role:
+--
+--   owner      - everything, including managing staff
+--   manager    - bookings (including delete), rooms, settings, expenses
+--   front_desk - bookings, payments, guests and guest messages
+--   accountant - reads bookings, records payments, manages expenses
+--
+-- Staff are invited from the Staff page (/api/invite-staff), which adds the row here and
+-- sends the Supabase invite email. An account that is not listed, or is deactivated, can
+-- sign in to Supabase but cannot read or change anything: row-level security below checks
+-- has_permission() on every table, not just the client.
+--
+-- has_permission() must stay in step with ROLE_PERMISSIONS in src/utils/permissions.ts.
+--
+-- The first account created in this project (the old shared admin login) becomes the owner.
+-- To pick another owner: update public.staff set role = 'owner' where email = '...';
+
+create table if not exists public.staff (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique check (email = lower(email)),
+  name text,
+  role text not null check (role in ('owner', 'manager', 'front_desk', 'accountant')),
+  is_active boolean not null default true,
+  invited_by text default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.staff (email, name, role)
+select lower(email), 'Owner', 'owner'
+from auth.users
+where email is not null
+order by created_at
+limit 1
+on conflict (email) do nothing;
+
+-- Security definer so policies on staff itself can call it without recursing
+create or replace function public.current_staff_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role
+  from public.staff
+  where email = lower(auth.jwt() ->> 'email')
+    and is_active;
+$$;
+
+create or replace function public.is_staff()
+returns boolean
+language sql
+stable
+as $$
+  select public.current_staff_role() is not null;
+$$;
+
+create or replace function public.has_permission(p_permission text)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(
+    public.current_staff_role() = any (
+      case p_permission
+        when 'bookings.view' then array['owner', 'manager', 'front_desk', 'accountant']
+        when 'bookings.manage' then array['owner', 'manager', 'front_desk']
+        when 'bookings.delete' then array['owner', 'manager']
+        when 'payments.manage' then array['owner', 'manager', 'front_desk', 'accountant']
+        when 'guests.view' then array['owner', 'manager', 'front_desk']
+        when 'expenses.view' then array['owner', 'manager', 'accountant']
+        when 'expenses.manage' then array['owner', 'manager', 'accountant']
+        when 'rooms.manage' then array['owner', 'manager']
+        when 'settings.manage' then array['owner', 'manager']
+        when 'staff.manage' then array['owner']
+        else array[]::text[]
+      end
+    ),
+    false
+  );
+$$;
+
+-- Triggers that write to tables the acting role may not write directly
+alter function public.payments_refresh_booking() security definer set search_path = public;
+alter function public.link_booking_guest() security definer set search_path = public;
+alter function public.enqueue_sheet_sync(text, uuid) security definer set search_path = public;
+alter function public.queue_sheet_sync() security definer set search_path = public;
+
+-- Reads and writes need the permissions beside the table; with no read permission every
+-- staff member can read
+do $$
+declare
+  t record;
+begin
+  for t in
+    select *
+    from (values
+      ('staff', null, 'staff.manage'),
+      ('rooms', null, 'rooms.manage'),
+      ('booking_rooms', null, 'bookings.manage'),
+      ('payments', null, 'payments.manage'),
+      ('guests', 'guests.view', 'bookings.manage'),
+      ('refund_policies', null, 'settings.manage'),
+      ('tax_rates', null, 'settings.manage'),
+      ('rate_plans', null, 'settings.manage'),
+      ('rate_plan_seasons', null, 'settings.manage'),
+      ('message_templates', null, 'settings.manage'),
+      ('message_log', null, 'bookings.manage'),
+      ('sheet_sync_outbox', null, 'settings.manage'),
+      ('booking_reminders', null, null)
+    ) as v (table_name, read_permission, write_permission)
+  loop
+    execute format('alter table public.%I enable row level security', t.table_name);
+
+    -- Tables without a read permission are readable by every staff member
+    execute format('drop policy if exists "Staff can read" on public.%I', t.table_name);
+    if t.read_permission is not null then
+      execute format(
+        'create policy "Staff can read" on public.%I for select to authenticated '
+        'using (public.has_permission(%L))',
+        t.table_name, t.read_permission
+      );
+    else
+      execute format(
+        'create policy "Staff can read" on public.%I for select to authenticated using (public.is_staff())',
+        t.table_name
+      );
+    end if;
+
+    -- Tables without a write permission are only written by the service role (cron)
+    execute format('drop policy if exists "Permitted staff can write" on public.%I', t.table_name);
+    if t.write_permission is not null then
+      execute format(
+        'create policy "Permitted staff can write" on public.%I for all to authenticated '
+        'using (public.has_permission(%L)) with check (public.has_permission(%L))',
+        t.table_name, t.write_permission, t.write_permission
+      );
+    end if;
+  end loop;
+end;
+$$;
+
+-- Bookings: deleting is reserved for owners and managers
+alter table public.bookings enable row level security;
+
+drop policy if exists "Staff can read" on public.bookings;
+create policy "Staff can read" on public.bookings
+  for select to authenticated using (public.has_permission('bookings.view'));
+
+drop policy if exists "Permitted staff can add" on public.bookings;
+create policy "Permitted staff can add" on public.bookings
+  for insert to authenticated with check (public.has_permission('bookings.manage'));
+
+drop policy if exists "Permitted staff can edit" on public.bookings;
+create policy "Permitted staff can edit" on public.bookings
+  for update to authenticated
+  using (public.has_permission('bookings.manage'))
+  with check (public.has_permission('bookings.manage'));
+
+drop policy if exists "Permitted staff can delete" on public.bookings;
+create policy "Permitted staff can delete" on public.bookings
+  for delete to authenticated using (public.has_permission('bookings.delete'));
+
+-- Expenses are hidden from front desk entirely
+alter table public.expenses enable row level security;
+
+drop policy if exists "Permitted staff can read" on public.expenses;
+create policy "Permitted staff can read" on public.expenses
+  for select to authenticated using (public.has_permission('expenses.view'));
+
+drop policy if exists "Permitted staff can write" on public.expenses;
+create policy "Permitted staff can write" on public.expenses
+  for all to authenticated
+  using (public.has_permission('expenses.manage'))
+  with check (public.has_permission('expenses.manage'));
@@ -0,0 +1,152 @@
+-- Audit trail.
+--
+-- Every insert, update and delete on bookings, booking_rooms, expenses and rooms is
+-- recorded here by trigger, in the same transaction: who did it (the signed-in staff
+-- email, or 'system' for the service role and cron jobs), when, and the row before and
+-- after. changes holds only the fields an update touched as { field: { from, to } };
+-- updates that change nothing but updated_at are not recorded.
+--
+-- The log is append-only: no policy lets staff write to it, and a trigger rejects
+-- updates and deletes from any role, the service role included.
+--
+-- booking_id groups entries for a booking's history: the booking itself and its room lines.
+
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  occurred_at timestamptz not null default now(),
+  actor_email text not null default coalesce(auth.jwt() ->> 'email', 'system'),
+  actor_user_id uuid default auth.uid(),
+  entity text not null check (entity in ('booking', 'booking_room', 'expense', 'room')),
+  entity_id uuid not null,
+  booking_id uuid,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  before jsonb,
+  after jsonb,
+  changes jsonb
+);
+
+create index if not exists audit_log_occurred_idx on public.audit_log (occurred_at desc);
+create index if not exists audit_log_booking_idx on public.audit_log (booking_id, occurred_at desc);
+create index if not exists audit_log_entity_idx on public.audit_log (entity, entity_id, occurred_at desc);
+
+create or replace function public.reject_audit_log_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only
+  before update or delete on public.audit_log
+  for each row execute function public.reject_audit_log_change();
+
+-- Security definer: the audit row is written whatever the acting role may write itself
+create or replace function public.record_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  v_after jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  v_row jsonb := coalesce(v_after, v_before);
+  v_changes jsonb;
+  v_entity text := case tg_table_name
+    when 'bookings' then 'booking'
+    when 'booking_rooms' then 'booking_room'
+    when 'expenses' then 'expense'
+    when 'rooms' then 'room'
+  end;
+begin
+  if tg_op = 'UPDATE' then
+    select coalesce(jsonb_object_agg(n.key, jsonb_build_object('from', o.value, 'to', n.value)), '{}'::jsonb)
+    into v_changes
+    from jsonb_each(v_after) n
+    join jsonb_each(v_before) o on o.key = n.key
+    where n.value is distinct from o.value
+      and n.key <> 'updated_at';
+
+    if v_changes = '{}'::jsonb then
+      return null;
+    end if;
+  end if;
+
+  insert into public.audit_log (entity, entity_id, booking_id, action, before, after, changes)
+  values (
+    v_entity,
+    (v_row ->> 'id')::uuid,
+    case
+      when v_entity = 'booking' then (v_row ->> 'id')::uuid
+      when v_entity = 'booking_room' then (v_row ->> 'booking_id')::uuid
+    end,
+    lower(tg_op),
+    v_before,
+    v_after,
+    v_changes
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists bookings_audit on public.bookings;
+create trigger bookings_audit
+  after insert or update or delete on public.bookings
+  for each row execute function public.record_audit();
+
+drop trigger if exists booking_rooms_audit on public.booking_rooms;
+create trigger booking_rooms_audit
+  after insert or update or delete on public.booking_rooms
+  for each row execute function public.record_audit();
+
+drop trigger if exists expenses_audit on public.expenses;
+create trigger expenses_audit
+  after insert or update or delete on public.expenses
+  for each row execute function public.record_audit();
+
+drop trigger if exists rooms_audit on public.rooms;
+create trigger rooms_audit
+  after insert or update or delete on public.rooms
+  for each row execute function public.record_audit();
+
+-- activity.view: the Activity page, for owners and managers
+create or replace function public.has_permission(p_permission text)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(
+    public.current_staff_role() = any (
+      case p_permission
+        when 'bookings.view' then array['owner', 'manager', 'front_desk', 'accountant']
+        when 'bookings.manage' then array['owner', 'manager', 'front_desk']
+        when 'bookings.delete' then array['owner', 'manager']
+        when 'payments.manage' then array['owner', 'manager', 'front_desk', 'accountant']
+        when 'guests.view' then array['owner', 'manager', 'front_desk']
+        when 'expenses.view' then array['owner', 'manager', 'accountant']
+        when 'expenses.manage' then array['owner', 'manager', 'accountant']
+        when 'rooms.manage' then array['owner', 'manager']
+        when 'settings.manage' then array['owner', 'manager']
+        when 'staff.manage' then array['owner']
+        when 'activity.view' then array['owner', 'manager']
+        else array[]::text[]
+      end
+    ),
+    false
+  );
+$$;
+
+-- Read-only for staff: everything with activity.view, a booking's own history with bookings.view
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Permitted staff can read" on public.audit_log;
+create policy "Permitted staff can read" on public.audit_log
+  for select to authenticated
+  using (
+    public.has_permission('activity.view')
+    or (booking_id is not null and public.has_permission('bookings.view'))
+  );
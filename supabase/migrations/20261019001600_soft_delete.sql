@@ -0,0 +1,230 @@
+-- Soft delete for bookings and expenses.
+--
+-- Deleting a booking or expense now sets deleted_at (and deleted_by, filled in here from
+-- the signed-in email) instead of removing the row. Soft-deleted rows stay in their
+-- tables, so the Trash page can restore them; every list, report and availability check
+-- skips rows with deleted_at set. Purging from the Trash is the only hard delete, and
+-- row-level security only allows it for rows that are already in the Trash.
+--
+-- Moving a booking to or from the Trash needs the same permission as deleting it
+-- (bookings.delete); for expenses, expenses.manage.
+
+alter table public.bookings
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+alter table public.expenses
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+create index if not exists bookings_deleted_idx on public.bookings (deleted_at) where deleted_at is not null;
+create index if not exists expenses_deleted_idx on public.expenses (deleted_at) where deleted_at is not null;
+
+-- tg_argv[0]: the permission needed to trash or restore a row of this table
+create or replace function public.guard_soft_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is not distinct from old.deleted_at then
+    new.deleted_by := old.deleted_by;
+    return new;
+  end if;
+
+  if auth.role() <> 'service_role' and not public.has_permission(tg_argv[0]) then
+    raise exception using
+      errcode = '42501',
+      message = 'You do not have permission to delete or restore this record';
+  end if;
+
+  new.deleted_by := case when new.deleted_at is not null then coalesce(auth.jwt() ->> 'email', 'system') end;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_guard_soft_delete on public.bookings;
+create trigger bookings_guard_soft_delete
+  before update on public.bookings
+  for each row execute function public.guard_soft_delete('bookings.delete');
+
+drop trigger if exists expenses_guard_soft_delete on public.expenses;
+create trigger expenses_guard_soft_delete
+  before update on public.expenses
+  for each row execute function public.guard_soft_delete('expenses.manage');
+
+-- A booking in the Trash no longer holds its rooms
+create or replace function public.assert_room_available(
+  p_room_id uuid,
+  p_check_in date,
+  p_check_out date,
+  p_booking_id uuid
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_conflict record;
+begin
+  perform pg_advisory_xact_lock(hashtext('room:' || p_room_id::text));
+
+  select b.booking_no, b.guest_name, b.check_in, b.check_out
+    into v_conflict
+    from public.bookings b
+   where b.id is distinct from p_booking_id
+     and b.deleted_at is null
+     and public.is_occupying_status(b.status)
+     and (
+       -- single-room bookings
+       (
+         b.room_id = p_room_id
+         and b.check_in < p_check_out
+         and b.check_out > p_check_in
+         and not exists (
+           select 1 from public.booking_rooms x
+            where x.booking_id = b.id and x.room_id = p_room_id
+         )
+       )
+       -- multi-room bookings
+       or exists (
+         select 1 from public.booking_rooms br
+          where br.booking_id = b.id
+            and br.room_id = p_room_id
+            and br.check_in_date < p_check_out
+            and br.check_out_date > p_check_in
+       )
+     )
+   limit 1;
+
+  if found then
+    raise exception using
+      errcode = '23P01',
+      message = format(
+        'Room is already booked by %s (%s) from %s to %s',
+        v_conflict.guest_name, v_conflict.booking_no, v_conflict.check_in, v_conflict.check_out
+      ),
+      hint = 'Refresh availability and choose other dates or rooms.';
+  end if;
+end;
+$$;
+
+create or replace function public.check_booking_room_availability()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_line record;
+begin
+  if not public.is_occupying_status(new.status) or new.deleted_at is not null then
+    return new;
+  end if;
+
+  if new.room_id is not null then
+    perform public.assert_room_available(new.room_id, new.check_in, new.check_out, new.id);
+  end if;
+
+  -- Re-activating, restoring or moving a multi-room booking re-checks each of its room lines
+  if tg_op = 'UPDATE' then
+    for v_line in
+      select room_id, check_in_date, check_out_date
+        from public.booking_rooms
+       where booking_id = new.id
+    loop
+      perform public.assert_room_available(v_line.room_id, v_line.check_in_date, v_line.check_out_date, new.id);
+    end loop;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.check_booking_rooms_line_availability()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_booking record;
+begin
+  select status, deleted_at into v_booking from public.bookings where id = new.booking_id;
+  if v_booking.status is not null and public.is_occupying_status(v_booking.status) and v_booking.deleted_at is null then
+    perform public.assert_room_available(new.room_id, new.check_in_date, new.check_out_date, new.booking_id);
+  end if;
+  return new;
+end;
+$$;
+
+-- Restoring from the Trash goes through the availability check too
+drop trigger if exists bookings_prevent_double_booking on public.bookings;
+create trigger bookings_prevent_double_booking
+  before insert or update of room_id, check_in, check_out, status, deleted_at on public.bookings
+  for each row execute function public.check_booking_room_availability();
+
+-- Hard deletes only from the Trash
+drop policy if exists "Permitted staff can delete" on public.bookings;
+create policy "Permitted staff can delete" on public.bookings
+  for delete to authenticated
+  using (public.has_permission('bookings.delete') and deleted_at is not null);
+
+drop policy if exists "Permitted staff can write" on public.expenses;
+
+drop policy if exists "Permitted staff can add" on public.expenses;
+create policy "Permitted staff can add" on public.expenses
+  for insert to authenticated with check (public.has_permission('expenses.manage'));
+
+drop policy if exists "Permitted staff can edit" on public.expenses;
+create policy "Permitted staff can edit" on public.expenses
+  for update to authenticated
+  using (public.has_permission('expenses.manage'))
+  with check (public.has_permission('expenses.manage'));
+
+drop policy if exists "Permitted staff can delete" on public.expenses;
+create policy "Permitted staff can delete" on public.expenses
+  for delete to authenticated
+  using (public.has_permission('expenses.manage') and deleted_at is not null);
+
+-- Purge a booking from the Trash: its room lines and the booking go in one transaction,
+-- and only if the booking is still in the Trash when the row is locked
+create or replace function public.purge_booking(p_booking_id uuid)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_booking record;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    if not public.has_permission('bookings.delete') then
+      raise exception using errcode = '42501', message = 'You do not have permission to delete bookings';
+    end if;
+
+    select id, deleted_at into v_booking from public.bookings where id = p_booking_id for update;
+
+    if v_booking.id is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_booking.deleted_at is null then
+      raise exception using
+        errcode = 'P0001',
+        message = 'Only bookings in the Trash can be deleted permanently',
+        hint = 'The booking may have been restored. Refresh the Trash.';
+    end if;
+
+    delete from public.booking_rooms where booking_id = p_booking_id;
+    delete from public.bookings where id = p_booking_id;
+
+    if not found then
+      raise exception using errcode = 'P0002', message = 'Booking could not be deleted';
+    end if;
+  exception
+    when others then
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
+
+grant execute on function public.purge_booking(uuid) to authenticated;
@@ -0,0 +1,31 @@
+-- Sign-in history.
+--
+-- Each successful password sign-in is recorded by /api/record-sign-in, which adds the
+-- IP address and user agent from the request. If the function cannot be reached the
+-- browser records the sign-in itself, without an IP.
+--
+-- Staff see their own history on the Profile page; owners (staff.manage) can see any
+-- account's history from the Staff page. Rows are only ever added, never edited.
+
+create table if not exists public.login_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid(),
+  email text not null default lower(auth.jwt() ->> 'email'),
+  signed_in_at timestamptz not null default now(),
+  ip_address text,
+  user_agent text
+);
+
+create index if not exists login_history_email_idx on public.login_history (email, signed_in_at desc);
+
+alter table public.login_history enable row level security;
+
+drop policy if exists "Staff can read their own history" on public.login_history;
+create policy "Staff can read their own history" on public.login_history
+  for select to authenticated
+  using (email = lower(auth.jwt() ->> 'email') or public.has_permission('staff.manage'));
+
+drop policy if exists "Users can record their own sign-in" on public.login_history;
+create policy "Users can record their own sign-in" on public.login_history
+  for insert to authenticated
+  with check (user_id = auth.uid() and email = lower(auth.jwt() ->> 'email'));
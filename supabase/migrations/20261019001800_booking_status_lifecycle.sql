@@ -0,0 +1,395 @@
+-- Booking status lifecycle.
+--
+-- A booking moves through these statuses, and only along these transitions:
+--
+--   Tentative  -> Confirmed, Cancelled
+--   Confirmed  -> Checked-in, No-show, Cancelled
+--   Checked-in -> Checked-out
+--
+-- Checked-out, No-show and Cancelled are final. New bookings start as Tentative or
+-- Confirmed. A trigger rejects any other change of status, so the RPCs below are the
+-- only way to move a booking along; each one applies that transition's side effects:
+--
+--   confirm_booking     Tentative -> Confirmed
+--   check_in_booking    Confirmed -> Checked-in, from the check-in date; stamps checked_in_at
+--   checkout_booking    Checked-in -> Checked-out; records the final payment, stamps checked_out_at
+--   mark_no_show        Confirmed -> No-show, from the check-in date; records the refund (if
+--                       any) the refund policy allows, frees the rooms and clears the balance
+--   cancel_booking      Tentative/Confirmed -> Cancelled
+--
+-- "Paid" was never set by the app; any booking still carrying it becomes Confirmed.
+-- src/utils/bookingStatus.ts mirrors these rules for the buttons BookingList offers.
+
+alter table public.bookings
+  add column if not exists checked_in_at timestamptz,
+  add column if not exists checked_out_at timestamptz;
+
+update public.bookings set status = 'Confirmed' where status = 'Paid';
+
+alter table public.bookings drop constraint if exists bookings_status_check;
+alter table public.bookings
+  add constraint bookings_status_check
+  check (status in ('Tentative', 'Confirmed', 'Checked-in', 'Checked-out', 'No-show', 'Cancelled'));
+
+-- Dates are the resort's calendar days (the reminders cron uses the same zone)
+create or replace function public.resort_today()
+returns date
+language sql
+stable
+as $$
+  select (now() at time zone 'Asia/Dhaka')::date;
+$$;
+
+create or replace function public.booking_status_transition_allowed(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select (p_from, p_to) in (
+    ('Tentative', 'Confirmed'),
+    ('Tentative', 'Cancelled'),
+    ('Confirmed', 'Checked-in'),
+    ('Confirmed', 'No-show'),
+    ('Confirmed', 'Cancelled'),
+    ('Checked-in', 'Checked-out')
+  );
+$$;
+
+create or replace function public.guard_booking_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.status not in ('Tentative', 'Confirmed') then
+      raise exception using
+        errcode = 'P0001',
+        message = format('New bookings must be Tentative or Confirmed, not %s', new.status);
+    end if;
+  elsif new.status is distinct from old.status
+    and not public.booking_status_transition_allowed(old.status, new.status) then
+    raise exception using
+      errcode = 'P0001',
+      message = format('A %s booking cannot become %s', old.status, new.status);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_guard_status on public.bookings;
+create trigger bookings_guard_status
+  before insert or update of status on public.bookings
+  for each row execute function public.guard_booking_status();
+
+-- Guests who never arrived free their rooms like cancellations do
+create or replace function public.is_occupying_status(p_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_status not in ('Checked-out', 'No-show', 'Cancelled');
+$$;
+
+-- Nothing more is owed on a cancelled or no-show booking
+create or replace function public.derive_booking_balance()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_paid numeric;
+  v_refunded numeric;
+  v_net numeric;
+begin
+  -- A brand-new booking has no ledger yet; create_booking records its advance right after
+  if tg_op = 'INSERT' then
+    return new;
+  end if;
+
+  select coalesce(sum(amount) filter (where kind = 'payment'), 0),
+         coalesce(sum(amount) filter (where kind = 'refund'), 0)
+    into v_paid, v_refunded
+    from public.payments
+   where booking_id = new.id;
+
+  v_net := v_paid - v_refunded;
+
+  new.advance := v_net;
+  new.revenue := v_net;
+  new.refund_amount := v_refunded;
+  new.checkout_payable := case
+    when new.status in ('Cancelled', 'No-show') then 0
+    else greatest(
+      coalesce(new.price, 0) + coalesce(new.vat_amount, 0) + coalesce(new.service_charge_amount, 0)
+        + coalesce(new.extra_income, 0) - coalesce(new.discount, 0) - v_net,
+      0
+    )
+  end;
+  new.pending_amount := new.checkout_payable;
+
+  return new;
+end;
+$$;
+
+-- Confirm a tentative booking.
+
+create or replace function public.confirm_booking(p_booking_id uuid)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_status text;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status into v_status from public.bookings where id = p_booking_id for update;
+
+    if v_status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_status <> 'Tentative' then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only tentative bookings can be confirmed (this booking is %s)', v_status);
+    end if;
+
+    update public.bookings
+       set status = 'Confirmed',
+           updated_at = now()
+     where id = p_booking_id;
+  exception
+    when others then
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
+
+-- Check a guest in. Not possible before the booking's check-in date.
+
+create or replace function public.check_in_booking(p_booking_id uuid)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_booking record;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status, check_in into v_booking from public.bookings where id = p_booking_id for update;
+
+    if v_booking.status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_booking.status <> 'Confirmed' then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only confirmed bookings can be checked in (this booking is %s)', v_booking.status);
+    elsif public.resort_today() < v_booking.check_in::date then
+      raise exception using
+        errcode = 'P0001',
+        message = format('The guest cannot check in before %s', v_booking.check_in::date);
+    end if;
+
+    update public.bookings
+       set status = 'Checked-in',
+           checked_in_at = now(),
+           updated_at = now()
+     where id = p_booking_id;
+  exception
+    when others then
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
+
+-- Check out a booking: save extras/discount, mark it Checked-out and record the
+-- remaining balance as the final payment. Only checked-in guests can check out.
+--   { "success": true, "booking_id": "<uuid>", "amount_collected": <number> }
+
+create or replace function public.checkout_booking(
+  p_booking_id uuid,
+  p_extra_income numeric default 0,
+  p_discount numeric default 0,
+  p_method text default 'Cash',
+  p_reference text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_status text;
+  v_due numeric;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status into v_status from public.bookings where id = p_booking_id for update;
+
+    if v_status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_status <> 'Checked-in' then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only checked-in bookings can be checked out (this booking is %s)', v_status);
+    end if;
+
+    update public.bookings
+       set extra_income = coalesce(p_extra_income, 0),
+           discount = coalesce(p_discount, 0),
+           status = 'Checked-out',
+           checked_out_at = now(),
+           updated_at = now()
+     where id = p_booking_id
+     returning checkout_payable into v_due;
+
+    if v_due > 0 then
+      insert into public.payments (booking_id, kind, amount, method, reference, notes)
+      values (p_booking_id, 'payment', v_due, coalesce(nullif(p_method, ''), 'Cash'), p_reference, 'Checkout');
+    end if;
+  exception
+    when others then
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id, 'amount_collected', coalesce(v_due, 0));
+end;
+$$;
+
+-- Cancel a booking and record the refund (if any) in the ledger.
+-- The refund cannot exceed what the guest has paid.
+
+create or replace function public.cancel_booking(
+  p_booking_id uuid,
+  p_refund_amount numeric default 0,
+  p_method text default 'Cash',
+  p_reference text default null,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_status text;
+  v_paid numeric;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status, advance into v_status, v_paid from public.bookings where id = p_booking_id for update;
+
+    if v_status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_status not in ('Tentative', 'Confirmed') then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only tentative or confirmed bookings can be cancelled (this booking is %s)', v_status);
+    elsif coalesce(p_refund_amount, 0) > coalesce(v_paid, 0) then
+      raise exception using
+        errcode = '22023',
+        message = format('Refund of %s is more than the %s paid', p_refund_amount, coalesce(v_paid, 0));
+    end if;
+
+    if coalesce(p_refund_amount, 0) > 0 then
+      insert into public.payments (booking_id, kind, amount, method, reference, notes)
+      values (p_booking_id, 'refund', p_refund_amount, coalesce(nullif(p_method, ''), 'Cash'), p_reference, p_notes);
+    end if;
+
+    update public.bookings
+       set status = 'Cancelled',
+           vat_amount = 0,
+           service_charge_amount = 0,
+           updated_at = now()
+     where id = p_booking_id;
+  exception
+    when others then
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
+
+-- Mark a confirmed booking as a no-show, from its check-in date on. The client works out
+-- the refund from the refund policy (normally none: the no-show charge is what was paid);
+-- like a cancellation it cannot exceed what the guest has paid.
+
+create or replace function public.mark_no_show(
+  p_booking_id uuid,
+  p_refund_amount numeric default 0,
+  p_method text default 'Cash',
+  p_reference text default null,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_booking record;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status, check_in, advance into v_booking from public.bookings where id = p_booking_id for update;
+
+    if v_booking.status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_booking.status <> 'Confirmed' then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only confirmed bookings can be marked as a no-show (this booking is %s)', v_booking.status);
+    elsif public.resort_today() < v_booking.check_in::date then
+      raise exception using
+        errcode = 'P0001',
+        message = format('The guest can only be marked as a no-show from %s', v_booking.check_in::date);
+    elsif coalesce(p_refund_amount, 0) > coalesce(v_booking.advance, 0) then
+      raise exception using
+        errcode = '22023',
+        message = format('Refund of %s is more than the %s paid', p_refund_amount, coalesce(v_booking.advance, 0));
+    end if;
+
+    if coalesce(p_refund_amount, 0) > 0 then
+      insert into public.payments (booking_id, kind, amount, method, reference, notes)
+      values (p_booking_id, 'refund', p_refund_amount, coalesce(nullif(p_method, ''), 'Cash'), p_reference, p_notes);
+    end if;
+
+    update public.bookings
+       set status = 'No-show',
+           vat_amount = 0,
+           service_charge_amount = 0,
+           updated_at = now()
+     where id = p_booking_id;
+  exception
+    when others then
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
+
+grant execute on function public.confirm_booking(uuid) to authenticated;
+grant execute on function public.check_in_booking(uuid) to authenticated;
+grant execute on function public.mark_no_show(uuid, numeric, text, text, text) to authenticated;
@@ -0,0 +1,224 @@
+-- Tentative holds.
+--
+-- A hold is a Tentative booking with hold_expires_at set: it blocks its rooms like a
+-- confirmed booking until then, while the guest sends the advance. An expired hold stops
+-- blocking straight away (assert_room_available skips it), and release_expired_holds(),
+-- run by the /api/cron/release-holds job, cancels it so it leaves the lists too.
+--
+-- confirm_booking now takes the advance, so converting a hold records the first payment
+-- in the same transaction and clears the expiry.
+
+alter table public.bookings
+  add column if not exists hold_expires_at timestamptz;
+
+alter table public.bookings drop constraint if exists bookings_hold_expiry_check;
+alter table public.bookings
+  add constraint bookings_hold_expiry_check
+  check (status <> 'Tentative' or hold_expires_at is not null);
+
+create index if not exists bookings_hold_expiry_idx
+  on public.bookings (hold_expires_at)
+  where status = 'Tentative';
+
+-- Expired holds no longer hold their rooms, whether or not the release job has run yet
+create or replace function public.assert_room_available(
+  p_room_id uuid,
+  p_check_in date,
+  p_check_out date,
+  p_booking_id uuid
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_conflict record;
+begin
+  perform pg_advisory_xact_lock(hashtext('room:' || p_room_id::text));
+
+  select b.booking_no, b.guest_name, b.check_in, b.check_out
+    into v_conflict
+    from public.bookings b
+   where b.id is distinct from p_booking_id
+     and b.deleted_at is null
+     and public.is_occupying_status(b.status)
+     and not (b.status = 'Tentative' and b.hold_expires_at <= now())
+     and (
+       -- single-room bookings
+       (
+         b.room_id = p_room_id
+         and b.check_in < p_check_out
+         and b.check_out > p_check_in
+         and not exists (
+           select 1 from public.booking_rooms x
+            where x.booking_id = b.id and x.room_id = p_room_id
+         )
+       )
+       -- multi-room bookings
+       or exists (
+         select 1 from public.booking_rooms br
+          where br.booking_id = b.id
+            and br.room_id = p_room_id
+            and br.check_in_date < p_check_out
+            and br.check_out_date > p_check_in
+       )
+     )
+   limit 1;
+
+  if found then
+    raise exception using
+      errcode = '23P01',
+      message = format(
+        'Room is already booked by %s (%s) from %s to %s',
+        v_conflict.guest_name, v_conflict.booking_no, v_conflict.check_in, v_conflict.check_out
+      ),
+      hint = 'Refresh availability and choose other dates or rooms.';
+  end if;
+end;
+$$;
+
+-- create_booking persists hold_expires_at for holds
+
+create or replace function public.create_booking(
+  p_booking jsonb,
+  p_rooms jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_input public.bookings;
+  v_booking_id uuid;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    v_input := jsonb_populate_record(null::public.bookings, p_booking);
+
+    insert into public.bookings (
+      guest_name, guest_phone, guest_email, booking_no, room_id,
+      check_in, check_out, check_in_time, check_out_time,
+      price, advance, vat_applicable, vat_amount, service_charge_amount, tax_lines, checkout_payable,
+      remarks, num_adults, guest_count, status, hold_expires_at,
+      revenue, pending_amount, refund_amount, total_rooms,
+      rate_plan_id, rate_overridden
+    )
+    values (
+      v_input.guest_name, v_input.guest_phone, v_input.guest_email, v_input.booking_no, v_input.room_id,
+      v_input.check_in, v_input.check_out, v_input.check_in_time, v_input.check_out_time,
+      v_input.price, 0, v_input.vat_applicable, v_input.vat_amount,
+      coalesce(v_input.service_charge_amount, 0), coalesce(v_input.tax_lines, '[]'::jsonb), 0,
+      v_input.remarks, v_input.num_adults, v_input.guest_count, coalesce(v_input.status, 'Confirmed'),
+      case when v_input.status = 'Tentative' then v_input.hold_expires_at end,
+      0, 0, 0,
+      coalesce(v_input.total_rooms, greatest(jsonb_array_length(p_rooms), 1)),
+      v_input.rate_plan_id, coalesce(v_input.rate_overridden, false)
+    )
+    returning id into v_booking_id;
+
+    insert into public.booking_rooms (
+      booking_id, room_id, check_in_date, check_out_date, price_per_night, vat, rate_plan_id
+    )
+    select v_booking_id, r.room_id, r.check_in_date, r.check_out_date, r.price_per_night, coalesce(r.vat, 0), r.rate_plan_id
+      from jsonb_populate_recordset(null::public.booking_rooms, p_rooms) r;
+
+    if coalesce(v_input.advance, 0) > 0 then
+      insert into public.payments (booking_id, kind, amount, method, reference)
+      values (v_booking_id, 'payment', v_input.advance, coalesce(nullif(p_booking ->> 'advance_method', ''), 'Cash'), 'Advance');
+    else
+      -- No ledger entry to trigger the refresh, so derive the balance directly
+      update public.bookings set updated_at = now() where id = v_booking_id;
+    end if;
+  exception
+    when others then
+      -- Leaving the inner block rolls back the booking, its rooms and the advance payment
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', v_booking_id);
+end;
+$$;
+
+-- Convert a hold into a confirmed booking and record its advance. An expired hold can
+-- still be converted as long as its rooms have not been booked since.
+
+drop function if exists public.confirm_booking(uuid);
+
+create or replace function public.confirm_booking(
+  p_booking_id uuid,
+  p_advance numeric default 0,
+  p_method text default 'Cash',
+  p_reference text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_status text;
+  v_message text;
+  v_hint text;
+begin
+  begin
+    select status into v_status from public.bookings where id = p_booking_id for update;
+
+    if v_status is null then
+      raise exception using errcode = 'P0002', message = 'Booking not found';
+    elsif v_status <> 'Tentative' then
+      raise exception using
+        errcode = 'P0001',
+        message = format('Only tentative bookings can be confirmed (this booking is %s)', v_status);
+    elsif coalesce(p_advance, 0) < 0 then
+      raise exception using errcode = '22023', message = 'The advance cannot be negative';
+    end if;
+
+    -- Re-checks the rooms, since an expired hold stopped holding them
+    update public.bookings
+       set status = 'Confirmed',
+           hold_expires_at = null,
+           updated_at = now()
+     where id = p_booking_id;
+
+    if coalesce(p_advance, 0) > 0 then
+      insert into public.payments (booking_id, kind, amount, method, reference, notes)
+      values (p_booking_id, 'payment', p_advance, coalesce(nullif(p_method, ''), 'Cash'), p_reference, 'Advance');
+    end if;
+  exception
+    when others then
+      get stacked diagnostics v_message = message_text, v_hint = pg_exception_hint;
+      return jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object('code', sqlstate, 'message', v_message, 'hint', nullif(v_hint, ''))
+      );
+  end;
+
+  return jsonb_build_object('success', true, 'booking_id', p_booking_id);
+end;
+$$;
+
+-- Cancel every hold that has expired; returns how many were released
+create or replace function public.release_expired_holds()
+returns integer
+language plpgsql
+as $$
+declare
+  v_released integer;
+begin
+  update public.bookings
+     set status = 'Cancelled',
+         vat_amount = 0,
+         service_charge_amount = 0,
+         updated_at = now()
+   where status = 'Tentative'
+     and hold_expires_at <= now()
+     and deleted_at is null;
+
+  get diagnostics v_released = row_count;
+  return v_released;
+end;
+$$;
+
+grant execute on function public.confirm_booking(uuid, numeric, text, text) to authenticated;
+revoke execute on function public.release_expired_holds() from public, anon, authenticated;
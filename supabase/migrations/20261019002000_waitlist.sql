@@ -0,0 +1,215 @@
+-- Waitlist for fully booked dates.
+--
+-- A waitlist entry asks for a specific room (room_id), any room of a type (room_type), or
+-- - with neither set - any room, for check_in to check_out and party_size guests.
+--
+-- Whenever a booking frees rooms (it is cancelled, marked a no-show, checked out, released,
+-- moved to the Trash, shortened or moved), and whenever an entry is added,
+-- match_waiting_entries() looks for a room that is now free for the whole stay of each
+-- waiting entry. A match sets status = 'matched' and
+-- matched_room_id; a room matched to one entry is not offered to another entry for the
+-- same nights. The app watches the table over realtime to tell staff. The triggers are
+-- deferred to commit and match once per transaction, so a booking that is edited (its
+-- room lines replaced) is only matched against its final state, and only once.
+--
+-- Statuses: waiting -> matched -> converted (booking_id set), or closed at any point.
+
+create table if not exists public.waitlist (
+  id uuid primary key default gen_random_uuid(),
+  guest_name text not null,
+  guest_phone text not null,
+  guest_email text,
+  check_in date not null,
+  check_out date not null,
+  room_id uuid references public.rooms (id) on delete set null,
+  room_type text,
+  party_size integer not null default 1 check (party_size > 0),
+  notes text,
+  status text not null default 'waiting' check (status in ('waiting', 'matched', 'converted', 'closed')),
+  matched_room_id uuid references public.rooms (id) on delete set null,
+  matched_at timestamptz,
+  booking_id uuid references public.bookings (id) on delete set null,
+  created_by text default lower(auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint waitlist_dates_check check (check_out > check_in)
+);
+
+create index if not exists waitlist_open_idx on public.waitlist (check_in) where status in ('waiting', 'matched');
+
+alter table public.waitlist enable row level security;
+
+drop policy if exists "Staff can read" on public.waitlist;
+create policy "Staff can read" on public.waitlist
+  for select to authenticated using (public.is_staff());
+
+drop policy if exists "Permitted staff can write" on public.waitlist;
+create policy "Permitted staff can write" on public.waitlist
+  for all to authenticated
+  using (public.has_permission('bookings.manage'))
+  with check (public.has_permission('bookings.manage'));
+
+-- Whether a room has no active stay overlapping [p_check_in, p_check_out). The same test
+-- as assert_room_available, without its lock or error.
+create or replace function public.room_is_free(p_room_id uuid, p_check_in date, p_check_out date)
+returns boolean
+language sql
+stable
+as $$
+  select not exists (
+    select 1
+      from public.bookings b
+     where b.deleted_at is null
+       and public.is_occupying_status(b.status)
+       and not (b.status = 'Tentative' and b.hold_expires_at <= now())
+       and (
+         (
+           b.room_id = p_room_id
+           and b.check_in < p_check_out
+           and b.check_out > p_check_in
+           and not exists (
+             select 1 from public.booking_rooms x
+              where x.booking_id = b.id and x.room_id = p_room_id
+           )
+         )
+         or exists (
+           select 1 from public.booking_rooms br
+            where br.booking_id = b.id
+              and br.room_id = p_room_id
+              and br.check_in_date < p_check_out
+              and br.check_out_date > p_check_in
+         )
+       )
+  );
+$$;
+
+-- Match every waiting entry that now fits a free room; returns how many matched. Only the
+-- triggers below and match_waitlist() call this, so it is not granted to anyone.
+create or replace function public.match_waiting_entries()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry record;
+  v_room_id uuid;
+  v_matched integer := 0;
+begin
+  for v_entry in
+    select * from public.waitlist
+     where status = 'waiting'
+       and check_out > public.resort_today()
+     order by created_at
+     for update skip locked
+  loop
+    -- Smallest suitable room first, so larger rooms stay free for larger parties
+    select r.id into v_room_id
+      from public.rooms r
+     where (v_entry.room_id is null or r.id = v_entry.room_id)
+       and (v_entry.room_type is null or r.type = v_entry.room_type)
+       and r.capacity >= v_entry.party_size
+       and public.room_is_free(r.id, v_entry.check_in, v_entry.check_out)
+       and not exists (
+         -- already promised to an earlier entry for overlapping dates
+         select 1 from public.waitlist w
+          where w.status = 'matched'
+            and w.matched_room_id = r.id
+            and w.check_in < v_entry.check_out
+            and w.check_out > v_entry.check_in
+       )
+     order by r.capacity, r.name
+     limit 1;
+
+    if v_room_id is not null then
+      update public.waitlist
+         set status = 'matched',
+             matched_room_id = v_room_id,
+             matched_at = now(),
+             updated_at = now()
+       where id = v_entry.id;
+      v_matched := v_matched + 1;
+    end if;
+  end loop;
+
+  return v_matched;
+end;
+$$;
+
+-- The "Match now" button: the same matching for staff who may manage bookings
+create or replace function public.match_waitlist()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('bookings.manage') then
+    raise exception using errcode = '42501', message = 'You do not have permission to match the waitlist';
+  end if;
+
+  return public.match_waiting_entries();
+end;
+$$;
+
+create or replace function public.waitlist_match_on_release()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- These deferred triggers fire once per changed row at commit, when the final state is
+  -- already in place; one match per transaction is enough
+  if current_setting('app.waitlist_matched', true) = 'on' then
+    return null;
+  end if;
+  perform set_config('app.waitlist_matched', 'on', true);
+
+  perform public.match_waiting_entries();
+  return null;
+end;
+$$;
+
+drop trigger if exists bookings_match_waitlist on public.bookings;
+create constraint trigger bookings_match_waitlist
+  after update on public.bookings
+  deferrable initially deferred
+  for each row
+  when (
+    (public.is_occupying_status(old.status) and not public.is_occupying_status(new.status))
+    or (old.deleted_at is null and new.deleted_at is not null)
+    or new.check_in > old.check_in
+    or new.check_out < old.check_out
+    or new.room_id is distinct from old.room_id
+  )
+  execute function public.waitlist_match_on_release();
+
+drop trigger if exists booking_rooms_match_waitlist on public.booking_rooms;
+create constraint trigger booking_rooms_match_waitlist
+  after update or delete on public.booking_rooms
+  deferrable initially deferred
+  for each row
+  execute function public.waitlist_match_on_release();
+
+-- A new entry may fit a room that is already free (the conflict was only on the room first picked)
+drop trigger if exists waitlist_match_on_insert on public.waitlist;
+create constraint trigger waitlist_match_on_insert
+  after insert on public.waitlist
+  deferrable initially deferred
+  for each row
+  execute function public.waitlist_match_on_release();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'waitlist'
+  ) then
+    alter publication supabase_realtime add table public.waitlist;
+  end if;
+end;
+$$;
+
+revoke execute on function public.match_waiting_entries() from public, anon, authenticated;
+grant execute on function public.match_waitlist() to authenticated;
@@ -0,0 +1,227 @@
+-- Out-of-order and maintenance blocks.
+--
+-- A block takes a room out of service for the nights start_date to end_date - 1: end_date
+-- is the day it is back in service, the same convention as a booking's check_out. It has
+-- a reason and may point at the Maintenance expense that paid for the repair.
+--
+-- Blocks and bookings keep each other out: assert_room_available refuses a stay on a
+-- blocked night, and a block cannot be placed over a room's active stays (move the guests
+-- first) or over another block. The waitlist only matches rooms that are not blocked.
+
+create table if not exists public.room_blocks (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  start_date date not null,
+  end_date date not null,
+  reason text not null check (length(trim(reason)) > 0),
+  expense_id uuid references public.expenses (id) on delete set null,
+  created_by text default lower(auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint room_blocks_dates_check check (end_date > start_date)
+);
+
+create index if not exists room_blocks_room_idx on public.room_blocks (room_id, start_date);
+
+alter table public.room_blocks enable row level security;
+
+drop policy if exists "Staff can read" on public.room_blocks;
+create policy "Staff can read" on public.room_blocks
+  for select to authenticated using (public.is_staff());
+
+drop policy if exists "Permitted staff can write" on public.room_blocks;
+create policy "Permitted staff can write" on public.room_blocks
+  for all to authenticated
+  using (public.has_permission('rooms.manage'))
+  with check (public.has_permission('rooms.manage'));
+
+-- Whether any block on the room covers a night of [p_from, p_to); p_except_block_id lets a
+-- block that is being changed ignore itself
+create or replace function public.room_is_blocked(
+  p_room_id uuid,
+  p_from date,
+  p_to date,
+  p_except_block_id uuid default null
+)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1
+      from public.room_blocks rb
+     where rb.room_id = p_room_id
+       and rb.id is distinct from p_except_block_id
+       and rb.start_date < p_to
+       and rb.end_date > p_from
+  );
+$$;
+
+-- Stays are now also refused on blocked nights
+create or replace function public.assert_room_available(
+  p_room_id uuid,
+  p_check_in date,
+  p_check_out date,
+  p_booking_id uuid
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_conflict record;
+  v_block record;
+begin
+  perform pg_advisory_xact_lock(hashtext('room:' || p_room_id::text));
+
+  select b.booking_no, b.guest_name, b.check_in, b.check_out
+    into v_conflict
+    from public.bookings b
+   where b.id is distinct from p_booking_id
+     and b.deleted_at is null
+     and public.is_occupying_status(b.status)
+     and not (b.status = 'Tentative' and b.hold_expires_at <= now())
+     and (
+       -- single-room bookings
+       (
+         b.room_id = p_room_id
+         and b.check_in < p_check_out
+         and b.check_out > p_check_in
+         and not exists (
+           select 1 from public.booking_rooms x
+            where x.booking_id = b.id and x.room_id = p_room_id
+         )
+       )
+       -- multi-room bookings
+       or exists (
+         select 1 from public.booking_rooms br
+          where br.booking_id = b.id
+            and br.room_id = p_room_id
+            and br.check_in_date < p_check_out
+            and br.check_out_date > p_check_in
+       )
+     )
+   limit 1;
+
+  if found then
+    raise exception using
+      errcode = '23P01',
+      message = format(
+        'Room is already booked by %s (%s) from %s to %s',
+        v_conflict.guest_name, v_conflict.booking_no, v_conflict.check_in, v_conflict.check_out
+      ),
+      hint = 'Refresh availability and choose other dates or rooms.';
+  end if;
+
+  select rb.reason, rb.start_date, rb.end_date
+    into v_block
+    from public.room_blocks rb
+   where rb.room_id = p_room_id
+     and rb.start_date < p_check_out
+     and rb.end_date > p_check_in
+   order by rb.start_date
+   limit 1;
+
+  if found then
+    raise exception using
+      errcode = '23P01',
+      message = format(
+        'Room is out of service (%s) from %s until %s',
+        v_block.reason, v_block.start_date, v_block.end_date
+      ),
+      hint = 'Choose other dates or rooms.';
+  end if;
+end;
+$$;
+
+-- A block may not cover an active stay or overlap another block of the same room
+create or replace function public.guard_room_block()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('room:' || new.room_id::text));
+
+  if not public.room_is_free(new.room_id, new.start_date, new.end_date) then
+    raise exception using
+      errcode = '23P01',
+      message = format('The room has bookings between %s and %s', new.start_date, new.end_date),
+      hint = 'Move those bookings to another room first.';
+  end if;
+
+  if public.room_is_blocked(new.room_id, new.start_date, new.end_date, new.id) then
+    raise exception using
+      errcode = '23P01',
+      message = format('The room is already blocked between %s and %s', new.start_date, new.end_date),
+      hint = 'Change the existing block instead.';
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists room_blocks_guard on public.room_blocks;
+create trigger room_blocks_guard
+  before insert or update of room_id, start_date, end_date on public.room_blocks
+  for each row execute function public.guard_room_block();
+
+-- match_waiting_entries skips blocked rooms
+create or replace function public.match_waiting_entries()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry record;
+  v_room_id uuid;
+  v_matched integer := 0;
+begin
+  for v_entry in
+    select * from public.waitlist
+     where status = 'waiting'
+       and check_out > public.resort_today()
+     order by created_at
+     for update skip locked
+  loop
+    -- Smallest suitable room first, so larger rooms stay free for larger parties
+    select r.id into v_room_id
+      from public.rooms r
+     where (v_entry.room_id is null or r.id = v_entry.room_id)
+       and (v_entry.room_type is null or r.type = v_entry.room_type)
+       and r.capacity >= v_entry.party_size
+       and public.room_is_free(r.id, v_entry.check_in, v_entry.check_out)
+       and not public.room_is_blocked(r.id, v_entry.check_in, v_entry.check_out)
+       and not exists (
+         -- already promised to an earlier entry for overlapping dates
+         select 1 from public.waitlist w
+          where w.status = 'matched'
+            and w.matched_room_id = r.id
+            and w.check_in < v_entry.check_out
+            and w.check_out > v_entry.check_in
+       )
+     order by r.capacity, r.name
+     limit 1;
+
+    if v_room_id is not null then
+      update public.waitlist
+         set status = 'matched',
+             matched_room_id = v_room_id,
+             matched_at = now(),
+             updated_at = now()
+       where id = v_entry.id;
+      v_matched := v_matched + 1;
+    end if;
+  end loop;
+
+  return v_matched;
+end;
+$$;
+
+-- A room coming back into service early, or a block being removed, frees its nights too
+drop trigger if exists room_blocks_match_waitlist on public.room_blocks;
+create constraint trigger room_blocks_match_waitlist
+  after update or delete on public.room_blocks
+  deferrable initially deferred
+  for each row
+  execute function public.waitlist_match_on_release();
@@ -0,0 +1,140 @@
+-- Housekeeping status.
+--
+-- Every room is Clean, Dirty, Inspected or Out of service. checkout_booking turns the
+-- booking's rooms Dirty as the guest leaves; housekeepers then mark them Clean, and a
+-- supervisor Inspected, from the Housekeeping board.
+--
+-- A new housekeeping role can only do that: housekeeping.manage lets a staff member change
+-- the status through set_room_housekeeping_status(), without rooms.manage (which edits
+-- names, capacity and type). Front desk has it too, to put a room right on the spot.
+--
+-- Housekeepers have no bookings.view, so the tables that hold guest and booking details
+-- stop being readable by every staff member: they now need bookings.view like bookings.
+--
+-- rooms joins the realtime publication so the board and the front desk see changes live.
+
+alter table public.rooms
+  add column if not exists housekeeping_status text not null default 'Clean',
+  add column if not exists housekeeping_updated_at timestamptz,
+  add column if not exists housekeeping_updated_by text;
+
+alter table public.rooms drop constraint if exists rooms_housekeeping_status_check;
+alter table public.rooms
+  add constraint rooms_housekeeping_status_check
+  check (housekeeping_status in ('Clean', 'Dirty', 'Inspected', 'Out of service'));
+
+alter table public.staff drop constraint if exists staff_role_check;
+alter table public.staff
+  add constraint staff_role_check
+  check (role in ('owner', 'manager', 'front_desk', 'accountant', 'housekeeping'));
+
+-- housekeeping.manage: the Housekeeping board
+create or replace function public.has_permission(p_permission text)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(
+    public.current_staff_role() = any (
+      case p_permission
+        when 'bookings.view' then array['owner', 'manager', 'front_desk', 'accountant']
+        when 'bookings.manage' then array['owner', 'manager', 'front_desk']
+        when 'bookings.delete' then array['owner', 'manager']
+        when 'payments.manage' then array['owner', 'manager', 'front_desk', 'accountant']
+        when 'guests.view' then array['owner', 'manager', 'front_desk']
+        when 'expenses.view' then array['owner', 'manager', 'accountant']
+        when 'expenses.manage' then array['owner', 'manager', 'accountant']
+        when 'rooms.manage' then array['owner', 'manager']
+        when 'settings.manage' then array['owner', 'manager']
+        when 'staff.manage' then array['owner']
+        when 'activity.view' then array['owner', 'manager']
+        when 'housekeeping.manage' then array['owner', 'manager', 'front_desk', 'housekeeping']
+        else array[]::text[]
+      end
+    ),
+    false
+  );
+$$;
+
+-- Booking details are read with bookings.view, not just any staff account
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['booking_rooms', 'payments', 'message_log', 'booking_reminders', 'waitlist']
+  loop
+    execute format('drop policy if exists "Staff can read" on public.%I', t);
+    execute format(
+      'create policy "Staff can read" on public.%I for select to authenticated '
+      'using (public.has_permission(%L))',
+      t, 'bookings.view'
+    );
+  end loop;
+end;
+$$;
+
+-- Security definer: housekeepers may change this status but nothing else on rooms
+create or replace function public.set_room_housekeeping_status(p_room_id uuid, p_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('housekeeping.manage') then
+    raise exception using errcode = '42501', message = 'You do not have permission to change housekeeping status';
+  end if;
+
+  update public.rooms
+     set housekeeping_status = p_status,
+         housekeeping_updated_at = now(),
+         housekeeping_updated_by = lower(auth.jwt() ->> 'email')
+   where id = p_room_id;
+
+  if not found then
+    raise exception using errcode = 'P0002', message = 'Room not found';
+  end if;
+end;
+$$;
+
+-- Rooms of a booking that has just checked out need cleaning
+create or replace function public.mark_rooms_dirty_on_checkout()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.rooms
+     set housekeeping_status = 'Dirty',
+         housekeeping_updated_at = now(),
+         housekeeping_updated_by = coalesce(lower(auth.jwt() ->> 'email'), 'system')
+   where housekeeping_status <> 'Out of service'
+     and (
+       id = new.room_id
+       or id in (select br.room_id from public.booking_rooms br where br.booking_id = new.id)
+     );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists bookings_mark_rooms_dirty on public.bookings;
+create trigger bookings_mark_rooms_dirty
+  after update of status on public.bookings
+  for each row
+  when (new.status = 'Checked-out' and old.status is distinct from 'Checked-out')
+  execute function public.mark_rooms_dirty_on_checkout();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'rooms'
+  ) then
+    alter publication supabase_realtime add table public.rooms;
+  end if;
+end;
+$$;
+
+grant execute on function public.set_room_housekeeping_status(uuid, text) to authenticated;